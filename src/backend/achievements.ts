@@ -0,0 +1,192 @@
+import { turso } from "../utils/turso";
+import { getRosterPublishers, getRosterSize } from "./heroCatalog";
+
+/**
+ * Achievements
+ *
+ * Each achievement is a rule over one signal from the voter's votes and
+ * session (vote count, upset picks, heroes voted on from one publisher,
+ * discoveries, streaks, votes in a day) and a target for it. Adding an
+ * achievement means adding an entry to ACHIEVEMENTS; if it needs a new
+ * signal, add it to AchievementSignals and getAchievementSignals.
+ * Achievements that depend on the roster are left out while the roster
+ * can't support them, so no one is shown a badge they can't earn.
+ *
+ * Signals come from the voter's linked votes, so votes merged from
+ * localStorage only count towards the vote count and streak, and only up to
+ * the caps in voters.ts.
+ */
+
+/** A pick counts as an upset when the ratings gave the hero picked less than this */
+export const UPSET_PROBABILITY = 0.35;
+
+/**
+ * Everything achievement rules can look at.
+ */
+export interface AchievementSignals {
+  voteCount: number;
+  longestStreak: number;
+  discoveredCount: number;
+  rosterSize: number;
+  /** Wins given to heroes the ratings had below UPSET_PROBABILITY */
+  upsetPicks: number;
+  /** Most distinct heroes voted on (either side) from any one publisher */
+  publisherHeroes: number;
+  /** Most heroes on the roster from any one publisher */
+  largestPublisherSize: number;
+  /** Most votes cast on a single UTC day */
+  votesInOneDay: number;
+}
+
+/** Confetti size when an achievement unlocks, from 1 (small) to 4 (legendary) */
+export type AchievementTier = 1 | 2 | 3 | 4;
+
+/**
+ * A declarative achievement: unlocked once `signal` reaches `target`.
+ */
+interface AchievementRule {
+  id: string;
+  name: string;
+  description: string;
+  /** Short text shown on the badge */
+  icon: string;
+  tier: AchievementTier;
+  signal: keyof AchievementSignals;
+  /** A fixed target, or one worked out from the signals (e.g. the roster size) */
+  target: number | ((signals: AchievementSignals) => number);
+  /** Whether the target can be reached at all; the achievement is left out when it can't */
+  isReachable?: (signals: AchievementSignals) => boolean;
+}
+
+/**
+ * An achievement and how close the voter is to it.
+ */
+export interface AchievementProgress {
+  id: string;
+  name: string;
+  description: string;
+  icon: string;
+  tier: AchievementTier;
+  /** Signal value, capped at target */
+  current: number;
+  target: number;
+  unlocked: boolean;
+}
+
+const ACHIEVEMENTS: AchievementRule[] = [
+  { id: "origin-story", name: "ORIGIN", description: "Cast your first vote", icon: "1", tier: 1, signal: "voteCount", target: 1 },
+  { id: "sidekick", name: "SIDEKICK", description: "Cast 10 votes", icon: "10", tier: 2, signal: "voteCount", target: 10 },
+  { id: "hero", name: "HERO", description: "Cast 100 votes", icon: "100", tier: 3, signal: "voteCount", target: 100 },
+  { id: "legend", name: "LEGEND", description: "Cast 1000 votes", icon: "1K", tier: 4, signal: "voteCount", target: 1000 },
+  {
+    id: "underdog",
+    name: "UNDERDOG",
+    description: `Back a hero the ratings gave under ${UPSET_PROBABILITY * 100}%`,
+    icon: "UP",
+    tier: 1,
+    signal: "upsetPicks",
+    target: 1,
+  },
+  { id: "giant-slayer", name: "GIANT SLAYER", description: "Back 25 underdogs", icon: "GS", tier: 3, signal: "upsetPicks", target: 25 },
+  {
+    id: "loyalist",
+    name: "LOYALIST",
+    description: "Vote on 25 heroes from one publisher",
+    icon: "PUB",
+    tier: 2,
+    signal: "publisherHeroes",
+    target: 25,
+    isReachable: (signals) => signals.largestPublisherSize >= 25,
+  },
+  {
+    id: "completionist",
+    name: "COMPLETIONIST",
+    description: "Discover every hero",
+    icon: "ALL",
+    tier: 4,
+    signal: "discoveredCount",
+    target: (signals) => signals.rosterSize,
+    isReachable: (signals) => signals.rosterSize > 0,
+  },
+  { id: "weekly", name: "DEVOTED", description: "Keep a 7-day voting streak", icon: "7D", tier: 2, signal: "longestStreak", target: 7 },
+  { id: "monthly", name: "RELENTLESS", description: "Keep a 30-day voting streak", icon: "30D", tier: 3, signal: "longestStreak", target: 30 },
+  { id: "marathon", name: "MARATHON", description: "Cast 50 votes in one day", icon: "50", tier: 2, signal: "votesInOneDay", target: 50 },
+];
+
+/**
+ * Checks every achievement against a voter's signals.
+ *
+ * @param signals - The voter's signals
+ * @returns Every reachable achievement, in ACHIEVEMENTS order, with progress towards it
+ */
+export function evaluateAchievements(signals: AchievementSignals): AchievementProgress[] {
+  const reachable = ACHIEVEMENTS.filter(({ isReachable }) => !isReachable || isReachable(signals));
+  return reachable.map(({ signal, target: rule, isReachable: _isReachable, ...achievement }) => {
+    const target = typeof rule === "function" ? rule(signals) : rule;
+    const value = signals[signal];
+    return { ...achievement, current: Math.min(value, target), target, unlocked: value >= target };
+  });
+}
+
+/**
+ * Works out the achievement signals that aren't already part of the voter's progress.
+ *
+ * @param voterId - Voter id
+ * @param progress - Signals from the voter's progress (vote count, longest streak, discoveries)
+ */
+export async function getAchievementSignals(
+  voterId: string,
+  progress: Pick<AchievementSignals, "voteCount" | "longestStreak" | "discoveredCount">
+): Promise<AchievementSignals> {
+  const [upsetResult, heroResult, dayResult, publisherById, rosterSize] = await Promise.all([
+    turso.execute({
+      sql: `
+        SELECT COUNT(*) AS count FROM votes
+        WHERE voter_id = ? AND outcome = 'win' AND expected_score < ? AND retracted_at IS NULL
+      `,
+      args: [voterId, UPSET_PROBABILITY],
+    }),
+    turso.execute({
+      sql: `
+        SELECT voted_for AS hero_id FROM votes WHERE voter_id = ? AND retracted_at IS NULL
+        UNION
+        SELECT voted_against FROM votes WHERE voter_id = ? AND retracted_at IS NULL
+      `,
+      args: [voterId, voterId],
+    }),
+    turso.execute({
+      sql: `
+        SELECT MAX(count) AS count FROM (
+          SELECT COUNT(*) AS count FROM votes
+          WHERE voter_id = ? AND retracted_at IS NULL
+          GROUP BY substr(created_at, 1, 10)
+        )
+      `,
+      args: [voterId],
+    }),
+    getRosterPublishers(),
+    getRosterSize(),
+  ]);
+
+  const rosterByPublisher = new Map<string, number>();
+  publisherById.forEach((publisher) => {
+    rosterByPublisher.set(publisher, (rosterByPublisher.get(publisher) ?? 0) + 1);
+  });
+
+  const heroesByPublisher = new Map<string, number>();
+  for (const row of heroResult.rows) {
+    const publisher = publisherById.get(Number(row.hero_id));
+    if (publisher) {
+      heroesByPublisher.set(publisher, (heroesByPublisher.get(publisher) ?? 0) + 1);
+    }
+  }
+
+  return {
+    ...progress,
+    rosterSize,
+    upsetPicks: Number(upsetResult.rows[0]?.count ?? 0),
+    publisherHeroes: Math.max(0, ...Array.from(heroesByPublisher.values())),
+    largestPublisherSize: Math.max(0, ...Array.from(rosterByPublisher.values())),
+    votesInOneDay: Number(dayResult.rows[0]?.count ?? 0),
+  };
+}
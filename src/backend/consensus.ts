@@ -0,0 +1,69 @@
+import { turso } from "../utils/turso";
+import { scoreConsensus, type ConsensusScore } from "../utils/consensus";
+
+/**
+ * Voter Consensus
+ *
+ * How mainstream a voter's taste is, from the Elo win probability stored with
+ * each of their votes (`votes.expected_score`, the chance the ratings gave the
+ * hero voted for at the time). Draws aren't a pick either way, so they're left
+ * out, as are undone votes and votes from before predictions were stored.
+ */
+
+/** Picks in the "recent" score, for spotting a change in taste */
+const RECENT_PICKS = 20;
+
+/**
+ * Consensus scores for one UTC day.
+ */
+export interface DailyConsensusScore extends ConsensusScore {
+  /** "YYYY-MM-DD" */
+  day: string;
+}
+
+/**
+ * A voter's agreement with the global ratings, overall and over time.
+ */
+export interface VoterConsensus {
+  overall: ConsensusScore;
+  /** The voter's last RECENT_PICKS picks */
+  recent: ConsensusScore;
+  /** One entry per day with picks, oldest first */
+  daily: DailyConsensusScore[];
+}
+
+/**
+ * Scores how closely a voter's picks followed the global ratings.
+ *
+ * @param voterId - Voter id
+ * @returns Overall, recent and per-day consensus scores
+ */
+export async function getVoterConsensus(voterId: string): Promise<VoterConsensus> {
+  const result = await turso.execute({
+    sql: `
+      SELECT expected_score, date(created_at) AS day
+      FROM votes
+      WHERE voter_id = ? AND outcome = 'win' AND expected_score IS NOT NULL AND retracted_at IS NULL
+      ORDER BY created_at, id
+    `,
+    args: [voterId],
+  });
+
+  const all: number[] = [];
+  const byDay = new Map<string, number[]>();
+  for (const row of result.rows) {
+    const pick = Number(row.expected_score);
+    all.push(pick);
+
+    const day = String(row.day);
+    const dayPicks = byDay.get(day) ?? [];
+    dayPicks.push(pick);
+    byDay.set(day, dayPicks);
+  }
+
+  return {
+    overall: scoreConsensus(all),
+    recent: scoreConsensus(all.slice(-RECENT_PICKS)),
+    daily: Array.from(byDay.entries()).map(([day, picks]) => ({ day, ...scoreConsensus(picks) })),
+  };
+}
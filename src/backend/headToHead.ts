@@ -0,0 +1,96 @@
+import { turso } from "../utils/turso";
+import { DEFAULT_ELO_CONFIG, expectedScore } from "../utils/elo";
+
+/**
+ * Head-to-Head Records
+ *
+ * Reads every meeting between two heroes back out of the `votes` table
+ * (ignoring undone votes) and pairs the record with the current Elo win probability.
+ */
+
+/**
+ * One side of a head-to-head record.
+ */
+export interface HeadToHeadSide {
+  heroId: number;
+  /** Times this hero won against the other */
+  wins: number;
+  /** Current Elo rating */
+  rating: number;
+  /** Probability of beating the other hero at current ratings (0-1) */
+  winProbability: number;
+}
+
+/**
+ * Head-to-head record between two heroes.
+ */
+export interface HeadToHeadRecord {
+  heroA: HeadToHeadSide;
+  heroB: HeadToHeadSide;
+  meetings: number;
+  /** Meetings that ended in a draw */
+  draws: number;
+  /** When the heroes first met, or null if they never have */
+  firstMeeting: string | null;
+  /** When the heroes last met, or null if they never have */
+  lastMeeting: string | null;
+}
+
+/**
+ * Builds the head-to-head record between two heroes.
+ *
+ * @param heroA - First hero ID
+ * @param heroB - Second hero ID
+ * @returns Wins on each side, draws, first/last meeting and current win probabilities
+ */
+export async function getHeadToHead(heroA: number, heroB: number): Promise<HeadToHeadRecord> {
+  const [meetingResult, ratingResult] = await Promise.all([
+    turso.execute({
+      sql: `
+        SELECT
+          COUNT(*) AS meetings,
+          COALESCE(SUM(CASE WHEN voted_for = ? AND outcome = 'win' THEN 1 ELSE 0 END), 0) AS a_wins,
+          COALESCE(SUM(CASE WHEN voted_for = ? AND outcome = 'win' THEN 1 ELSE 0 END), 0) AS b_wins,
+          COALESCE(SUM(CASE WHEN outcome = 'draw' THEN 1 ELSE 0 END), 0) AS draws,
+          MIN(created_at) AS first_meeting,
+          MAX(created_at) AS last_meeting
+        FROM votes
+        WHERE ((voted_for = ? AND voted_against = ?) OR (voted_for = ? AND voted_against = ?))
+          AND retracted_at IS NULL
+      `,
+      args: [heroA, heroB, heroA, heroB, heroB, heroA],
+    }),
+    turso.execute({
+      sql: "SELECT hero_id, rating FROM heroRatings WHERE hero_id IN (?, ?)",
+      args: [heroA, heroB],
+    }),
+  ]);
+
+  const ratings = new Map<number, number>();
+  for (const row of ratingResult.rows) {
+    ratings.set(Number(row.hero_id), Number(row.rating));
+  }
+  const ratingA = ratings.get(heroA) ?? DEFAULT_ELO_CONFIG.initialRating;
+  const ratingB = ratings.get(heroB) ?? DEFAULT_ELO_CONFIG.initialRating;
+
+  const data: any = meetingResult.rows[0];
+
+  return {
+    heroA: {
+      heroId: heroA,
+      wins: Number(data?.a_wins ?? 0),
+      rating: ratingA,
+      winProbability: expectedScore(ratingA, ratingB),
+    },
+    heroB: {
+      heroId: heroB,
+      wins: Number(data?.b_wins ?? 0),
+      rating: ratingB,
+      winProbability: expectedScore(ratingB, ratingA),
+    },
+    meetings: Number(data?.meetings ?? 0),
+    draws: Number(data?.draws ?? 0),
+    firstMeeting: data?.first_meeting ? String(data.first_meeting) : null,
+    lastMeeting: data?.last_meeting ? String(data.last_meeting) : null,
+  };
+}
@@ -0,0 +1,125 @@
+import { turso } from "../utils/turso";
+import { CACHED_HERO_METADATA_SQL } from "./heroDataCache";
+import type { HeroCatalogEntry } from "../types/heroCatalog";
+
+/**
+ * Hero Catalog
+ *
+ * The roster of heroes lives in the `heroes` table, seeded from the
+ * checked-in snapshot. Everything that needs to know which heroes exist
+ * (matchmaking, the image proxy, profiles, discovery progress) reads it from
+ * here instead of assuming a fixed id range.
+ */
+
+/** The roster only changes when the table is re-seeded, so it is cached for a while */
+const CATALOG_CACHE_TTL_MS = 5 * 60 * 1000;
+
+let catalogCache: { loadedAt: number; heroes: Map<number, HeroCatalogEntry> } | null = null;
+
+const toNullableNumber = (value: unknown): number | null =>
+  value === null || value === undefined ? null : Number(value);
+
+async function loadCatalog(): Promise<Map<number, HeroCatalogEntry>> {
+  if (catalogCache && Date.now() - catalogCache.loadedAt < CATALOG_CACHE_TTL_MS) {
+    return catalogCache.heroes;
+  }
+
+  const result = await turso.execute("SELECT * FROM heroes ORDER BY id");
+  const heroes = new Map<number, HeroCatalogEntry>();
+  for (const row of result.rows) {
+    const id = Number(row.id);
+    heroes.set(id, {
+      id,
+      name: String(row.name),
+      publisher: row.publisher === null ? null : String(row.publisher),
+      alignment: row.alignment === null ? null : String(row.alignment),
+      powerstats: {
+        intelligence: toNullableNumber(row.intelligence),
+        strength: toNullableNumber(row.strength),
+        speed: toNullableNumber(row.speed),
+        durability: toNullableNumber(row.durability),
+        power: toNullableNumber(row.power),
+        combat: toNullableNumber(row.combat),
+      },
+      hasImage: Boolean(row.has_image),
+    });
+  }
+
+  catalogCache = { loadedAt: Date.now(), heroes };
+  return heroes;
+}
+
+/**
+ * Gets every hero in the catalog, ordered by ID.
+ */
+export async function getCatalog(): Promise<HeroCatalogEntry[]> {
+  return Array.from((await loadCatalog()).values());
+}
+
+/**
+ * Gets the IDs of every hero in the catalog, ordered by ID.
+ *
+ * @throws Error if the catalog has not been seeded
+ */
+export async function getRosterIds(): Promise<number[]> {
+  const ids = Array.from((await loadCatalog()).keys());
+  if (ids.length === 0) {
+    throw new Error("Hero catalog is empty. Run `npm run seed-heroes` first.");
+  }
+  return ids;
+}
+
+/**
+ * Gets the number of heroes in the catalog.
+ */
+export async function getRosterSize(): Promise<number> {
+  return (await loadCatalog()).size;
+}
+
+/**
+ * Looks up one hero in the catalog.
+ *
+ * @param heroId - Hero ID
+ * @returns The catalog entry, or null if the hero is not on the roster
+ */
+export async function getCatalogHero(heroId: number): Promise<HeroCatalogEntry | null> {
+  return (await loadCatalog()).get(heroId) ?? null;
+}
+
+/**
+ * Gets the publisher of every hero in the catalog that has one. Heroes
+ * without one in the catalog fall back to their cached provider response.
+ *
+ * @returns Publisher by hero ID
+ */
+export async function getRosterPublishers(): Promise<Map<number, string>> {
+  const [catalog, cached] = await Promise.all([
+    loadCatalog(),
+    turso.execute(`SELECT hero_id, publisher FROM (${CACHED_HERO_METADATA_SQL}) WHERE publisher IS NOT NULL`),
+  ]);
+
+  const cachedById = new Map(cached.rows.map((row) => [Number(row.hero_id), String(row.publisher)]));
+  const publishers = new Map<number, string>();
+  catalog.forEach((hero) => {
+    const publisher = hero.publisher ?? cachedById.get(hero.id);
+    if (publisher) publishers.set(hero.id, publisher);
+  });
+  return publishers;
+}
+
+/**
+ * Gets every publisher in the catalog, alphabetically. Publishers from cached
+ * provider responses are included, for heroes the catalog doesn't have yet.
+ */
+export async function getPublishers(): Promise<string[]> {
+  const [catalog, cached] = await Promise.all([
+    loadCatalog(),
+    turso.execute(`SELECT DISTINCT publisher FROM (${CACHED_HERO_METADATA_SQL}) WHERE publisher IS NOT NULL`),
+  ]);
+
+  const publishers = new Set<string>(cached.rows.map((row) => String(row.publisher)));
+  catalog.forEach((hero) => {
+    if (hero.publisher) publishers.add(hero.publisher);
+  });
+  return Array.from(publishers).sort((a, b) => a.localeCompare(b));
+}
@@ -0,0 +1,308 @@
+import { z } from "zod";
+import { turso } from "../utils/turso";
+import type { SuperHeroApiResponse } from "../types/heroBiography";
+import { POWERSTAT_KEYS } from "../types/heroCatalog";
+import type { HeroDataProvider } from "./heroDataProvider";
+
+/**
+ * Hero Data Cache
+ *
+ * Wraps a hero data provider so `getHero` responses are kept in the
+ * `hero_data_cache` table instead of hitting the upstream API for every
+ * matchup and every expanded results row.
+ *
+ * - Fresh entries are served straight from the cache.
+ * - Stale entries are still served, and refreshed from upstream in the background.
+ * - Entries past the stale window, or missing, are fetched before responding.
+ * - `{ response: "error" }` answers are cached too (negative entries), with a shorter TTL.
+ * - Responses that don't match the SuperHero API shape are passed through but never stored.
+ * - A failed cache write is logged; the fetched response is still returned.
+ *
+ * The cached responses also stand in for the hero catalog's publisher,
+ * alignment and power stats for heroes the catalog doesn't have yet (see
+ * CACHED_HERO_METADATA_SQL).
+ *
+ * Images are not cached here; the image route sets long HTTP cache headers instead.
+ */
+
+export interface HeroDataCacheOptions {
+  /** How long a successful response is fresh (default: 7 days) */
+  ttlMs: number;
+  /** How long a negative (error) response is fresh (default: 1 hour) */
+  negativeTtlMs: number;
+  /** How long past its TTL an entry may still be served while revalidating (default: 30 days) */
+  staleMs: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_HERO_DATA_CACHE_OPTIONS: HeroDataCacheOptions = {
+  ttlMs: 7 * DAY_MS,
+  negativeTtlMs: 60 * 60 * 1000,
+  staleMs: 30 * DAY_MS,
+};
+
+const biographySchema = z.object({
+  "full-name": z.string(),
+  "alter-egos": z.string(),
+  aliases: z.array(z.string()),
+  "place-of-birth": z.string(),
+  "first-appearance": z.string(),
+  publisher: z.string(),
+  alignment: z.string(),
+});
+
+/**
+ * Shape a response must have before it is cached.
+ * Unknown sections (appearance, etc.) are kept as they are.
+ */
+const superHeroApiResponseSchema: z.ZodType<SuperHeroApiResponse> = z.union([
+  z
+    .object({
+      response: z.literal("success"),
+      id: z.string(),
+      name: z.string(),
+      powerstats: z.record(z.string()).optional(),
+      biography: biographySchema.optional(),
+      appearance: z.record(z.unknown()).optional(),
+      work: z.object({ occupation: z.string(), base: z.string() }).optional(),
+      connections: z.object({ "group-affiliation": z.string(), relatives: z.string() }).optional(),
+      image: z.object({ url: z.string() }).optional(),
+    })
+    .passthrough(),
+  z.object({
+    response: z.literal("error"),
+    error: z.string(),
+  }),
+]);
+
+/** A text field of a cached response, with the SuperHero API's "-" and "null" placeholders as NULL */
+const cachedText = (path: string): string =>
+  `NULLIF(NULLIF(NULLIF(json_extract(payload, '${path}'), '-'), 'null'), '')`;
+
+/**
+ * Publisher, alignment and power stats per hero, from each hero's newest
+ * successful cached response. Columns: hero_id, publisher, alignment and one
+ * integer column per POWERSTAT_KEYS entry (NULL when unknown).
+ */
+export const CACHED_HERO_METADATA_SQL = `
+  SELECT
+    hero_id,
+    ${cachedText("$.biography.publisher")} AS publisher,
+    ${cachedText("$.biography.alignment")} AS alignment,
+    ${POWERSTAT_KEYS.map((key) => `CAST(${cachedText(`$.powerstats.${key}`)} AS INTEGER) AS ${key}`).join(",\n    ")}
+  FROM (
+    SELECT hero_id, payload, ROW_NUMBER() OVER (PARTITION BY hero_id ORDER BY fetched_at DESC) AS newest
+    FROM hero_data_cache
+    WHERE is_error = 0
+  )
+  WHERE newest = 1
+`;
+
+/**
+ * Counters since this server instance started.
+ */
+export interface HeroDataCacheCounters {
+  /** Served a fresh entry */
+  hits: number;
+  /** Served a stale entry and refreshed it in the background */
+  staleHits: number;
+  /** Of hits and staleHits, how many were negative (error) entries */
+  negativeHits: number;
+  /** Had to fetch from upstream before responding */
+  misses: number;
+  /** Background refreshes started */
+  revalidations: number;
+  /** Upstream responses rejected by validation (not cached) */
+  invalidResponses: number;
+  /** Upstream failures answered with an expired entry */
+  staleOnError: number;
+  /** Fetched responses that could not be written to the cache */
+  writeErrors: number;
+}
+
+const counters: HeroDataCacheCounters = {
+  hits: 0,
+  staleHits: 0,
+  negativeHits: 0,
+  misses: 0,
+  revalidations: 0,
+  invalidResponses: 0,
+  staleOnError: 0,
+  writeErrors: 0,
+};
+const countersSince = new Date().toISOString();
+
+interface CacheEntry {
+  payload: SuperHeroApiResponse;
+  isError: boolean;
+  fetchedAt: number;
+}
+
+async function readEntry(provider: string, heroId: number): Promise<CacheEntry | null> {
+  const result = await turso.execute({
+    sql: "SELECT payload, is_error, fetched_at FROM hero_data_cache WHERE provider = ? AND hero_id = ?",
+    args: [provider, heroId],
+  });
+
+  const row = result.rows[0];
+  if (!row) return null;
+
+  return {
+    payload: JSON.parse(String(row.payload)) as SuperHeroApiResponse,
+    isError: Boolean(row.is_error),
+    fetchedAt: Number(row.fetched_at),
+  };
+}
+
+async function writeEntry(provider: string, heroId: number, payload: SuperHeroApiResponse): Promise<void> {
+  await turso.execute({
+    sql: `
+      INSERT INTO hero_data_cache (provider, hero_id, payload, is_error, fetched_at)
+      VALUES (?, ?, ?, ?, ?)
+      ON CONFLICT(provider, hero_id) DO UPDATE SET
+        payload = excluded.payload,
+        is_error = excluded.is_error,
+        fetched_at = excluded.fetched_at
+    `,
+    args: [provider, heroId, JSON.stringify(payload), payload.response === "error" ? 1 : 0, Date.now()],
+  });
+}
+
+/**
+ * Adds a Turso-backed cache in front of a provider's `getHero`.
+ *
+ * @param inner - Provider to fetch from on a miss
+ * @param options - Optional TTL overrides
+ * @returns A provider with the same name and images as `inner`
+ */
+export function createCachingProvider(
+  inner: HeroDataProvider,
+  options: Partial<HeroDataCacheOptions> = {}
+): HeroDataProvider {
+  const { ttlMs, negativeTtlMs, staleMs } = { ...DEFAULT_HERO_DATA_CACHE_OPTIONS, ...options };
+  // One upstream request per hero at a time, shared by concurrent misses and revalidations
+  const inFlight = new Map<number, Promise<SuperHeroApiResponse>>();
+
+  const fetchAndStore = (heroId: number): Promise<SuperHeroApiResponse> => {
+    const pending = inFlight.get(heroId);
+    if (pending) return pending;
+
+    const request = (async () => {
+      const response = await inner.getHero(heroId);
+      const parsed = superHeroApiResponseSchema.safeParse(response);
+      if (!parsed.success) {
+        counters.invalidResponses++;
+        console.warn(`Not caching invalid ${inner.name} response for hero ${heroId}`);
+        return response;
+      }
+      try {
+        await writeEntry(inner.name, heroId, parsed.data);
+      } catch (error) {
+        // The response is good; only the next lookup misses out
+        counters.writeErrors++;
+        console.error(`Error caching hero ${heroId}:`, error);
+      }
+      return parsed.data;
+    })().finally(() => inFlight.delete(heroId));
+
+    inFlight.set(heroId, request);
+    return request;
+  };
+
+  return {
+    name: inner.name,
+
+    async getHero(heroId) {
+      const entry = await readEntry(inner.name, heroId);
+      const age = entry ? Date.now() - entry.fetchedAt : Infinity;
+      const ttl = entry?.isError ? negativeTtlMs : ttlMs;
+
+      if (entry && age < ttl) {
+        counters.hits++;
+        if (entry.isError) counters.negativeHits++;
+        return entry.payload;
+      }
+
+      if (entry && age < ttl + staleMs) {
+        counters.staleHits++;
+        if (entry.isError) counters.negativeHits++;
+        counters.revalidations++;
+        fetchAndStore(heroId).catch((error) => {
+          console.error(`Error revalidating cached hero ${heroId}:`, error);
+        });
+        return entry.payload;
+      }
+
+      counters.misses++;
+      try {
+        return await fetchAndStore(heroId);
+      } catch (error) {
+        // Better an old answer than none when upstream is down
+        if (entry) {
+          counters.staleOnError++;
+          console.error(`Serving expired cache entry for hero ${heroId}:`, error);
+          return entry.payload;
+        }
+        throw error;
+      }
+    },
+
+    getImage(heroId) {
+      return inner.getImage(heroId);
+    },
+  };
+}
+
+/**
+ * Cache counters and the current contents of the cache table.
+ */
+export interface HeroDataCacheStats {
+  counters: HeroDataCacheCounters;
+  /** When the counters started (this server instance's start time) */
+  countersSince: string;
+  /** Hit rate over all lookups, fresh and stale (0-1) */
+  hitRate: number;
+  entries: number;
+  negativeEntries: number;
+  /** Entries past their TTL */
+  staleEntries: number;
+}
+
+/**
+ * Gets the cache counters together with a summary of the cache table.
+ */
+export async function getHeroDataCacheStats(
+  options: Partial<HeroDataCacheOptions> = {}
+): Promise<HeroDataCacheStats> {
+  const { ttlMs, negativeTtlMs } = { ...DEFAULT_HERO_DATA_CACHE_OPTIONS, ...options };
+  const now = Date.now();
+
+  const result = await turso.execute({
+    sql: `
+      SELECT
+        COUNT(*) AS entries,
+        COALESCE(SUM(is_error), 0) AS negative_entries,
+        COALESCE(SUM(CASE
+          WHEN is_error = 1 AND fetched_at < ? THEN 1
+          WHEN is_error = 0 AND fetched_at < ? THEN 1
+          ELSE 0
+        END), 0) AS stale_entries
+      FROM hero_data_cache
+    `,
+    args: [now - negativeTtlMs, now - ttlMs],
+  });
+
+  const data: any = result.rows[0];
+  const served = counters.hits + counters.staleHits;
+  const lookups = served + counters.misses;
+
+  return {
+    counters: { ...counters },
+    countersSince,
+    hitRate: lookups > 0 ? served / lookups : 0,
+    entries: Number(data?.entries ?? 0),
+    negativeEntries: Number(data?.negative_entries ?? 0),
+    staleEntries: Number(data?.stale_entries ?? 0),
+  };
+}
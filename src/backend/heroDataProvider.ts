@@ -0,0 +1,283 @@
+import { readFile } from "fs/promises";
+import path from "path";
+import type { SuperHeroApiResponse } from "../types/heroBiography";
+import type { HeroCatalogEntry } from "../types/heroCatalog";
+import { createCachingProvider } from "./heroDataCache";
+
+/**
+ * Hero Data Providers
+ *
+ * Hero metadata and images come from a pluggable provider so the app and the
+ * migration scripts don't depend on one particular upstream:
+ *
+ * - `superheroapi`: SuperHero API (needs SUPERHERO_API_KEY). Its own images are
+ *   behind Cloudflare, so images come from akabab instead.
+ * - `akabab`: the akabab/superhero-api mirror on GitHub Pages and jsDelivr. No key needed.
+ * - `fixture`: the local hero snapshot and a placeholder image. No network at all.
+ *
+ * Choose one with HERO_DATA_PROVIDER. When it is unset, SuperHero API is used
+ * if a key is configured and akabab otherwise.
+ */
+
+export type HeroDataProviderName = "superheroapi" | "akabab" | "fixture";
+
+/**
+ * A hero image and its content type.
+ */
+export interface HeroImage {
+  contentType: string;
+  data: ArrayBuffer;
+}
+
+export interface HeroDataProvider {
+  readonly name: HeroDataProviderName;
+  /**
+   * Fetches a hero in SuperHero API format.
+   * Unknown heroes resolve to `{ response: "error" }`; network failures throw.
+   */
+  getHero(heroId: number): Promise<SuperHeroApiResponse>;
+  /**
+   * Fetches a hero's portrait.
+   * Resolves to null if the provider has no image for the hero; network failures throw.
+   */
+  getImage(heroId: number): Promise<HeroImage | null>;
+}
+
+const notFound = (heroId: number): SuperHeroApiResponse => ({
+  response: "error",
+  error: `character with given id ${heroId} not found`,
+});
+
+async function toHeroImage(response: Response): Promise<HeroImage> {
+  return {
+    contentType: response.headers.get("content-type") || "image/jpeg",
+    data: await response.arrayBuffer(),
+  };
+}
+
+/**
+ * Converts numeric power stats to the SuperHero API format: numbers as
+ * strings, and "null" for unknown stats, as the SuperHero API itself sends them.
+ */
+const toApiPowerstats = <K extends string>(powerstats: Record<K, number | null>): Record<string, string> =>
+  Object.fromEntries(
+    Object.entries<number | null>(powerstats).map(([key, value]) => [key, String(value ?? "null")])
+  );
+
+/**
+ * Hero record as published by the akabab mirror.
+ */
+interface AkababHero {
+  id: number;
+  name: string;
+  powerstats: Record<string, number | null>;
+  biography: {
+    fullName: string;
+    alterEgos: string;
+    aliases: string[];
+    placeOfBirth: string;
+    firstAppearance: string;
+    publisher: string | null;
+    alignment: string;
+  };
+  work: { occupation: string; base: string };
+  connections: { groupAffiliation: string; relatives: string };
+  images: { xs?: string; sm?: string; md?: string; lg?: string };
+}
+
+/**
+ * Converts an akabab record to the SuperHero API format the app consumes.
+ */
+function fromAkabab(hero: AkababHero): SuperHeroApiResponse {
+  return {
+    response: "success",
+    id: String(hero.id),
+    name: hero.name,
+    powerstats: toApiPowerstats(hero.powerstats),
+    biography: {
+      "full-name": hero.biography.fullName,
+      "alter-egos": hero.biography.alterEgos,
+      aliases: hero.biography.aliases,
+      "place-of-birth": hero.biography.placeOfBirth,
+      "first-appearance": hero.biography.firstAppearance,
+      publisher: hero.biography.publisher ?? "-",
+      alignment: hero.biography.alignment,
+    },
+    work: hero.work,
+    connections: {
+      "group-affiliation": hero.connections.groupAffiliation,
+      relatives: hero.connections.relatives,
+    },
+    image: { url: hero.images.md ?? "" },
+  };
+}
+
+/**
+ * Provider backed by the akabab/superhero-api mirror.
+ * It uses the same hero IDs as the SuperHero API but only covers part of the roster.
+ */
+export function createAkababProvider(): HeroDataProvider {
+  const fetchHero = async (heroId: number): Promise<AkababHero | null> => {
+    const res = await fetch(`https://akabab.github.io/superhero-api/api/id/${heroId}.json`);
+    if (res.status === 404) return null;
+    if (!res.ok) {
+      throw new Error(`akabab request for hero ${heroId} failed: ${res.status}`);
+    }
+    return (await res.json()) as AkababHero;
+  };
+
+  return {
+    name: "akabab",
+
+    async getHero(heroId) {
+      const hero = await fetchHero(heroId);
+      return hero ? fromAkabab(hero) : notFound(heroId);
+    },
+
+    async getImage(heroId) {
+      // Images follow a predictable jsDelivr path, which saves fetching the JSON first
+      const direct = await fetch(
+        `https://cdn.jsdelivr.net/gh/akabab/superhero-api@0.3.0/api/images/md/${heroId}.jpg`
+      );
+      if (direct.ok) return toHeroImage(direct);
+
+      // Fall back to the URL listed in the hero's JSON, for heroes whose image path differs
+      const hero = await fetchHero(heroId);
+      const imageUrl = hero?.images.md || hero?.images.lg || hero?.images.sm;
+      if (!imageUrl) return null;
+
+      const image = await fetch(imageUrl);
+      if (image.status === 404) return null;
+      if (!image.ok) {
+        throw new Error(`Image request for hero ${heroId} failed: ${image.status}`);
+      }
+      return toHeroImage(image);
+    },
+  };
+}
+
+/**
+ * Provider backed by the SuperHero API.
+ *
+ * @param apiKey - SuperHero API access token
+ * @param images - Provider to take images from (default: akabab)
+ */
+export function createSuperHeroApiProvider(
+  apiKey: string,
+  images: HeroDataProvider = createAkababProvider()
+): HeroDataProvider {
+  return {
+    name: "superheroapi",
+
+    async getHero(heroId) {
+      const res = await fetch(`https://www.superheroapi.com/api.php/${apiKey}/${heroId}`);
+      if (!res.ok) {
+        throw new Error(`SuperHero API request for hero ${heroId} failed: ${res.status}`);
+      }
+      return (await res.json()) as SuperHeroApiResponse;
+    },
+
+    getImage(heroId) {
+      return images.getImage(heroId);
+    },
+  };
+}
+
+/**
+ * Provider that serves the local hero snapshot without touching the network.
+ * Only the catalog fields are known, so biography details are left blank, and
+ * every hero gets the same placeholder image.
+ *
+ * @param snapshotPath - Hero snapshot in the src/data/heroes.json format
+ */
+export function createFixtureProvider(
+  snapshotPath: string = path.join(process.cwd(), "src/data/heroes.json")
+): HeroDataProvider {
+  let heroes: Promise<Map<number, HeroCatalogEntry>> | null = null;
+
+  const loadHeroes = () => {
+    heroes ??= readFile(snapshotPath, "utf8").then((contents) => {
+      const entries = JSON.parse(contents) as HeroCatalogEntry[];
+      return new Map(entries.map((hero) => [hero.id, hero]));
+    });
+    return heroes;
+  };
+
+  return {
+    name: "fixture",
+
+    async getHero(heroId) {
+      const hero = (await loadHeroes()).get(heroId);
+      if (!hero) return notFound(heroId);
+
+      return {
+        response: "success",
+        id: String(hero.id),
+        name: hero.name,
+        powerstats: toApiPowerstats(hero.powerstats),
+        biography: {
+          "full-name": "",
+          "alter-egos": "",
+          aliases: [],
+          "place-of-birth": "",
+          "first-appearance": "",
+          publisher: hero.publisher ?? "-",
+          alignment: hero.alignment ?? "-",
+        },
+      };
+    },
+
+    async getImage(heroId) {
+      if (!(await loadHeroes()).has(heroId)) return null;
+
+      const placeholder = await readFile(path.join(process.cwd(), "public/loading.png"));
+      return {
+        contentType: "image/png",
+        data: placeholder.buffer.slice(
+          placeholder.byteOffset,
+          placeholder.byteOffset + placeholder.byteLength
+        ) as ArrayBuffer,
+      };
+    },
+  };
+}
+
+/**
+ * Builds the provider selected by HERO_DATA_PROVIDER.
+ *
+ * @throws Error if the provider name is unknown or SuperHero API is chosen without a key
+ */
+export function createHeroDataProvider(
+  name: string | undefined = process.env.HERO_DATA_PROVIDER,
+  apiKey: string | undefined = process.env.SUPERHERO_API_KEY
+): HeroDataProvider {
+  const selected = name || (apiKey ? "superheroapi" : "akabab");
+
+  switch (selected) {
+    case "superheroapi":
+      if (!apiKey) {
+        throw new Error("SUPERHERO_API_KEY is required when HERO_DATA_PROVIDER is superheroapi");
+      }
+      return createSuperHeroApiProvider(apiKey);
+    case "akabab":
+      return createAkababProvider();
+    case "fixture":
+      return createFixtureProvider(process.env.HERO_DATA_FIXTURE_PATH);
+    default:
+      throw new Error(`Unknown HERO_DATA_PROVIDER "${selected}"`);
+  }
+}
+
+let provider: HeroDataProvider | null = null;
+
+/**
+ * Gets the configured hero data provider, creating it on first use.
+ * Network providers are wrapped in the Turso-backed response cache.
+ */
+export function getHeroDataProvider(): HeroDataProvider {
+  if (!provider) {
+    const selected = createHeroDataProvider();
+    provider = selected.name === "fixture" ? selected : createCachingProvider(selected);
+  }
+  return provider;
+}
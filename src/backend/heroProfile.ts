@@ -0,0 +1,210 @@
+import { turso } from "../utils/turso";
+import { isProvisional } from "../utils/elo";
+import { createDefaultHeroRating } from "../types/heroRating";
+import { getCatalogHero } from "./heroCatalog";
+
+/**
+ * Hero Profile Data
+ *
+ * Everything the /hero/[id] page shows about a single hero, gathered from
+ * `heroRatings`, `rating_history` and `votes`. All values are plain JSON so
+ * the profile can be returned from getStaticProps as-is.
+ */
+
+/** Most recent rating points to include in the rating-over-time chart */
+const TIMELINE_LIMIT = 500;
+/** Number of opponents / wins / losses listed on the profile */
+const LIST_LIMIT = 5;
+
+export interface RatingTimelinePoint {
+  rating: number;
+  createdAt: string | null;
+}
+
+export interface OpponentRecord {
+  heroId: number;
+  heroName: string;
+  meetings: number;
+  wins: number;
+  losses: number;
+  draws: number;
+}
+
+export interface NotableResult {
+  voteId: number;
+  opponentId: number;
+  opponentName: string;
+  ratingChange: number;
+  createdAt: string;
+}
+
+export interface HeroProfile {
+  heroId: number;
+  heroName: string;
+  rating: number;
+  games: number;
+  wins: number;
+  losses: number;
+  draws: number;
+  winRate: number;
+  isProvisional: boolean;
+  peakRating: number;
+  lowestRating: number;
+  currentStreak: number;
+  /** Glicko-2 rating and rating deviation */
+  glickoRating: number;
+  glickoDeviation: number;
+  /** Rating after each vote, oldest first, starting from the rating before the first vote shown */
+  ratingTimeline: RatingTimelinePoint[];
+  commonOpponents: OpponentRecord[];
+  biggestWins: NotableResult[];
+  biggestLosses: NotableResult[];
+}
+
+const heroLabel = (heroId: number, heroName: unknown): string =>
+  typeof heroName === "string" && heroName ? heroName : `Hero #${heroId}`;
+
+/**
+ * Fetches the rating timeline for a hero, oldest first.
+ */
+async function getRatingTimeline(heroId: number): Promise<RatingTimelinePoint[]> {
+  const result = await turso.execute({
+    sql: `
+      SELECT vote_id, rating_before, rating_after, created_at FROM rating_history
+      WHERE hero_id = ?
+      ORDER BY vote_id DESC
+      LIMIT ?
+    `,
+    args: [heroId, TIMELINE_LIMIT],
+  });
+
+  const rows = [...result.rows].reverse() as any[];
+  const first = rows[0];
+  if (!first) return [];
+
+  return [
+    { rating: Number(first.rating_before), createdAt: null },
+    ...rows.map((row) => ({
+      rating: Number(row.rating_after),
+      createdAt: String(row.created_at),
+    })),
+  ];
+}
+
+/**
+ * Fetches the opponents a hero has met most often, with the hero's record against each.
+ */
+async function getCommonOpponents(heroId: number): Promise<OpponentRecord[]> {
+  const result = await turso.execute({
+    sql: `
+      SELECT m.opponent_id, COUNT(*) AS meetings, SUM(m.won) AS wins, SUM(m.drawn) AS draws,
+        COALESCE(hr.hero_name, h.name) AS hero_name
+      FROM (
+        SELECT voted_against AS opponent_id, outcome = 'win' AS won, outcome = 'draw' AS drawn
+        FROM votes WHERE voted_for = ? AND retracted_at IS NULL
+        UNION ALL
+        SELECT voted_for AS opponent_id, 0 AS won, outcome = 'draw' AS drawn
+        FROM votes WHERE voted_against = ? AND retracted_at IS NULL
+      ) m
+      LEFT JOIN heroRatings hr ON hr.hero_id = m.opponent_id
+      LEFT JOIN heroes h ON h.id = m.opponent_id
+      GROUP BY m.opponent_id
+      ORDER BY meetings DESC, m.opponent_id
+      LIMIT ?
+    `,
+    args: [heroId, heroId, LIST_LIMIT],
+  });
+
+  return result.rows.map((row) => {
+    const data: any = row;
+    const meetings = Number(data.meetings);
+    const wins = Number(data.wins);
+    const draws = Number(data.draws);
+    return {
+      heroId: Number(data.opponent_id),
+      heroName: heroLabel(Number(data.opponent_id), data.hero_name),
+      meetings,
+      wins,
+      losses: meetings - wins - draws,
+      draws,
+    };
+  });
+}
+
+/**
+ * Fetches a hero's biggest rating swings for one result type.
+ * Biggest wins are the largest gains (upsets); biggest losses the largest drops.
+ */
+async function getNotableResults(heroId: number, result: "win" | "loss"): Promise<NotableResult[]> {
+  const rows = await turso.execute({
+    sql: `
+      SELECT rh.vote_id, rh.opponent_id, rh.rating_after - rh.rating_before AS rating_change,
+        rh.created_at, COALESCE(hr.hero_name, h.name) AS hero_name
+      FROM rating_history rh
+      LEFT JOIN heroRatings hr ON hr.hero_id = rh.opponent_id
+      LEFT JOIN heroes h ON h.id = rh.opponent_id
+      WHERE rh.hero_id = ? AND rh.result = ?
+      ORDER BY ABS(rh.rating_after - rh.rating_before) DESC, rh.vote_id DESC
+      LIMIT ?
+    `,
+    args: [heroId, result, LIST_LIMIT],
+  });
+
+  return rows.rows.map((row) => {
+    const data: any = row;
+    return {
+      voteId: Number(data.vote_id),
+      opponentId: Number(data.opponent_id),
+      opponentName: heroLabel(Number(data.opponent_id), data.hero_name),
+      ratingChange: Number(data.rating_change),
+      createdAt: String(data.created_at),
+    };
+  });
+}
+
+/**
+ * Builds the full profile for one hero.
+ * Heroes that have never been voted on get a default (1500, no games) profile.
+ *
+ * @param heroId - The SuperHero API ID
+ * @returns The hero's profile
+ */
+export async function getHeroProfile(heroId: number): Promise<HeroProfile> {
+  const [ratingResult, catalogHero, ratingTimeline, commonOpponents, biggestWins, biggestLosses] =
+    await Promise.all([
+      turso.execute({
+        sql: "SELECT * FROM heroRatings WHERE hero_id = ?",
+        args: [heroId],
+      }),
+      getCatalogHero(heroId),
+      getRatingTimeline(heroId),
+      getCommonOpponents(heroId),
+      getNotableResults(heroId, "win"),
+      getNotableResults(heroId, "loss"),
+    ]);
+
+  const data: any = ratingResult.rows[0];
+  const defaults = createDefaultHeroRating(heroId);
+  const games = data ? Number(data.games) : defaults.games;
+
+  return {
+    heroId,
+    heroName: heroLabel(heroId, data?.hero_name ?? catalogHero?.name),
+    rating: data ? Number(data.rating) : defaults.rating,
+    games,
+    wins: data ? Number(data.wins) : defaults.wins,
+    losses: data ? Number(data.losses) : defaults.losses,
+    draws: data ? Number(data.draws) : defaults.draws,
+    winRate: data ? Number(data.win_rate) : 0,
+    isProvisional: isProvisional(games),
+    peakRating: data ? Number(data.peak_rating) : defaults.peakRating,
+    lowestRating: data ? Number(data.lowest_rating) : defaults.lowestRating,
+    currentStreak: data ? Number(data.current_streak) : defaults.currentStreak,
+    glickoRating: data ? Number(data.glicko_rating) : defaults.glickoRating,
+    glickoDeviation: data ? Number(data.glicko_rd) : defaults.glickoDeviation,
+    ratingTimeline,
+    commonOpponents,
+    biggestWins,
+    biggestLosses,
+  };
+}
@@ -0,0 +1,281 @@
+import { turso } from "../utils/turso";
+import type { ConfidenceLevel } from "../utils/wilsonScore";
+import { getDeviationConfidence } from "../utils/glicko2";
+import { ELO_PER_LOG_STRENGTH } from "../utils/bradleyTerry";
+import { getTierRange, type TierName } from "../utils/tiers";
+import type { HeroAlignment, PowerstatKey } from "../utils/catalogFilters";
+import { POWERSTAT_KEYS } from "../types/heroCatalog";
+import { activeRating, RATING_ENGINE } from "./ratingEngine";
+import { CACHED_HERO_METADATA_SQL } from "./heroDataCache";
+
+/**
+ * Leaderboard
+ *
+ * Paginated all-time rankings, with search, filtering (tier, publisher,
+ * alignment, power stats) and sorting done in SQL. Publisher, alignment and
+ * power stats come from the hero catalog, or from the cached provider
+ * responses for heroes the catalog doesn't have. Each sort column has an index on (column, hero_id), and pages are
+ * fetched with keyset pagination: the cursor is the last row's sort value and
+ * hero id, so every page is an index range scan however deep it is. Ties are
+ * broken by hero id, descending like the sort value, so one row-value
+ * comparison can seek straight to the next page.
+ */
+
+/**
+ * One hero's row on the rankings page.
+ */
+export interface LeaderboardEntry {
+  heroId: number;
+  /** Rating under the active engine */
+  rating: number;
+  games: number;
+  wins: number;
+  losses: number;
+  draws: number;
+  isProvisional: boolean;
+  winRate: number;
+  currentStreak: number;
+  wilsonScore: number;
+  /** Elo blended with the Wilson score (see trueSkillEstimate) */
+  trueSkill: number;
+  /** Glicko-2 rating deviation */
+  deviation: number;
+  confidence: ConfidenceLevel;
+  /** Bradley-Terry rating from the last batch fit, or null if the hero wasn't in it */
+  btRating: number | null;
+  /** Standard error of the Bradley-Terry rating, in rating points */
+  btStdError: number | null;
+  heroName: string;
+}
+
+export type LeaderboardSort = "rating" | "bradleyTerry" | "trueSkill" | "wilsonScore" | "winRate" | "games";
+
+/**
+ * Options for one leaderboard page.
+ */
+export interface LeaderboardOptions {
+  sort: LeaderboardSort;
+  /** Case-insensitive substring of the hero name */
+  search?: string;
+  tier?: TierName;
+  /** Exact publisher name, as listed by getPublishers() */
+  publisher?: string;
+  alignment?: HeroAlignment;
+  /** Inclusive power stat bounds; heroes without a value for a filtered stat are left out */
+  powerstats?: Partial<Record<PowerstatKey, { min?: number | null; max?: number | null }>>;
+  includeProvisional: boolean;
+  /** nextCursor of the previous page; omit for the first page */
+  cursor?: string | null;
+  limit: number;
+}
+
+/**
+ * One page of the leaderboard.
+ */
+export interface LeaderboardPage {
+  entries: LeaderboardEntry[];
+  /** Cursor for the next page, or null on the last page */
+  nextCursor: string | null;
+  /** Heroes matching the filters, across all pages */
+  total: number;
+}
+
+/**
+ * Headline numbers for the rankings page.
+ */
+export interface LeaderboardSummary {
+  totalVotes: number;
+  totalHeroes: number;
+  highestRatedHero: { name: string; rating: number; heroId: number } | null;
+  averageRating: number;
+}
+
+/** Heroes missing from the Bradley-Terry fit sort after every fitted hero */
+const MISSING_BT_RATING = -1e9;
+
+const RATING_COLUMN = RATING_ENGINE === "glicko2" ? "hr.glicko_rating" : "hr.rating";
+
+/** SQL expression per sort, all ordered highest first */
+const SORT_EXPRESSIONS: Record<LeaderboardSort, string> = {
+  rating: RATING_COLUMN,
+  bradleyTerry: `COALESCE(bt.rating, ${MISSING_BT_RATING})`,
+  trueSkill: "hr.true_skill",
+  wilsonScore: "hr.wilson_score",
+  winRate: "hr.win_rate",
+  games: "hr.games",
+};
+
+const FROM_CLAUSE = `
+  FROM heroRatings hr
+  LEFT JOIN heroes h ON h.id = hr.hero_id
+  LEFT JOIN (${CACHED_HERO_METADATA_SQL}) c ON c.hero_id = hr.hero_id
+  LEFT JOIN hero_bt_strengths bt ON bt.hero_id = hr.hero_id
+`;
+
+interface Cursor {
+  value: number;
+  heroId: number;
+}
+
+const encodeCursor = (cursor: Cursor): string => Buffer.from(JSON.stringify([cursor.value, cursor.heroId])).toString("base64url");
+
+const decodeCursor = (cursor: string): Cursor => {
+  try {
+    const [value, heroId] = JSON.parse(Buffer.from(cursor, "base64url").toString());
+    if (typeof value === "number" && typeof heroId === "number") return { value, heroId };
+  } catch {
+    // Fall through to the error below
+  }
+  throw new Error("Invalid leaderboard cursor");
+};
+
+/**
+ * Converts a leaderboard query row (`heroRatings` plus display_name, bt_rating and bt_std_error) to an entry.
+ */
+function toLeaderboardEntry(row: any): LeaderboardEntry {
+  const deviation = Number(row.glicko_rd);
+  return {
+    heroId: Number(row.hero_id),
+    rating: activeRating({ rating: Number(row.rating), glickoRating: Number(row.glicko_rating) }),
+    games: Number(row.games),
+    wins: Number(row.wins),
+    losses: Number(row.losses),
+    draws: Number(row.draws ?? 0),
+    isProvisional: Boolean(row.is_provisional),
+    winRate: Number(row.win_rate),
+    currentStreak: Number(row.current_streak),
+    wilsonScore: Number(row.wilson_score),
+    trueSkill: Number(row.true_skill),
+    deviation,
+    confidence: getDeviationConfidence(deviation),
+    btRating: row.bt_rating === null ? null : Math.round(Number(row.bt_rating)),
+    btStdError: row.bt_std_error === null ? null : Number(row.bt_std_error) * ELO_PER_LOG_STRENGTH,
+    heroName: row.display_name || `Hero #${row.hero_id}`,
+  };
+}
+
+/**
+ * Fetches one page of the all-time leaderboard.
+ *
+ * @param options - Sort, filters, cursor and page size
+ * @returns The page, a cursor for the next one and the number of matching heroes
+ * @throws Error if the cursor is invalid
+ */
+export async function getLeaderboardPage(options: LeaderboardOptions): Promise<LeaderboardPage> {
+  const sortExpression = SORT_EXPRESSIONS[options.sort];
+  const filters: string[] = [];
+  const filterArgs: Array<string | number> = [];
+
+  const search = options.search?.trim();
+  if (search) {
+    // Escape LIKE wildcards so a search for "100%" matches literally
+    filters.push("COALESCE(hr.hero_name, h.name) LIKE ? ESCAPE '\\'");
+    filterArgs.push(`%${search.replace(/[\\%_]/g, (char) => `\\${char}`)}%`);
+  }
+  if (options.tier) {
+    const range = getTierRange(options.tier);
+    if (range.min !== null) {
+      filters.push(`${RATING_COLUMN} >= ?`);
+      filterArgs.push(range.min);
+    }
+    if (range.max !== null) {
+      filters.push(`${RATING_COLUMN} < ?`);
+      filterArgs.push(range.max);
+    }
+  }
+  if (options.publisher) {
+    filters.push("COALESCE(h.publisher, c.publisher) = ?");
+    filterArgs.push(options.publisher);
+  }
+  if (options.alignment) {
+    filters.push("COALESCE(h.alignment, c.alignment) = ?");
+    filterArgs.push(options.alignment);
+  }
+  // Column names come from POWERSTAT_KEYS, never from the input
+  for (const key of POWERSTAT_KEYS) {
+    const range = options.powerstats?.[key];
+    if (range?.min !== undefined && range.min !== null) {
+      filters.push(`COALESCE(h.${key}, c.${key}) >= ?`);
+      filterArgs.push(range.min);
+    }
+    if (range?.max !== undefined && range.max !== null) {
+      filters.push(`COALESCE(h.${key}, c.${key}) <= ?`);
+      filterArgs.push(range.max);
+    }
+  }
+  if (!options.includeProvisional) {
+    filters.push("hr.is_provisional = 0");
+  }
+
+  const pageFilters = [...filters];
+  const pageArgs = [...filterArgs];
+  if (options.cursor) {
+    const cursor = decodeCursor(options.cursor);
+    pageFilters.push(`(${sortExpression}, hr.hero_id) < (?, ?)`);
+    pageArgs.push(cursor.value, cursor.heroId);
+  }
+
+  const where = (clauses: string[]) => (clauses.length > 0 ? `WHERE ${clauses.join(" AND ")}` : "");
+
+  const [pageResult, countResult] = await Promise.all([
+    turso.execute({
+      sql: `
+        SELECT hr.*, COALESCE(hr.hero_name, h.name) AS display_name, bt.rating AS bt_rating, bt.std_error AS bt_std_error,
+          ${sortExpression} AS sort_value
+        ${FROM_CLAUSE}
+        ${where(pageFilters)}
+        ORDER BY ${sortExpression} DESC, hr.hero_id DESC
+        LIMIT ?
+      `,
+      // One extra row tells us whether there is a next page
+      args: [...pageArgs, options.limit + 1],
+    }),
+    turso.execute({
+      sql: `SELECT COUNT(*) AS total ${FROM_CLAUSE} ${where(filters)}`,
+      args: filterArgs,
+    }),
+  ]);
+
+  const rows = pageResult.rows.slice(0, options.limit);
+  const last = rows[rows.length - 1];
+  const hasMore = pageResult.rows.length > options.limit;
+
+  return {
+    entries: rows.map(toLeaderboardEntry),
+    nextCursor: hasMore && last ? encodeCursor({ value: Number(last.sort_value), heroId: Number(last.hero_id) }) : null,
+    total: Number(countResult.rows[0]?.total ?? 0),
+  };
+}
+
+/**
+ * Totals shown above the leaderboard.
+ */
+export async function getLeaderboardSummary(): Promise<LeaderboardSummary> {
+  const [totals, top] = await Promise.all([
+    turso.execute(`SELECT COUNT(*) AS heroes, SUM(games) AS games, AVG(${RATING_COLUMN}) AS average FROM heroRatings hr`),
+    turso.execute(`
+      SELECT hr.hero_id, hr.rating, hr.glicko_rating, COALESCE(hr.hero_name, h.name) AS hero_name
+      FROM heroRatings hr
+      LEFT JOIN heroes h ON h.id = hr.hero_id
+      ORDER BY ${RATING_COLUMN} DESC, hr.hero_id ASC
+      LIMIT 1
+    `),
+  ]);
+
+  const row = totals.rows[0];
+  const best = top.rows[0];
+  const totalHeroes = Number(row?.heroes ?? 0);
+
+  return {
+    totalVotes: Math.floor(Number(row?.games ?? 0) / 2),
+    totalHeroes,
+    highestRatedHero: best
+      ? {
+          name: best.hero_name ? String(best.hero_name) : `Hero #${best.hero_id}`,
+          rating: activeRating({ rating: Number(best.rating), glickoRating: Number(best.glicko_rating) }),
+          heroId: Number(best.hero_id),
+        }
+      : null,
+    averageRating: totalHeroes > 0 ? Number(row?.average) : 1500,
+  };
+}
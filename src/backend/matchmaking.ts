@@ -0,0 +1,232 @@
+import { turso } from "../utils/turso";
+import { DEFAULT_ELO_CONFIG, expectedScore, isProvisional } from "../utils/elo";
+import { getRosterIds } from "./heroCatalog";
+
+/**
+ * Information-Gain Matchmaking
+ *
+ * Uniform random pairs keep showing well-known heroes with hundreds of games
+ * while provisional heroes rarely get enough games to settle. Instead, each
+ * matchup is drawn so that it is likely to teach us the most:
+ *
+ * 1. The first hero is drawn with weight u^exploration, where u = 1/sqrt(games + 1)
+ *    is a simple uncertainty measure (1 for a new hero, ~0.045 at 500 games).
+ * 2. The second hero is drawn with weight u^exploration * (4p(1-p))^ratingFocus,
+ *    where p is the Elo win probability between the two. 4p(1-p) is 1 for equal
+ *    ratings and falls off as the gap grows, since lopsided matchups carry
+ *    little information.
+ *
+ * exploration = 0 gives uniform first picks; larger values favor provisional
+ * and low-confidence heroes more strongly.
+ */
+
+/**
+ * Tunable matchmaking parameters.
+ */
+export interface MatchmakingConfig {
+  /** How strongly to favor low-confidence heroes (0 = uniform, default: 1) */
+  exploration: number;
+  /** How strongly to favor similar ratings for the second pick (0 = ignore ratings, default: 4) */
+  ratingFocus: number;
+}
+
+const parseNumber = (value: string | undefined, fallback: number): number => {
+  const parsed = value !== undefined ? Number.parseFloat(value) : NaN;
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+};
+
+/**
+ * Matchmaking configuration, read from MATCHMAKING_EXPLORATION and MATCHMAKING_RATING_FOCUS.
+ */
+export const MATCHMAKING_CONFIG: MatchmakingConfig = {
+  exploration: parseNumber(process.env.MATCHMAKING_EXPLORATION, 1),
+  ratingFocus: parseNumber(process.env.MATCHMAKING_RATING_FOCUS, 4),
+};
+
+/** How long the roster ratings snapshot is reused before reloading */
+const ROSTER_CACHE_TTL_MS = 30 * 1000;
+
+interface RosterEntry {
+  heroId: number;
+  rating: number;
+  games: number;
+}
+
+let rosterCache: { loadedAt: number; entries: RosterEntry[] } | null = null;
+
+/**
+ * Loads every hero on the roster with its current rating.
+ * Heroes that have never been voted on get the initial rating and 0 games.
+ */
+async function loadRoster(): Promise<RosterEntry[]> {
+  if (rosterCache && Date.now() - rosterCache.loadedAt < ROSTER_CACHE_TTL_MS) {
+    return rosterCache.entries;
+  }
+
+  const [rosterIds, result] = await Promise.all([
+    getRosterIds(),
+    turso.execute("SELECT hero_id, rating, games FROM heroRatings"),
+  ]);
+  const rated = new Map<number, { rating: number; games: number }>();
+  for (const row of result.rows) {
+    rated.set(Number(row.hero_id), { rating: Number(row.rating), games: Number(row.games) });
+  }
+
+  const entries: RosterEntry[] = rosterIds.map((heroId) => ({
+    heroId,
+    rating: rated.get(heroId)?.rating ?? DEFAULT_ELO_CONFIG.initialRating,
+    games: rated.get(heroId)?.games ?? 0,
+  }));
+
+  rosterCache = { loadedAt: Date.now(), entries };
+  return entries;
+}
+
+/**
+ * Uncertainty of a hero's rating, from 1 (no games) towards 0.
+ */
+const uncertainty = (games: number): number => 1 / Math.sqrt(games + 1);
+
+/**
+ * Draws one entry with probability proportional to its weight.
+ */
+function weightedPick<T>(items: T[], weights: number[]): T {
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  let target = Math.random() * total;
+  for (let i = 0; i < items.length; i++) {
+    target -= weights[i] ?? 0;
+    if (target <= 0) return items[i] as T;
+  }
+  return items[items.length - 1] as T;
+}
+
+/**
+ * Picks the next pair of heroes to show a voter.
+ *
+ * @param config - Optional matchmaking parameter overrides
+ * @returns Two distinct hero IDs
+ */
+export async function pickMatchup(
+  config: Partial<MatchmakingConfig> = {}
+): Promise<[number, number]> {
+  const { exploration, ratingFocus } = { ...MATCHMAKING_CONFIG, ...config };
+  const roster = await loadRoster();
+  if (roster.length < 2) {
+    throw new Error("At least two heroes are needed to make a matchup");
+  }
+
+  const first = weightedPick(
+    roster,
+    roster.map((hero) => Math.pow(uncertainty(hero.games), exploration))
+  );
+
+  const candidates = roster.filter((hero) => hero.heroId !== first.heroId);
+  const second = weightedPick(
+    candidates,
+    candidates.map((hero) => {
+      const p = expectedScore(first.rating, hero.rating);
+      return Math.pow(uncertainty(hero.games), exploration) * Math.pow(4 * p * (1 - p), ratingFocus);
+    })
+  );
+
+  return [first.heroId, second.heroId];
+}
+
+/**
+ * How the matchmaker spread exposure across the roster over a time window.
+ */
+export interface MatchmakingMetrics {
+  windowHours: number;
+  config: MatchmakingConfig;
+  matchupsIssued: number;
+  /** Matchups the voter skipped instead of voting */
+  matchupsSkipped: number;
+  /** matchupsSkipped / matchupsIssued (0-1) */
+  skipRate: number;
+  rosterSize: number;
+  /** Heroes shown at least once */
+  heroesShown: number;
+  /** heroesShown / rosterSize (0-1) */
+  coverage: number;
+  /** Gini coefficient of exposures across the roster (0 = perfectly even, 1 = one hero gets everything) */
+  exposureGini: number;
+  /** Share of exposures that went to heroes that are currently provisional (0-1) */
+  provisionalShare: number;
+  /** Share of the roster that is currently provisional (0-1), for comparison with provisionalShare */
+  provisionalRosterShare: number;
+  /** Mean absolute rating gap between paired heroes, at current ratings */
+  meanRatingGap: number;
+  mostShown: Array<{ heroId: number; exposures: number; games: number }>;
+}
+
+/**
+ * Gini coefficient of a list of non-negative values.
+ */
+function gini(values: number[]): number {
+  const total = values.reduce((sum, value) => sum + value, 0);
+  if (values.length === 0 || total === 0) return 0;
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const weightedSum = sorted.reduce((sum, value, index) => sum + (index + 1) * value, 0);
+  const n = sorted.length;
+  return (2 * weightedSum) / (n * total) - (n + 1) / n;
+}
+
+/**
+ * Computes exposure metrics from the matchups issued within a recent window.
+ *
+ * @param windowHours - How far back to look
+ * @returns Exposure and pairing metrics for the window
+ */
+export async function getMatchmakingMetrics(windowHours: number): Promise<MatchmakingMetrics> {
+  const [roster, result] = await Promise.all([
+    loadRoster(),
+    turso.execute({
+      sql: "SELECT hero_a, hero_b, skipped_at FROM matchups WHERE issued_at >= datetime('now', ?)",
+      args: [`-${windowHours} hours`],
+    }),
+  ]);
+
+  const byId = new Map(roster.map((hero) => [hero.heroId, hero]));
+  const exposures = new Map<number, number>();
+  let provisionalExposures = 0;
+  let ratingGapSum = 0;
+  let matchupsSkipped = 0;
+
+  for (const row of result.rows) {
+    if (row.skipped_at !== null) matchupsSkipped++;
+
+    const heroA = Number(row.hero_a);
+    const heroB = Number(row.hero_b);
+    for (const heroId of [heroA, heroB]) {
+      exposures.set(heroId, (exposures.get(heroId) ?? 0) + 1);
+      if (isProvisional(byId.get(heroId)?.games ?? 0)) provisionalExposures++;
+    }
+    const ratingA = byId.get(heroA)?.rating ?? DEFAULT_ELO_CONFIG.initialRating;
+    const ratingB = byId.get(heroB)?.rating ?? DEFAULT_ELO_CONFIG.initialRating;
+    ratingGapSum += Math.abs(ratingA - ratingB);
+  }
+
+  const matchupsIssued = result.rows.length;
+  const totalExposures = matchupsIssued * 2;
+  const provisionalHeroes = roster.filter((hero) => isProvisional(hero.games)).length;
+
+  return {
+    windowHours,
+    config: MATCHMAKING_CONFIG,
+    matchupsIssued,
+    matchupsSkipped,
+    skipRate: matchupsIssued > 0 ? matchupsSkipped / matchupsIssued : 0,
+    rosterSize: roster.length,
+    heroesShown: exposures.size,
+    coverage: roster.length > 0 ? exposures.size / roster.length : 0,
+    exposureGini: gini(roster.map((hero) => exposures.get(hero.heroId) ?? 0)),
+    provisionalShare: totalExposures > 0 ? provisionalExposures / totalExposures : 0,
+    provisionalRosterShare: roster.length > 0 ? provisionalHeroes / roster.length : 0,
+    meanRatingGap: matchupsIssued > 0 ? ratingGapSum / matchupsIssued : 0,
+    mostShown: Array.from(exposures.entries())
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, 10)
+      .map(([heroId, count]) => ({ heroId, exposures: count, games: byId.get(heroId)?.games ?? 0 })),
+  };
+}
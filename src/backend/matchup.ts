@@ -0,0 +1,163 @@
+import { turso, type SqlExecutor } from "../utils/turso";
+import { pickMatchup } from "./matchmaking";
+import { createNonce, signToken, verifyToken } from "./tokens";
+
+/**
+ * Server-Issued Matchups
+ *
+ * The server picks every pair of heroes shown to a voter and hands back a
+ * short-lived signed token for it. `cast-vote` only accepts a vote that
+ * presents a valid, unused token for exactly that pair, so votes can't be
+ * scripted for arbitrary heroes.
+ *
+ * Each issued matchup is stored in the `matchups` table; consuming a token
+ * marks its row so the same token can't be replayed. Skipping a matchup also
+ * spends its token and sets `skipped_at`, which matchmaking metrics report on.
+ * Rows are kept for MATCHUP_RETENTION_DAYS, long after their tokens expire,
+ * so those metrics can look back that far; older rows are pruned as new
+ * matchups are issued.
+ */
+
+/** How long a voter has to vote on a matchup before its token expires */
+export const MATCHUP_TOKEN_TTL_SECONDS = 10 * 60;
+
+/** How long issued matchups are kept for matchmaking metrics */
+export const MATCHUP_RETENTION_DAYS = 90;
+
+/**
+ * Payload embedded in a matchup token.
+ * Kept short since it travels with every vote.
+ */
+interface MatchupTokenPayload {
+  /** Matchup id (row id in the matchups table) */
+  n: string;
+  /** First hero ID */
+  a: number;
+  /** Second hero ID */
+  b: number;
+  /** Expiry as a Unix timestamp in milliseconds */
+  exp: number;
+}
+
+/**
+ * A matchup handed to the client.
+ */
+export interface IssuedMatchup {
+  heroIds: [number, number];
+  token: string;
+  expiresAt: number;
+}
+
+/**
+ * Picks a new pair of heroes with the matchmaker and issues a signed token for it.
+ * Matchups older than the retention window are deleted at the same time.
+ *
+ * @returns The hero pair and its matchup token
+ */
+export async function issueMatchup(): Promise<IssuedMatchup> {
+  const [heroA, heroB] = await pickMatchup();
+  const id = createNonce();
+  const expiresAt = Date.now() + MATCHUP_TOKEN_TTL_SECONDS * 1000;
+
+  // Long expired, so their tokens can't be used, and outside every metrics window
+  await turso.execute({
+    sql: "DELETE FROM matchups WHERE issued_at < datetime('now', ?)",
+    args: [`-${MATCHUP_RETENTION_DAYS} days`],
+  });
+
+  await turso.execute({
+    sql: `
+      INSERT INTO matchups (id, hero_a, hero_b, issued_at, expires_at)
+      VALUES (?, ?, ?, datetime('now'), datetime('now', ?))
+    `,
+    args: [id, heroA, heroB, `+${MATCHUP_TOKEN_TTL_SECONDS} seconds`],
+  });
+
+  const payload: MatchupTokenPayload = { n: id, a: heroA, b: heroB, exp: expiresAt };
+
+  return {
+    heroIds: [heroA, heroB],
+    token: signToken(payload),
+    expiresAt,
+  };
+}
+
+/**
+ * Checks a matchup token's signature and expiry.
+ *
+ * @throws Error if the token is invalid or expired
+ */
+function readMatchupToken(token: string): MatchupTokenPayload {
+  const payload = verifyToken<MatchupTokenPayload>(token);
+  if (!payload || typeof payload.n !== "string") {
+    throw new Error("Invalid matchup token");
+  }
+
+  if (payload.exp < Date.now()) {
+    throw new Error("Matchup has expired");
+  }
+
+  return payload;
+}
+
+/**
+ * Validates a matchup token against a vote and marks it as used.
+ * Pass the vote's transaction so the token is only spent if the vote commits.
+ *
+ * @param db - Client or transaction to write through
+ * @param token - Token returned by issueMatchup
+ * @param votedFor - Hero ID the vote is for
+ * @param votedAgainst - Hero ID the vote is against
+ * @throws Error if the token is invalid, expired, already used or for a different pair
+ */
+export async function consumeMatchupToken(
+  db: SqlExecutor,
+  token: string,
+  votedFor: number,
+  votedAgainst: number
+): Promise<void> {
+  const payload = readMatchupToken(token);
+
+  const samePair =
+    (payload.a === votedFor && payload.b === votedAgainst) ||
+    (payload.a === votedAgainst && payload.b === votedFor);
+  if (!samePair) {
+    throw new Error("Vote does not match the issued matchup");
+  }
+
+  // Only succeeds once per token: the row is skipped as soon as consumed_at is set
+  const result = await db.execute({
+    sql: `
+      UPDATE matchups SET consumed_at = datetime('now')
+      WHERE id = ? AND consumed_at IS NULL AND expires_at > datetime('now')
+    `,
+    args: [payload.n],
+  });
+
+  if (result.rowsAffected !== 1) {
+    throw new Error("Matchup has already been voted on");
+  }
+}
+
+/**
+ * Records that the voter skipped a matchup without voting.
+ * Ratings are untouched; the token is spent so the matchup can't be voted on afterwards.
+ *
+ * @param token - Token returned by issueMatchup
+ * @throws Error if the token is invalid, expired or already used
+ */
+export async function skipMatchup(token: string): Promise<void> {
+  const payload = readMatchupToken(token);
+
+  const result = await turso.execute({
+    sql: `
+      UPDATE matchups SET consumed_at = datetime('now'), skipped_at = datetime('now')
+      WHERE id = ? AND consumed_at IS NULL AND expires_at > datetime('now')
+    `,
+    args: [payload.n],
+  });
+
+  if (result.rowsAffected !== 1) {
+    throw new Error("Matchup has already been voted on");
+  }
+}
@@ -0,0 +1,157 @@
+import { turso } from "../utils/turso";
+import { toSqliteTimestamp } from "./standings";
+import { LEADERBOARD_WINDOWS } from "./windowedLeaderboard";
+
+/**
+ * Trending Heroes
+ *
+ * The heroes whose Elo rating or rank moved the most over a recent window,
+ * in both directions. A hero's rating at the start of the window is the
+ * `rating_before` of its first `rating_history` entry inside the window, or its
+ * current rating if it hasn't played since. Ranks at the start are rebuilt from
+ * those ratings, over the heroes that had been rated before the window began.
+ */
+
+/** Windows the movers feed covers */
+export type MoversWindow = "24h" | "7d";
+
+/** Heroes per list */
+const MOVERS_LIMIT = 5;
+
+/** How long a computed feed is reused */
+const MOVERS_CACHE_TTL_MS = 60 * 1000;
+
+/**
+ * One hero's movement over the window.
+ */
+export interface Mover {
+  heroId: number;
+  heroName: string | null;
+  ratingBefore: number;
+  ratingNow: number;
+  ratingChange: number;
+  /** Rank at the start of the window, or null if the hero wasn't rated yet */
+  rankBefore: number | null;
+  rankNow: number;
+  /** Places gained (positive) or lost (negative), or null for heroes new in the window */
+  rankChange: number | null;
+  /** Games played inside the window */
+  games: number;
+}
+
+/**
+ * Biggest movers over a recent window.
+ */
+export interface MoversFeed {
+  window: MoversWindow;
+  /** Largest rating gains, biggest first */
+  risers: Mover[];
+  /** Largest rating drops, biggest first */
+  fallers: Mover[];
+  /** Most places climbed */
+  climbers: Mover[];
+  /** Most places lost */
+  sliders: Mover[];
+  computedAt: number;
+}
+
+const moversCache = new Map<MoversWindow, MoversFeed>();
+
+/**
+ * Ranks heroes by rating, highest first (1-based), ties broken by hero id.
+ */
+function rankByRating(ratings: Array<{ heroId: number; rating: number }>): Map<number, number> {
+  const sorted = [...ratings].sort((a, b) => b.rating - a.rating || a.heroId - b.heroId);
+  return new Map(sorted.map((hero, i) => [hero.heroId, i + 1]));
+}
+
+/**
+ * Finds the heroes whose rating and rank moved the most over a recent window.
+ * Results are reused for up to a minute.
+ *
+ * @param window - "24h" or "7d"
+ * @returns Top risers, fallers, climbers and sliders
+ */
+export async function getMovers(window: MoversWindow): Promise<MoversFeed> {
+  const cached = moversCache.get(window);
+  if (cached && Date.now() - cached.computedAt < MOVERS_CACHE_TTL_MS) {
+    return cached;
+  }
+
+  const now = Date.now();
+  const windowStart = toSqliteTimestamp(new Date(now - LEADERBOARD_WINDOWS[window] * 60 * 60 * 1000));
+
+  const [heroResult, historyResult] = await Promise.all([
+    turso.execute(`
+      SELECT hr.hero_id, COALESCE(hr.hero_name, h.name) AS hero_name, hr.rating, hr.created_at
+      FROM heroRatings hr
+      LEFT JOIN heroes h ON h.id = hr.hero_id
+    `),
+    turso.execute({
+      sql: "SELECT hero_id, rating_before FROM rating_history WHERE created_at >= ? ORDER BY created_at, id",
+      args: [windowStart],
+    }),
+  ]);
+
+  // First rating in the window and games played, per hero
+  const windowStats = new Map<number, { ratingBefore: number; games: number }>();
+  for (const row of historyResult.rows) {
+    const heroId = Number(row.hero_id);
+    const stats = windowStats.get(heroId);
+    if (stats) {
+      stats.games++;
+    } else {
+      windowStats.set(heroId, { ratingBefore: Number(row.rating_before), games: 1 });
+    }
+  }
+
+  const heroes = heroResult.rows.map((row) => {
+    const heroId = Number(row.hero_id);
+    const ratingNow = Number(row.rating);
+    return {
+      heroId,
+      heroName: row.hero_name ? String(row.hero_name) : null,
+      ratingNow,
+      ratingBefore: windowStats.get(heroId)?.ratingBefore ?? ratingNow,
+      games: windowStats.get(heroId)?.games ?? 0,
+      ratedBeforeWindow: String(row.created_at) < windowStart,
+    };
+  });
+
+  const ranksNow = rankByRating(heroes.map((hero) => ({ heroId: hero.heroId, rating: hero.ratingNow })));
+  const ranksBefore = rankByRating(
+    heroes
+      .filter((hero) => hero.ratedBeforeWindow)
+      .map((hero) => ({ heroId: hero.heroId, rating: hero.ratingBefore }))
+  );
+
+  const movers: Mover[] = heroes.map((hero) => {
+    const rankNow = ranksNow.get(hero.heroId) as number;
+    const rankBefore = ranksBefore.get(hero.heroId) ?? null;
+    return {
+      heroId: hero.heroId,
+      heroName: hero.heroName,
+      ratingBefore: hero.ratingBefore,
+      ratingNow: hero.ratingNow,
+      ratingChange: hero.ratingNow - hero.ratingBefore,
+      rankBefore,
+      rankNow,
+      rankChange: rankBefore === null ? null : rankBefore - rankNow,
+      games: hero.games,
+    };
+  });
+
+  const top = (filter: (mover: Mover) => boolean, compare: (a: Mover, b: Mover) => number) =>
+    movers.filter(filter).sort((a, b) => compare(a, b) || a.heroId - b.heroId).slice(0, MOVERS_LIMIT);
+
+  const feed: MoversFeed = {
+    window,
+    risers: top((mover) => mover.ratingChange > 0, (a, b) => b.ratingChange - a.ratingChange),
+    fallers: top((mover) => mover.ratingChange < 0, (a, b) => a.ratingChange - b.ratingChange),
+    climbers: top((mover) => (mover.rankChange ?? 0) > 0, (a, b) => (b.rankChange as number) - (a.rankChange as number)),
+    sliders: top((mover) => (mover.rankChange ?? 0) < 0, (a, b) => (a.rankChange as number) - (b.rankChange as number)),
+    computedAt: now,
+  };
+  moversCache.set(window, feed);
+  return feed;
+}
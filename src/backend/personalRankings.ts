@@ -0,0 +1,162 @@
+import { turso } from "../utils/turso";
+import { calculateNewRatings, DEFAULT_ELO_CONFIG, type MatchOutcome } from "../utils/elo";
+import { activeRating } from "./ratingEngine";
+
+/**
+ * Personal Rankings
+ *
+ * A leaderboard built from only one voter's votes: every hero starts at the
+ * initial Elo rating and the voter's votes are replayed in order with
+ * calculateNewRatings. Comparing it with the global ranking shows which
+ * heroes the voter rates higher or lower than everyone else.
+ */
+
+/** Heroes shown on each side */
+const PERSONAL_TOP_LIMIT = 20;
+
+/**
+ * One hero in a voter's personal ranking.
+ */
+export interface PersonalRanking {
+  heroId: number;
+  heroName: string;
+  personalRank: number;
+  personalRating: number;
+  /** Games in the voter's own votes */
+  games: number;
+  wins: number;
+  losses: number;
+  draws: number;
+  /** Rank on the global leaderboard, or null if the hero has no global rating */
+  globalRank: number | null;
+  globalRating: number | null;
+  /** Places higher than globally (positive) or lower (negative), or null without a global rank */
+  rankDifference: number | null;
+}
+
+/**
+ * One hero in the global ranking, with where the voter ranks it.
+ */
+export interface GlobalRanking {
+  heroId: number;
+  heroName: string;
+  globalRank: number;
+  globalRating: number;
+  /** Rank in the voter's personal ranking, or null if they haven't voted on this hero */
+  personalRank: number | null;
+}
+
+/**
+ * A voter's personal top heroes next to the global top.
+ */
+export interface PersonalRankings {
+  /** Votes replayed (undone votes are left out) */
+  votes: number;
+  /** Heroes the voter has voted on */
+  heroesRated: number;
+  personalTop: PersonalRanking[];
+  globalTop: GlobalRanking[];
+}
+
+interface PersonalRating {
+  heroId: number;
+  rating: number;
+  games: number;
+  wins: number;
+  losses: number;
+  draws: number;
+}
+
+/**
+ * Replays one voter's votes into personal Elo ratings and compares them with the global ranking.
+ *
+ * @param voterId - Voter id
+ * @returns Personal and global top heroes
+ */
+export async function getPersonalRankings(voterId: string): Promise<PersonalRankings> {
+  const [voteResult, globalResult] = await Promise.all([
+    turso.execute({
+      sql: `
+        SELECT voted_for, voted_against, outcome FROM votes
+        WHERE voter_id = ? AND retracted_at IS NULL
+        ORDER BY created_at, id
+      `,
+      args: [voterId],
+    }),
+    turso.execute(`
+      SELECT hr.hero_id, hr.rating, hr.glicko_rating, COALESCE(hr.hero_name, h.name) AS hero_name
+      FROM heroRatings hr
+      LEFT JOIN heroes h ON h.id = hr.hero_id
+    `),
+  ]);
+
+  const ratings = new Map<number, PersonalRating>();
+  const getRating = (heroId: number): PersonalRating => {
+    let rating = ratings.get(heroId);
+    if (!rating) {
+      rating = { heroId, rating: DEFAULT_ELO_CONFIG.initialRating, games: 0, wins: 0, losses: 0, draws: 0 };
+      ratings.set(heroId, rating);
+    }
+    return rating;
+  };
+
+  for (const row of voteResult.rows) {
+    const winner = getRating(Number(row.voted_for));
+    const loser = getRating(Number(row.voted_against));
+    const outcome = String(row.outcome) as MatchOutcome;
+    const result = calculateNewRatings(winner.rating, loser.rating, winner.games, loser.games, {}, outcome);
+
+    winner.rating = result.newWinnerRating;
+    loser.rating = result.newLoserRating;
+    winner.games++;
+    loser.games++;
+    if (outcome === "draw") {
+      winner.draws++;
+      loser.draws++;
+    } else {
+      winner.wins++;
+      loser.losses++;
+    }
+  }
+
+  // Global ranks follow the leaderboard's order: rating, then hero id, both descending
+  const global = globalResult.rows
+    .map((row) => ({
+      heroId: Number(row.hero_id),
+      heroName: row.hero_name ? String(row.hero_name) : `Hero #${row.hero_id}`,
+      rating: activeRating({ rating: Number(row.rating), glickoRating: Number(row.glicko_rating) }),
+    }))
+    .sort((a, b) => b.rating - a.rating || b.heroId - a.heroId);
+  const globalByHero = new Map(global.map((hero, i) => [hero.heroId, { ...hero, rank: i + 1 }]));
+
+  const personal = Array.from(ratings.values()).sort((a, b) => b.rating - a.rating || b.heroId - a.heroId);
+  const personalRanks = new Map(personal.map((hero, i) => [hero.heroId, i + 1]));
+
+  return {
+    votes: voteResult.rows.length,
+    heroesRated: personal.length,
+    personalTop: personal.slice(0, PERSONAL_TOP_LIMIT).map((hero, i) => {
+      const globalHero = globalByHero.get(hero.heroId);
+      return {
+        heroId: hero.heroId,
+        heroName: globalHero?.heroName ?? `Hero #${hero.heroId}`,
+        personalRank: i + 1,
+        personalRating: hero.rating,
+        games: hero.games,
+        wins: hero.wins,
+        losses: hero.losses,
+        draws: hero.draws,
+        globalRank: globalHero?.rank ?? null,
+        globalRating: globalHero?.rating ?? null,
+        rankDifference: globalHero ? globalHero.rank - (i + 1) : null,
+      };
+    }),
+    globalTop: global.slice(0, PERSONAL_TOP_LIMIT).map((hero, i) => ({
+      heroId: hero.heroId,
+      heroName: hero.heroName,
+      globalRank: i + 1,
+      globalRating: hero.rating,
+      personalRank: personalRanks.get(hero.heroId) ?? null,
+    })),
+  };
+}
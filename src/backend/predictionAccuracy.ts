@@ -0,0 +1,89 @@
+import { turso } from "../utils/turso";
+import { actualScore, DEFAULT_ELO_CONFIG, type EloConfig, type MatchOutcome } from "../utils/elo";
+import {
+  BASELINE_BRIER_SCORE,
+  BASELINE_LOG_LOSS,
+  calibrationCurve,
+  scorePredictions,
+  type CalibrationBin,
+  type Prediction,
+  type PredictionScore,
+} from "../utils/predictionMetrics";
+
+/**
+ * Prediction Accuracy
+ *
+ * Every vote stores Elo's pre-vote win probability for the hero voted for
+ * (`votes.expected_score`). Scoring those predictions against the outcomes
+ * tells us whether DEFAULT_ELO_CONFIG is doing its job: a K-factor that is too
+ * low predicts stale ratings, one that is too high chases noise.
+ *
+ * The stored values are what the live system predicted at the time, so a
+ * `replay-ratings` run doesn't change them. Use `npm run tune-elo` to score
+ * other configs over the same votes.
+ */
+
+/**
+ * Prediction scores for one UTC day.
+ */
+export interface DailyPredictionScore extends PredictionScore {
+  /** "YYYY-MM-DD" */
+  day: string;
+}
+
+/**
+ * How well live Elo predictions matched the votes in a recent window.
+ */
+export interface PredictionAccuracy {
+  windowHours: number;
+  config: EloConfig;
+  overall: PredictionScore;
+  /** Scores of always predicting 50/50, for comparison */
+  baseline: { logLoss: number; brierScore: number };
+  /** One entry per day with votes, oldest first */
+  daily: DailyPredictionScore[];
+  calibration: CalibrationBin[];
+}
+
+/**
+ * Scores the predictions stored with votes cast within a recent window.
+ * Undone votes and votes from before predictions were stored are left out.
+ *
+ * @param windowHours - How far back to look
+ * @returns Overall and per-day log-loss and Brier score, plus a calibration curve
+ */
+export async function getPredictionAccuracy(windowHours: number): Promise<PredictionAccuracy> {
+  const result = await turso.execute({
+    sql: `
+      SELECT expected_score, outcome, date(created_at) AS day
+      FROM votes
+      WHERE expected_score IS NOT NULL AND retracted_at IS NULL AND created_at >= datetime('now', ?)
+      ORDER BY created_at, id
+    `,
+    args: [`-${windowHours} hours`],
+  });
+
+  const all: Prediction[] = [];
+  const byDay = new Map<string, Prediction[]>();
+  for (const row of result.rows) {
+    const prediction = {
+      expected: Number(row.expected_score),
+      actual: actualScore(String(row.outcome) as MatchOutcome),
+    };
+    all.push(prediction);
+
+    const day = String(row.day);
+    const dayPredictions = byDay.get(day) ?? [];
+    dayPredictions.push(prediction);
+    byDay.set(day, dayPredictions);
+  }
+
+  return {
+    windowHours,
+    config: DEFAULT_ELO_CONFIG,
+    overall: scorePredictions(all),
+    baseline: { logLoss: BASELINE_LOG_LOSS, brierScore: BASELINE_BRIER_SCORE },
+    daily: Array.from(byDay.entries()).map(([day, predictions]) => ({ day, ...scorePredictions(predictions) })),
+    calibration: calibrationCurve(all),
+  };
+}
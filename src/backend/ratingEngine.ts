@@ -0,0 +1,41 @@
+import type { Glicko2Config } from "../utils/glicko2";
+
+/**
+ * Active Rating Engine
+ *
+ * Every vote updates both the Elo columns (`rating`, ...) and the Glicko-2
+ * columns (`glicko_rating`, `glicko_rd`, `glicko_volatility`) of `heroRatings`.
+ * RATING_ENGINE only picks which of the two is shown and ranked on, so it can
+ * be switched at any time without replaying votes.
+ *
+ * Matchmaking and head-to-head win odds keep using Elo either way.
+ */
+
+export type RatingEngineName = "elo" | "glicko2";
+
+const parseNumber = (value: string | undefined, fallback: number): number => {
+  const parsed = value !== undefined ? Number.parseFloat(value) : NaN;
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+/**
+ * Engine whose ratings are shown and ranked on, read from RATING_ENGINE (default: "elo").
+ */
+export const RATING_ENGINE: RatingEngineName = process.env.RATING_ENGINE === "glicko2" ? "glicko2" : "elo";
+
+/**
+ * Glicko-2 settings, read from GLICKO2_RATING_PERIOD_DAYS (default: 1) and GLICKO2_TAU (default: 0.5).
+ */
+export const GLICKO2_CONFIG: Pick<Glicko2Config, "ratingPeriodDays" | "tau"> = {
+  ratingPeriodDays: parseNumber(process.env.GLICKO2_RATING_PERIOD_DAYS, 1),
+  tau: parseNumber(process.env.GLICKO2_TAU, 0.5),
+};
+
+/**
+ * A hero's rating under the active engine, rounded for display.
+ *
+ * @param ratings - The hero's Elo rating and Glicko-2 rating
+ */
+export function activeRating(ratings: { rating: number; glickoRating: number }): number {
+  return RATING_ENGINE === "glicko2" ? Math.round(ratings.glickoRating) : ratings.rating;
+}
@@ -0,0 +1,117 @@
+import { turso, type SqlExecutor } from "../utils/turso";
+import type { RatingStep } from "../utils/ratingReplay";
+
+/**
+ * Rating History
+ *
+ * Every vote writes one `rating_history` row per hero, linked to the vote's
+ * row id. Together they record how each hero's rating moved over time, which
+ * the current-state `heroRatings` table can't show.
+ */
+
+/**
+ * A single entry in a hero's rating history.
+ */
+export interface RatingHistoryEntry {
+  voteId: number;
+  opponentId: number;
+  result: "win" | "loss" | "draw";
+  ratingBefore: number;
+  ratingAfter: number;
+  ratingChange: number;
+  kFactor: number;
+  expectedScore: number;
+  createdAt: string;
+}
+
+/**
+ * A page of rating history, newest first.
+ */
+export interface RatingHistoryPage {
+  entries: RatingHistoryEntry[];
+  /** Pass as `cursor` to fetch the next (older) page; null when there are no more entries */
+  nextCursor: number | null;
+}
+
+/**
+ * Writes the rating history rows for one vote.
+ *
+ * @param db - Client or transaction to write through (use the vote's transaction)
+ * @param voteId - Row id of the vote in the votes table
+ * @param steps - Rating steps for both heroes
+ * @param createdAt - Timestamp to store; defaults to now
+ */
+export async function insertRatingHistory(
+  db: SqlExecutor,
+  voteId: number,
+  steps: RatingStep[],
+  createdAt?: string
+): Promise<void> {
+  for (const step of steps) {
+    await db.execute({
+      sql: `
+        INSERT INTO rating_history
+        (vote_id, hero_id, opponent_id, result, rating_before, rating_after, k_factor, expected_score, created_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, COALESCE(?, datetime('now')))
+      `,
+      args: [
+        voteId,
+        step.heroId,
+        step.opponentId,
+        step.result,
+        step.ratingBefore,
+        step.ratingAfter,
+        step.kFactor,
+        step.expectedScore,
+        createdAt ?? null,
+      ],
+    });
+  }
+}
+
+/**
+ * Fetches one hero's rating history, newest first, one page at a time.
+ *
+ * @param heroId - The hero to fetch history for
+ * @param cursor - Vote id returned as `nextCursor` by the previous page; omit for the first page
+ * @param limit - Maximum number of entries to return
+ * @returns The page of entries and the cursor for the next page
+ */
+export async function getRatingHistory(
+  heroId: number,
+  cursor: number | null | undefined,
+  limit: number
+): Promise<RatingHistoryPage> {
+  // Fetch one extra row to know whether another page exists
+  const result = await turso.execute({
+    sql: `
+      SELECT vote_id, opponent_id, result, rating_before, rating_after, k_factor, expected_score, created_at
+      FROM rating_history
+      WHERE hero_id = ? AND (? IS NULL OR vote_id < ?)
+      ORDER BY vote_id DESC
+      LIMIT ?
+    `,
+    args: [heroId, cursor ?? null, cursor ?? null, limit + 1],
+  });
+
+  const entries: RatingHistoryEntry[] = result.rows.slice(0, limit).map((row) => {
+    const data: any = row;
+    return {
+      voteId: Number(data.vote_id),
+      opponentId: Number(data.opponent_id),
+      result: data.result,
+      ratingBefore: Number(data.rating_before),
+      ratingAfter: Number(data.rating_after),
+      ratingChange: Number(data.rating_after) - Number(data.rating_before),
+      kFactor: Number(data.k_factor),
+      expectedScore: Number(data.expected_score),
+      createdAt: String(data.created_at),
+    };
+  });
+
+  const lastEntry = entries[entries.length - 1];
+  return {
+    entries,
+    nextCursor: result.rows.length > limit && lastEntry ? lastEntry.voteId : null,
+  };
+}
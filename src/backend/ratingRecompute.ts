@@ -0,0 +1,301 @@
+import { turso, withWriteTransaction, type SqlExecutor } from "../utils/turso";
+import { DEFAULT_ELO_CONFIG, EloConfig, isProvisional, type MatchOutcome } from "../utils/elo";
+import { replayVotes, type RatingStep, type ReplayVote } from "../utils/ratingReplay";
+import { trueSkillEstimate, wilsonScore } from "../utils/wilsonScore";
+import type { HeroRatingState } from "../types/heroRating";
+import { GLICKO2_CONFIG } from "./ratingEngine";
+import { parseTimestamp } from "./standings";
+
+/**
+ * Rating Recompute
+ *
+ * Rebuilds `heroRatings` and `rating_history` from the `votes` table by replaying
+ * every vote that wasn't undone in chronological order, under any Elo config.
+ *
+ * A recompute is planned first (read-only, so it can be shown as a dry run) and
+ * then applied. Applying writes the new rows into staging tables and swaps them
+ * in with a single write transaction, so readers see either the old ratings or
+ * the new ones, never a mix. The plan records how far the vote log went; if a
+ * vote was cast or undone since, the swap is aborted instead of dropping that
+ * vote's rating update.
+ */
+
+/** Statements per batch when filling the staging tables */
+const BATCH_SIZE = 500;
+
+/**
+ * How one hero's rating changes with a recompute.
+ */
+export interface RatingDiff {
+  heroId: number;
+  heroName: string | null;
+  /** Current rating, or null if the hero isn't in heroRatings yet */
+  ratingBefore: number | null;
+  /** Rebuilt rating, or null if no remaining vote involves the hero */
+  ratingAfter: number | null;
+  /** Rebuilt minus current rating (0 when either side is missing) */
+  change: number;
+  /** 1-based rank by rating, or null when missing */
+  rankBefore: number | null;
+  rankAfter: number | null;
+  gamesBefore: number;
+  gamesAfter: number;
+}
+
+/**
+ * Where the vote log stood when a recompute was planned.
+ */
+interface VoteLogPosition {
+  /** Highest vote id (0 with no votes) */
+  lastVoteId: number;
+  /** Votes undone so far */
+  retractedVotes: number;
+}
+
+/**
+ * A computed but not yet applied rebuild.
+ */
+export interface RecomputePlan {
+  config: EloConfig;
+  /** The vote log the plan was computed from */
+  voteLog: VoteLogPosition;
+  votesReplayed: number;
+  votesSkipped: number;
+  /** Rebuilt state for every hero with at least one vote */
+  ratings: HeroRatingState[];
+  /** Rebuilt rating history per vote */
+  history: Array<{ voteId: number; createdAt: string; steps: [RatingStep, RatingStep] }>;
+  /** Per-hero changes, largest absolute change first */
+  diffs: RatingDiff[];
+}
+
+interface CurrentRating {
+  heroName: string | null;
+  rating: number;
+  games: number;
+}
+
+async function readVoteLogPosition(db: SqlExecutor): Promise<VoteLogPosition> {
+  const result = await db.execute(
+    "SELECT COALESCE(MAX(id), 0) AS last_vote_id, COUNT(retracted_at) AS retracted_votes FROM votes"
+  );
+  return {
+    lastVoteId: Number(result.rows[0]?.last_vote_id ?? 0),
+    retractedVotes: Number(result.rows[0]?.retracted_votes ?? 0),
+  };
+}
+
+/**
+ * Ranks heroes by rating, highest first (1-based).
+ */
+function rankByRating(ratings: Array<{ heroId: number; rating: number }>): Map<number, number> {
+  const sorted = [...ratings].sort((a, b) => b.rating - a.rating || a.heroId - b.heroId);
+  return new Map(sorted.map((hero, i) => [hero.heroId, i + 1]));
+}
+
+/**
+ * Replays the vote log under the given Elo config without writing anything.
+ *
+ * @param config - Elo configuration overrides (default: the live config)
+ * @returns The rebuilt ratings and history plus a per-hero diff against the current table
+ */
+export async function planRecompute(config: Partial<EloConfig> = {}): Promise<RecomputePlan> {
+  const fullConfig: EloConfig = { ...DEFAULT_ELO_CONFIG, ...config };
+
+  // Read before the votes: a vote landing in between only makes the swap abort needlessly, never lose it
+  const voteLog = await readVoteLogPosition(turso);
+  const [voteResult, currentResult] = await Promise.all([
+    turso.execute(
+      "SELECT id, voted_for, voted_against, outcome, created_at FROM votes WHERE retracted_at IS NULL ORDER BY created_at, id"
+    ),
+    turso.execute("SELECT hero_id, hero_name, rating, games FROM heroRatings"),
+  ]);
+
+  const createdAt = new Map<number, string>();
+  const votes: ReplayVote[] = voteResult.rows.map((row) => {
+    const data: any = row;
+    createdAt.set(Number(data.id), String(data.created_at));
+    return {
+      voteId: Number(data.id),
+      winnerId: Number(data.voted_for),
+      loserId: Number(data.voted_against),
+      outcome: data.outcome as MatchOutcome,
+      playedAt: parseTimestamp(String(data.created_at)),
+    };
+  });
+
+  const current = new Map<number, CurrentRating>();
+  for (const row of currentResult.rows) {
+    const data: any = row;
+    current.set(Number(data.hero_id), {
+      heroName: data.hero_name || null,
+      rating: Number(data.rating),
+      games: Number(data.games),
+    });
+  }
+
+  const replay = replayVotes(votes, fullConfig, GLICKO2_CONFIG);
+
+  const ratings = Array.from(replay.ratings.values()).map((state) => ({
+    ...state,
+    heroName: current.get(state.heroId)?.heroName ?? null,
+  }));
+
+  const rankBefore = rankByRating(
+    Array.from(current.entries()).map(([heroId, hero]) => ({ heroId, rating: hero.rating }))
+  );
+  const rankAfter = rankByRating(ratings);
+
+  const heroIds = new Set<number>();
+  current.forEach((_, heroId) => heroIds.add(heroId));
+  ratings.forEach((state) => heroIds.add(state.heroId));
+
+  const diffs: RatingDiff[] = [];
+  heroIds.forEach((heroId) => {
+    const before = current.get(heroId);
+    const after = replay.ratings.get(heroId);
+    diffs.push({
+      heroId,
+      heroName: before?.heroName ?? null,
+      ratingBefore: before?.rating ?? null,
+      ratingAfter: after?.rating ?? null,
+      change: before && after ? after.rating - before.rating : 0,
+      rankBefore: rankBefore.get(heroId) ?? null,
+      rankAfter: rankAfter.get(heroId) ?? null,
+      gamesBefore: before?.games ?? 0,
+      gamesAfter: after?.games ?? 0,
+    });
+  });
+  diffs.sort((a, b) => Math.abs(b.change) - Math.abs(a.change) || a.heroId - b.heroId);
+
+  return {
+    config: fullConfig,
+    voteLog,
+    votesReplayed: replay.steps.length,
+    votesSkipped: replay.skipped,
+    ratings,
+    history: replay.steps.map(({ voteId, steps }) => ({
+      voteId,
+      createdAt: createdAt.get(voteId) as string,
+      steps,
+    })),
+    diffs,
+  };
+}
+
+/**
+ * Writes a planned recompute and swaps it in atomically.
+ *
+ * Heroes keep their original `created_at`. Undo snapshots are cleared, since
+ * restoring a pre-recompute state would mix the two rating sets.
+ *
+ * @param plan - Result of planRecompute
+ * @throws Error if a vote was cast or undone after the plan was computed; nothing is swapped in that case
+ */
+export async function applyRecompute(plan: RecomputePlan): Promise<void> {
+  const schema = await turso.execute(
+    "SELECT name, sql FROM sqlite_master WHERE type = 'table' AND name IN ('heroRatings', 'rating_history')"
+  );
+  const createSql = new Map(schema.rows.map((row) => [String(row.name), String(row.sql)]));
+  const heroRatingsSql = createSql.get("heroRatings");
+  const historySql = createSql.get("rating_history");
+  if (!heroRatingsSql || !historySql) {
+    throw new Error("heroRatings and rating_history must exist; run npm run init-schema first");
+  }
+
+  const originalCreatedAt = new Map<number, string>();
+  const currentResult = await turso.execute("SELECT hero_id, created_at FROM heroRatings");
+  for (const row of currentResult.rows) {
+    originalCreatedAt.set(Number(row.hero_id), String(row.created_at));
+  }
+
+  const ratingStatements = plan.ratings.map((state) => ({
+    sql: `
+      INSERT INTO heroRatings_rebuild
+      (hero_id, hero_name, rating, games, wins, losses, draws, is_provisional, peak_rating, lowest_rating, win_rate, current_streak,
+       glicko_rating, glicko_rd, glicko_volatility, glicko_updated_at, wilson_score, true_skill, last_updated, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, datetime('now'), COALESCE(?, datetime('now')))
+    `,
+    args: [
+      state.heroId,
+      state.heroName ?? null,
+      state.rating,
+      state.games,
+      state.wins,
+      state.losses,
+      state.draws,
+      isProvisional(state.games, plan.config) ? 1 : 0,
+      state.peakRating,
+      state.lowestRating,
+      state.games > 0 ? (state.wins / state.games) * 100 : 0,
+      state.currentStreak,
+      state.glickoRating,
+      state.glickoDeviation,
+      state.glickoVolatility,
+      state.glickoUpdatedAt,
+      wilsonScore(state.wins, state.games),
+      trueSkillEstimate(state.rating, state.wins, state.games),
+      originalCreatedAt.get(state.heroId) ?? null,
+    ],
+  }));
+
+  const historyStatements = plan.history.flatMap(({ voteId, createdAt, steps }) =>
+    steps.map((step) => ({
+      sql: `
+        INSERT INTO rating_history_rebuild
+        (vote_id, hero_id, opponent_id, result, rating_before, rating_after, k_factor, expected_score, created_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `,
+      args: [
+        voteId,
+        step.heroId,
+        step.opponentId,
+        step.result,
+        step.ratingBefore,
+        step.ratingAfter,
+        step.kFactor,
+        step.expectedScore,
+        createdAt,
+      ],
+    }))
+  );
+
+  // Fill staging tables with the same schema as the live ones
+  await withWriteTransaction(async (tx) => {
+    await tx.execute("DROP TABLE IF EXISTS heroRatings_rebuild");
+    await tx.execute("DROP TABLE IF EXISTS rating_history_rebuild");
+    await tx.execute(heroRatingsSql.replace(/heroRatings/, "heroRatings_rebuild"));
+    await tx.execute(historySql.replace(/rating_history/, "rating_history_rebuild"));
+
+    for (let i = 0; i < ratingStatements.length; i += BATCH_SIZE) {
+      await tx.batch(ratingStatements.slice(i, i + BATCH_SIZE));
+    }
+    for (let i = 0; i < historyStatements.length; i += BATCH_SIZE) {
+      await tx.batch(historyStatements.slice(i, i + BATCH_SIZE));
+    }
+  });
+
+  // Swap: live tables keep their indexes, only their contents are replaced
+  await withWriteTransaction(async (tx) => {
+    // Under the write lock no vote can land between this check and the swap
+    const voteLog = await readVoteLogPosition(tx);
+    if (voteLog.lastVoteId !== plan.voteLog.lastVoteId || voteLog.retractedVotes !== plan.voteLog.retractedVotes) {
+      // The staging tables are left for the next run to replace
+      throw new Error("Votes were cast or undone while the recompute was planned; run it again");
+    }
+
+    await tx.execute("DELETE FROM heroRatings");
+    await tx.execute("INSERT INTO heroRatings SELECT * FROM heroRatings_rebuild");
+    await tx.execute("DELETE FROM rating_history");
+    await tx.execute(`
+      INSERT INTO rating_history
+      (vote_id, hero_id, opponent_id, result, rating_before, rating_after, k_factor, expected_score, created_at)
+      SELECT vote_id, hero_id, opponent_id, result, rating_before, rating_after, k_factor, expected_score, created_at
+      FROM rating_history_rebuild
+      ORDER BY id
+    `);
+    await tx.execute("DELETE FROM vote_undo_snapshots");
+    await tx.execute("DROP TABLE heroRatings_rebuild");
+    await tx.execute("DROP TABLE rating_history_rebuild");
+  });
+}
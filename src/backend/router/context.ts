@@ -0,0 +1,12 @@
+import type * as trpcNext from "@trpc/server/adapters/next";
+import { createVoterSession } from "../voters";
+
+/**
+ * Per-request tRPC context: the voter session behind the request's cookie.
+ * Created once per HTTP request, so every call in a batch shares one session.
+ */
+export const createContext = ({ req, res }: trpcNext.CreateNextContextOptions) => ({
+  voterSession: createVoterSession(req, res),
+});
+
+export type Context = ReturnType<typeof createContext>;
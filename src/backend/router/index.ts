@@ -1,169 +1,138 @@
 // src/server/router/index.ts
 import * as trpc from "@trpc/server";
 import { z } from "zod";
-import { turso } from "../../utils/turso";
-import { calculateNewRatings, isProvisional } from "../../utils/elo";
-import { HeroRating, createDefaultHeroRating, HeroRatingState } from "../../types/heroRating";
+import { issueMatchup, MATCHUP_RETENTION_DAYS, skipMatchup } from "../matchup";
+import { recordVote } from "../voting";
+import { issueUndoToken, undoVote } from "../voteUndo";
+import { getRatingHistory } from "../ratingHistory";
+import { getHeadToHead } from "../headToHead";
+import { getMatchmakingMetrics } from "../matchmaking";
+import { getRosterSize } from "../heroCatalog";
+import { getHeroDataProvider } from "../heroDataProvider";
+import { getHeroDataCacheStats } from "../heroDataCache";
+import { getShadowComparison } from "../shadowRatings";
+import { getPredictionAccuracy } from "../predictionAccuracy";
+import { getSeasonLeaderboard } from "../seasons";
+import { getWindowedLeaderboard } from "../windowedLeaderboard";
+import { getMovers } from "../movers";
+import { getLeaderboardPage } from "../leaderboard";
+import { getVoterProgress } from "../voters";
+import { getPersonalRankings } from "../personalRankings";
+import { getVoterConsensus } from "../consensus";
+import type { Context } from "./context";
 
-/**
- * Fetches a hero's rating from Turso, or returns default values if not found.
- * @param heroId - The SuperHero API ID
- * @returns The hero's current rating state
- */
-async function getHeroRating(heroId: number): Promise<HeroRatingState> {
-  try {
-    // Fetch hero rating from Turso
-    const result = await turso.execute({
-      sql: "SELECT * FROM heroRatings WHERE hero_id = ?",
-      args: [heroId]
-    });
-    
-    if (result.rows && result.rows.length > 0) {
-      const data: any = result.rows[0];
-      return {
-        heroId: data.hero_id,
-        heroName: data.hero_name || null,
-        rating: data.rating,
-        games: data.games,
-        wins: data.wins,
-        losses: data.losses,
-        peakRating: data.peak_rating,
-        lowestRating: data.lowest_rating,
-        currentStreak: data.current_streak,
-      };
-    }
-    
-    // Return default values for new hero
-    return createDefaultHeroRating(heroId);
-  } catch (error) {
-    console.error("Error fetching hero rating:", error);
-    return createDefaultHeroRating(heroId);
-  }
-}
-
-/**
- * Result of updating hero ratings.
- */
-interface RatingUpdateResult {
-  winnerRatingChange: number;
-  loserRatingChange: number;
-  winnerNewRating: number;
-  loserNewRating: number;
-}
-
-/**
- * Updates hero ratings in Turso after a vote is cast.
- *
- * @param winnerId - The hero ID that won the vote
- * @param loserId - The hero ID that lost the vote
- * @param winnerName - Optional name of the winning hero
- * @param loserName - Optional name of the losing hero
- * @returns Rating changes for both heroes
- */
-async function updateHeroRatings(
-  winnerId: number,
-  loserId: number,
-  winnerName?: string,
-  loserName?: string
-): Promise<RatingUpdateResult> {
-  // Fetch current ratings for both heroes
-  const [winnerRating, loserRating] = await Promise.all([
-    getHeroRating(winnerId),
-    getHeroRating(loserId),
-  ]);
-
-  // Calculate new Elo ratings
-  const eloResult = calculateNewRatings(
-    winnerRating.rating,
-    loserRating.rating,
-    winnerRating.games,
-    loserRating.games
-  );
-
-  // Calculate new stats for winner
-  const winnerNewGames = winnerRating.games + 1;
-  const winnerNewWins = winnerRating.wins + 1;
-  const winnerNewStreak = winnerRating.currentStreak >= 0
-    ? winnerRating.currentStreak + 1
-    : 1; // Reset streak on win after losses
-  const winnerNewPeak = Math.max(winnerRating.peakRating, eloResult.newWinnerRating);
-  const winnerNewLowest = Math.min(winnerRating.lowestRating, eloResult.newWinnerRating);
-  const winnerWinRate = (winnerNewWins / winnerNewGames) * 100;
-
-  // Calculate new stats for loser
-  const loserNewGames = loserRating.games + 1;
-  const loserNewLosses = loserRating.losses + 1;
-  const loserNewStreak = loserRating.currentStreak <= 0
-    ? loserRating.currentStreak - 1
-    : -1; // Reset streak on loss after wins
-  const loserNewPeak = Math.max(loserRating.peakRating, eloResult.newLoserRating);
-  const loserNewLowest = Math.min(loserRating.lowestRating, eloResult.newLoserRating);
-  const loserWinRate = (loserRating.wins / loserNewGames) * 100;
-
-  // Determine final hero names: use provided name, fall back to existing name from DB
-  const finalWinnerName = winnerName || winnerRating.heroName || null;
-  const finalLoserName = loserName || loserRating.heroName || null;
-
-  // Update winner in Turso
-  await turso.execute({
-    sql: `
-      INSERT OR REPLACE INTO heroRatings
-      (hero_id, hero_name, rating, games, wins, losses, is_provisional, peak_rating, lowest_rating, win_rate, current_streak, last_updated, created_at)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, datetime('now'), datetime('now'))
-    `,
-    args: [
-      winnerId,
-      finalWinnerName,
-      eloResult.newWinnerRating,
-      winnerNewGames,
-      winnerNewWins,
-      winnerRating.losses,
-      isProvisional(winnerNewGames) ? 1 : 0,
-      winnerNewPeak,
-      winnerNewLowest,
-      winnerWinRate,
-      winnerNewStreak
-    ]
-  });
-
-  // Update loser in Turso
-  await turso.execute({
-    sql: `
-      INSERT OR REPLACE INTO heroRatings
-      (hero_id, hero_name, rating, games, wins, losses, is_provisional, peak_rating, lowest_rating, win_rate, current_streak, last_updated, created_at)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, datetime('now'), datetime('now'))
-    `,
-    args: [
-      loserId,
-      finalLoserName,
-      eloResult.newLoserRating,
-      loserNewGames,
-      loserRating.wins,
-      loserNewLosses,
-      isProvisional(loserNewGames) ? 1 : 0,
-      loserNewPeak,
-      loserNewLowest,
-      loserWinRate,
-      loserNewStreak
-    ]
-  });
-
-  // Return the rating changes
-  return {
-    winnerRatingChange: eloResult.winnerChange,
-    loserRatingChange: eloResult.loserChange,
-    winnerNewRating: eloResult.newWinnerRating,
-    loserNewRating: eloResult.newLoserRating,
-  };
-}
+/** Inclusive bounds on a 0-100 power stat */
+const statRange = z.object({
+  min: z.number().int().min(0).max(100).nullish(),
+  max: z.number().int().min(0).max(100).nullish(),
+});
 
-export const appRouter = trpc.router().query("get-hero-by-id", {
+export const appRouter = trpc.router<Context>().query("get-hero-by-id", {
   input: z.object({ id: z.number() }),
   async resolve({ input }) {
-    const res = await fetch(
-      `https://www.superheroapi.com/api.php/2422583714549928/${input.id}`
-    );
-    return res.json();
+    return getHeroDataProvider().getHero(input.id);
+  },
+}).query("get-hero-cache-stats", {
+  async resolve() {
+    return getHeroDataCacheStats();
+  },
+}).query("get-roster-size", {
+  async resolve() {
+    return getRosterSize();
+  },
+}).query("get-matchup", {
+  async resolve() {
+    return issueMatchup();
+  },
+}).query("get-voter-progress", {
+  async resolve({ ctx }) {
+    const voterId = await ctx.voterSession.get();
+    return voterId ? getVoterProgress(voterId) : null;
+  },
+}).query("get-personal-rankings", {
+  async resolve({ ctx }) {
+    const voterId = await ctx.voterSession.get();
+    return voterId ? getPersonalRankings(voterId) : null;
+  },
+}).query("get-voter-consensus", {
+  async resolve({ ctx }) {
+    const voterId = await ctx.voterSession.get();
+    return voterId ? getVoterConsensus(voterId) : null;
+  },
+}).query("get-rating-history", {
+  input: z.object({
+    heroId: z.number(),
+    cursor: z.number().nullish(),
+    limit: z.number().min(1).max(100).default(20),
+  }),
+  async resolve({ input }) {
+    return getRatingHistory(input.heroId, input.cursor, input.limit);
+  },
+}).query("get-head-to-head", {
+  input: z.object({
+    heroA: z.number(),
+    heroB: z.number(),
+  }),
+  async resolve({ input }) {
+    return getHeadToHead(input.heroA, input.heroB);
+  },
+}).query("get-shadow-comparison", {
+  async resolve() {
+    return getShadowComparison();
+  },
+}).query("get-matchmaking-metrics", {
+  input: z.object({
+    hours: z.number().min(1).max(24 * MATCHUP_RETENTION_DAYS).default(24),
+  }),
+  async resolve({ input }) {
+    return getMatchmakingMetrics(input.hours);
+  },
+}).query("get-prediction-accuracy", {
+  input: z.object({
+    hours: z.number().min(1).max(24 * 90).default(24 * 7),
+  }),
+  async resolve({ input }) {
+    return getPredictionAccuracy(input.hours);
+  },
+}).query("get-season-leaderboard", {
+  input: z.object({ seasonId: z.number() }),
+  async resolve({ input }) {
+    return getSeasonLeaderboard(input.seasonId);
+  },
+}).query("get-windowed-leaderboard", {
+  input: z.object({ window: z.enum(["24h", "7d", "30d"]) }),
+  async resolve({ input }) {
+    return getWindowedLeaderboard(input.window);
+  },
+}).query("get-movers", {
+  input: z.object({ window: z.enum(["24h", "7d"]).default("24h") }),
+  async resolve({ input }) {
+    return getMovers(input.window);
+  },
+}).query("leaderboard", {
+  input: z.object({
+    sort: z.enum(["rating", "bradleyTerry", "trueSkill", "wilsonScore", "winRate", "games"]).default("rating"),
+    search: z.string().max(100).optional(),
+    tier: z.enum(["DIAMOND", "PLATINUM", "GOLD", "SILVER", "BRONZE"]).optional(),
+    publisher: z.string().max(100).optional(),
+    alignment: z.enum(["good", "bad", "neutral"]).optional(),
+    powerstats: z
+      .object({
+        intelligence: statRange,
+        strength: statRange,
+        speed: statRange,
+        durability: statRange,
+        power: statRange,
+        combat: statRange,
+      })
+      .partial()
+      .optional(),
+    includeProvisional: z.boolean().default(true),
+    cursor: z.string().nullish(),
+    limit: z.number().int().min(1).max(100).default(50),
+  }),
+  async resolve({ input }) {
+    return getLeaderboardPage(input);
   },
 }).mutation("cast-vote", {
   input: z.object({
@@ -171,25 +140,22 @@ export const appRouter = trpc.router().query("get-hero-by-id", {
     votedAgainst: z.number(),
     votedForName: z.string().optional(),
     votedAgainstName: z.string().optional(),
+    matchupToken: z.string(),
+    outcome: z.enum(["win", "draw"]).default("win"),
   }),
-  async resolve({ input }) {
+  async resolve({ input, ctx }) {
     try {
-      // Record the vote in the votes table
-      await turso.execute({
-        sql: "INSERT INTO votes (voted_for, voted_against, created_at) VALUES (?, ?, datetime('now'))",
-        args: [input.votedFor, input.votedAgainst]
-      });
-
-      // Update Elo ratings for both heroes and get rating changes
-      const ratingUpdate = await updateHeroRatings(
-        input.votedFor,
-        input.votedAgainst,
-        input.votedForName,
-        input.votedAgainstName
-      );
+      const { voterId } = await ctx.voterSession.ensure();
+      // Check the matchup token, record the vote and update both ratings in one transaction
+      const ratingUpdate = await recordVote({ ...input, voterId });
+      // Lets this voter take the vote back for a few seconds
+      const undo = issueUndoToken(ratingUpdate.voteId);
 
       return {
         success: true,
+        voteId: ratingUpdate.voteId,
+        undoToken: undo.undoToken,
+        undoExpiresAt: undo.undoExpiresAt,
         winnerRatingChange: ratingUpdate.winnerRatingChange,
         loserRatingChange: ratingUpdate.loserRatingChange,
         winnerNewRating: ratingUpdate.winnerNewRating,
@@ -201,6 +167,60 @@ export const appRouter = trpc.router().query("get-hero-by-id", {
       return { success: false, error: errorMessage };
     }
   },
+}).mutation("start-voter-session", {
+  input: z.object({
+    // Progress from the localStorage keys used before sessions, merged only into a new session
+    legacyProgress: z
+      .object({
+        voteCount: z.number().int().min(0).max(1_000_000),
+        currentStreak: z.number().int().min(0),
+        longestStreak: z.number().int().min(0),
+        lastVoteDate: z.string().nullable(),
+        discoveredHeroIds: z.array(z.number().int()).max(10_000),
+      })
+      .optional(),
+  }),
+  async resolve({ input, ctx }) {
+    try {
+      // Reuses the cookie's session if it is valid, otherwise starts one
+      const { voterId, created, legacyTruncated } = await ctx.voterSession.ensure(input.legacyProgress);
+      return { success: true, created, legacyTruncated, progress: await getVoterProgress(voterId) };
+    } catch (error: unknown) {
+      console.error("Error starting voter session:", error);
+      const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
+      return { success: false, error: errorMessage };
+    }
+  },
+}).mutation("skip-matchup", {
+  input: z.object({
+    matchupToken: z.string(),
+  }),
+  async resolve({ input }) {
+    try {
+      // Close the matchup without a vote so it shows up in the skip metrics
+      await skipMatchup(input.matchupToken);
+      return { success: true };
+    } catch (error: unknown) {
+      console.error("Error skipping matchup:", error);
+      const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
+      return { success: false, error: errorMessage };
+    }
+  },
+}).mutation("undo-vote", {
+  input: z.object({
+    undoToken: z.string(),
+  }),
+  async resolve({ input, ctx }) {
+    try {
+      // Restore both heroes from the vote's snapshot and mark the vote as retracted
+      const { voteId } = await undoVote(input.undoToken, await ctx.voterSession.get());
+      return { success: true, voteId };
+    } catch (error: unknown) {
+      console.error("Error undoing vote:", error);
+      const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
+      return { success: false, error: errorMessage };
+    }
+  },
 });
 
 // export type definition of API
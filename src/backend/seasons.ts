@@ -0,0 +1,244 @@
+import { turso, withWriteTransaction } from "../utils/turso";
+import { activeRating } from "./ratingEngine";
+import { computeStandings, parseTimestamp, toSqliteTimestamp, type Standing } from "./standings";
+
+/**
+ * Competitive Seasons
+ *
+ * A season is a named time window with its own leaderboard (see standings.ts).
+ *
+ * While a season is open its standings are computed on demand by replaying its
+ * votes. The first read after it ends freezes the final standings into
+ * `season_standings`, so later undos or rating changes can't alter a finished
+ * season. `npm run seasons -- archive` does the same without waiting for a read.
+ */
+
+/** How long computed standings of an open season are reused */
+const STANDINGS_CACHE_TTL_MS = 60 * 1000;
+
+/**
+ * A season as stored in the `seasons` table.
+ * Timestamps are SQLite UTC strings ("YYYY-MM-DD HH:MM:SS"); the window is [startsAt, endsAt).
+ */
+export interface Season {
+  id: number;
+  name: string;
+  startsAt: string;
+  endsAt: string;
+  /** When the final standings were frozen, or null while they are still computed live */
+  archivedAt: string | null;
+}
+
+/**
+ * A season's leaderboard.
+ */
+export interface SeasonLeaderboard {
+  season: Season;
+  /** True when read from the frozen archive, false when computed from the votes */
+  archived: boolean;
+  votes: number;
+  standings: Standing[];
+}
+
+const standingsCache = new Map<number, { loadedAt: number; leaderboard: SeasonLeaderboard }>();
+
+const hasEnded = (season: Season): boolean => parseTimestamp(season.endsAt) <= Date.now();
+
+const toSeason = (row: any): Season => ({
+  id: Number(row.id),
+  name: String(row.name),
+  startsAt: String(row.starts_at),
+  endsAt: String(row.ends_at),
+  archivedAt: row.archived_at === null ? null : String(row.archived_at),
+});
+
+/**
+ * Lists every season, newest first.
+ */
+export async function getSeasons(): Promise<Season[]> {
+  const result = await turso.execute("SELECT * FROM seasons ORDER BY starts_at DESC");
+  return result.rows.map(toSeason);
+}
+
+/**
+ * Looks up one season.
+ *
+ * @param seasonId - Season id
+ * @returns The season, or null if it doesn't exist
+ */
+export async function getSeason(seasonId: number): Promise<Season | null> {
+  const result = await turso.execute({ sql: "SELECT * FROM seasons WHERE id = ?", args: [seasonId] });
+  return result.rows[0] ? toSeason(result.rows[0]) : null;
+}
+
+/**
+ * Creates a season.
+ *
+ * @param name - Display name
+ * @param startsAt - First moment of the season
+ * @param endsAt - End of the season (exclusive)
+ * @returns The new season
+ * @throws Error if the window is empty or overlaps another season
+ */
+export async function createSeason(name: string, startsAt: Date, endsAt: Date): Promise<Season> {
+  if (!(endsAt.getTime() > startsAt.getTime())) {
+    throw new Error("A season must end after it starts");
+  }
+
+  const start = toSqliteTimestamp(startsAt);
+  const end = toSqliteTimestamp(endsAt);
+
+  return withWriteTransaction(async (tx) => {
+    const overlap = await tx.execute({
+      sql: "SELECT name FROM seasons WHERE starts_at < ? AND ends_at > ? LIMIT 1",
+      args: [end, start],
+    });
+    if (overlap.rows[0]) {
+      throw new Error(`Season overlaps "${overlap.rows[0].name}"`);
+    }
+
+    const result = await tx.execute({
+      sql: "INSERT INTO seasons (name, starts_at, ends_at, created_at) VALUES (?, ?, ?, datetime('now'))",
+      args: [name, start, end],
+    });
+    return { id: Number(result.lastInsertRowid), name, startsAt: start, endsAt: end, archivedAt: null };
+  });
+}
+
+/**
+ * Computes an ended season's final standings and writes them to `season_standings`.
+ *
+ * @param season - Season to freeze
+ * @returns The frozen standings, or null if the season was archived by someone else first
+ */
+async function freezeStandings(season: Season): Promise<{ votes: number; standings: Standing[] } | null> {
+  const { votes, standings } = await computeStandings(season.startsAt, season.endsAt);
+
+  const frozen = await withWriteTransaction(async (tx) => {
+    // Two readers can both see the season unarchived; only the first one writes
+    const current = await tx.execute({ sql: "SELECT archived_at FROM seasons WHERE id = ?", args: [season.id] });
+    if (current.rows[0]?.archived_at !== null) {
+      return false;
+    }
+
+    await tx.execute({ sql: "DELETE FROM season_standings WHERE season_id = ?", args: [season.id] });
+    if (standings.length > 0) {
+      await tx.batch(
+        standings.map((hero) => ({
+          sql: `
+            INSERT INTO season_standings
+            (season_id, hero_id, hero_name, rank, elo_rating, glicko_rating, glicko_rd, games, wins, losses, draws, current_streak, peak_rating)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+          `,
+          args: [
+            season.id,
+            hero.heroId,
+            hero.heroName,
+            hero.rank,
+            hero.eloRating,
+            hero.glickoRating,
+            hero.glickoDeviation,
+            hero.games,
+            hero.wins,
+            hero.losses,
+            hero.draws,
+            hero.currentStreak,
+            hero.peakRating,
+          ],
+        }))
+      );
+    }
+    await tx.execute({ sql: "UPDATE seasons SET archived_at = datetime('now') WHERE id = ?", args: [season.id] });
+    return true;
+  });
+
+  standingsCache.delete(season.id);
+  return frozen ? { votes, standings } : null;
+}
+
+/**
+ * Reads a season's leaderboard: the frozen archive once archived, otherwise
+ * computed from its votes (cached for a minute). A season that has ended is
+ * archived on the first read after its end.
+ *
+ * @param seasonId - Season id
+ * @returns The leaderboard, or null if the season doesn't exist
+ */
+export async function getSeasonLeaderboard(seasonId: number): Promise<SeasonLeaderboard | null> {
+  const cached = standingsCache.get(seasonId);
+  if (
+    cached &&
+    Date.now() - cached.loadedAt < STANDINGS_CACHE_TTL_MS &&
+    (cached.leaderboard.archived || !hasEnded(cached.leaderboard.season))
+  ) {
+    return cached.leaderboard;
+  }
+
+  let season = await getSeason(seasonId);
+  if (!season) return null;
+
+  if (season.archivedAt === null && hasEnded(season)) {
+    await freezeStandings(season);
+    season = (await getSeason(seasonId)) ?? season;
+  }
+
+  let leaderboard: SeasonLeaderboard;
+  if (season.archivedAt !== null) {
+    const result = await turso.execute({
+      sql: "SELECT * FROM season_standings WHERE season_id = ? ORDER BY rank",
+      args: [seasonId],
+    });
+    const standings: Standing[] = result.rows.map((row) => ({
+      rank: Number(row.rank),
+      heroId: Number(row.hero_id),
+      heroName: row.hero_name === null ? null : String(row.hero_name),
+      rating: activeRating({ rating: Number(row.elo_rating), glickoRating: Number(row.glicko_rating) }),
+      eloRating: Number(row.elo_rating),
+      glickoRating: Number(row.glicko_rating),
+      glickoDeviation: Number(row.glicko_rd),
+      games: Number(row.games),
+      wins: Number(row.wins),
+      losses: Number(row.losses),
+      draws: Number(row.draws),
+      currentStreak: Number(row.current_streak),
+      peakRating: Number(row.peak_rating),
+    }));
+    leaderboard = {
+      season,
+      archived: true,
+      votes: Math.floor(standings.reduce((sum, hero) => sum + hero.games, 0) / 2),
+      standings,
+    };
+  } else {
+    leaderboard = { season, archived: false, ...(await computeStandings(season.startsAt, season.endsAt)) };
+  }
+
+  standingsCache.set(seasonId, { loadedAt: Date.now(), leaderboard });
+  return leaderboard;
+}
+
+/**
+ * Freezes an ended season's final standings into `season_standings`.
+ *
+ * @param seasonId - Season to archive
+ * @returns The archived leaderboard
+ * @throws Error if the season doesn't exist, hasn't ended yet or is already archived
+ */
+export async function archiveSeason(seasonId: number): Promise<SeasonLeaderboard> {
+  const season = await getSeason(seasonId);
+  if (!season) {
+    throw new Error(`Season ${seasonId} does not exist`);
+  }
+  if (season.archivedAt !== null) {
+    throw new Error(`Season "${season.name}" is already archived`);
+  }
+  if (!hasEnded(season)) {
+    throw new Error(`Season "${season.name}" has not ended yet`);
+  }
+
+  const frozen = await freezeStandings(season);
+  if (!frozen) {
+    throw new Error(`Season "${season.name}" is already archived`);
+  }
+  return { season: { ...season, archivedAt: toSqliteTimestamp(new Date()) }, archived: true, ...frozen };
+}
@@ -0,0 +1,370 @@
+import { turso, type SqlBatchExecutor, type SqlExecutor } from "../utils/turso";
+import { calculateNewRatings, DEFAULT_ELO_CONFIG, expectedScore, type EloConfig, type MatchOutcome } from "../utils/elo";
+import {
+  calculateGlicko2Match,
+  createDefaultGlicko2Rating,
+  glicko2ExpectedScore,
+  ratingPeriodsBetween,
+  type Glicko2Config,
+  type Glicko2Rating,
+} from "../utils/glicko2";
+import { kendallTau, ranksByScore } from "../utils/rankCorrelation";
+import { activeRating, RATING_ENGINE } from "./ratingEngine";
+
+/**
+ * Shadow Rating Systems
+ *
+ * A shadow system rates every vote alongside the primary system (the active
+ * RATING_ENGINE) but is never shown to voters. Each registered system keeps its own per-hero state in
+ * `shadow_ratings` and logs its pre-vote prediction in `shadow_rating_history`,
+ * so alternative configs and algorithms can be compared on live traffic.
+ *
+ * To try a new system, add it to SHADOW_RATING_SYSTEMS. It starts from scratch
+ * and only sees votes cast after it was deployed.
+ *
+ * A shadow system that throws logs the error and is skipped; it never blocks a
+ * vote. Database errors are not caught: they fail the vote's transaction like
+ * any other write in it.
+ */
+
+/**
+ * A rating algorithm that can run in shadow mode.
+ * State is stored as JSON, so each system chooses its own shape.
+ */
+export interface ShadowRatingSystem<State = unknown> {
+  /** Stable identifier, stored with every row */
+  id: string;
+  description: string;
+  /** State of a hero with no games */
+  initialState(): State;
+  /** The rating to rank heroes by */
+  rating(state: State): number;
+  /** Probability that hero A beats hero B */
+  expectedScore(a: State, b: State): number;
+  /** New state for both heroes after a match */
+  apply(winner: State, loser: State, outcome: MatchOutcome, playedAt: number): { winner: State; loser: State };
+}
+
+interface EloShadowState {
+  rating: number;
+  games: number;
+}
+
+/**
+ * Creates an Elo shadow system with its own config.
+ *
+ * @param id - System identifier
+ * @param description - Human-readable description for the comparison view
+ * @param config - Elo configuration overrides
+ */
+export function createEloShadow(
+  id: string,
+  description: string,
+  config: Partial<EloConfig>
+): ShadowRatingSystem<EloShadowState> {
+  const fullConfig: EloConfig = { ...DEFAULT_ELO_CONFIG, ...config };
+  return {
+    id,
+    description,
+    initialState: () => ({ rating: fullConfig.initialRating, games: 0 }),
+    rating: (state) => state.rating,
+    expectedScore: (a, b) => expectedScore(a.rating, b.rating),
+    apply: (winner, loser, outcome) => {
+      const result = calculateNewRatings(winner.rating, loser.rating, winner.games, loser.games, fullConfig, outcome);
+      return {
+        winner: { rating: result.newWinnerRating, games: winner.games + 1 },
+        loser: { rating: result.newLoserRating, games: loser.games + 1 },
+      };
+    },
+  };
+}
+
+interface Glicko2ShadowState extends Glicko2Rating {
+  /** Epoch ms of the hero's last game, or null before the first */
+  updatedAt: number | null;
+}
+
+/**
+ * Creates a Glicko-2 shadow system with its own config.
+ *
+ * @param id - System identifier
+ * @param description - Human-readable description for the comparison view
+ * @param config - Glicko-2 configuration overrides
+ */
+export function createGlicko2Shadow(
+  id: string,
+  description: string,
+  config: Partial<Glicko2Config>
+): ShadowRatingSystem<Glicko2ShadowState> {
+  const elapsed = (state: Glicko2ShadowState, playedAt: number): number =>
+    state.updatedAt === null ? 1 : ratingPeriodsBetween(state.updatedAt, playedAt, config);
+
+  return {
+    id,
+    description,
+    initialState: () => ({ ...createDefaultGlicko2Rating(config), updatedAt: null }),
+    rating: (state) => state.rating,
+    expectedScore: (a, b) => glicko2ExpectedScore(a, b, config),
+    apply: (winner, loser, outcome, playedAt) => {
+      const result = calculateGlicko2Match(
+        winner,
+        loser,
+        { winner: elapsed(winner, playedAt), loser: elapsed(loser, playedAt) },
+        config,
+        outcome
+      );
+      return {
+        winner: { ...result.winner, updatedAt: playedAt },
+        loser: { ...result.loser, updatedAt: playedAt },
+      };
+    },
+  };
+}
+
+/**
+ * Every shadow system that runs on each vote.
+ */
+export const SHADOW_RATING_SYSTEMS: ShadowRatingSystem<unknown>[] = [
+  createEloShadow("elo-k24", "Elo, K=24 (36 while provisional)", { kFactor: 24, provisionalKFactor: 36 }),
+  createEloShadow("elo-k40", "Elo, K=40 with no provisional boost", { kFactor: 40, provisionalKFactor: 40 }),
+  createGlicko2Shadow("glicko2-weekly", "Glicko-2, 7-day rating periods", { ratingPeriodDays: 7 }),
+];
+
+/**
+ * Applies one vote to every shadow system.
+ *
+ * Both heroes' states are read first and every system's update is computed
+ * before anything is written, so a system that throws is skipped as a whole
+ * and the rest are written in one batch.
+ *
+ * @param db - The vote's transaction
+ * @param voteId - Row id of the vote
+ * @param winnerId - Hero voted for (first hero for a draw)
+ * @param loserId - Hero voted against (second hero for a draw)
+ * @param outcome - 'win' or 'draw'
+ */
+export async function updateShadowRatings(
+  db: SqlBatchExecutor,
+  voteId: number,
+  winnerId: number,
+  loserId: number,
+  outcome: MatchOutcome
+): Promise<void> {
+  const playedAt = Date.now();
+
+  // Stored state per system and hero, kept raw so an undo can put it back
+  const result = await db.execute({
+    sql: "SELECT system_id, hero_id, state FROM shadow_ratings WHERE hero_id IN (?, ?)",
+    args: [winnerId, loserId],
+  });
+  const storedStates = new Map(
+    result.rows.map((row) => [`${row.system_id}:${row.hero_id}`, String(row.state)])
+  );
+
+  const statements = SHADOW_RATING_SYSTEMS.flatMap((system) => {
+    try {
+      const load = (heroId: number) => {
+        const stored = storedStates.get(`${system.id}:${heroId}`) ?? null;
+        return { state: stored === null ? system.initialState() : (JSON.parse(stored) as unknown), stored };
+      };
+      const winner = load(winnerId);
+      const loser = load(loserId);
+      const next = system.apply(winner.state, loser.state, outcome, playedAt);
+
+      const updates = [
+        { heroId: winnerId, before: winner, after: next.winner, expected: system.expectedScore(winner.state, loser.state) },
+        { heroId: loserId, before: loser, after: next.loser, expected: system.expectedScore(loser.state, winner.state) },
+      ];
+
+      return updates.flatMap((update) => {
+        const ratingAfter = system.rating(update.after);
+        return [
+          {
+            sql: `
+              INSERT INTO shadow_ratings (system_id, hero_id, rating, games, state, updated_at)
+              VALUES (?, ?, ?, 1, ?, datetime('now'))
+              ON CONFLICT(system_id, hero_id) DO UPDATE SET
+                rating = excluded.rating,
+                games = shadow_ratings.games + 1,
+                state = excluded.state,
+                updated_at = excluded.updated_at
+            `,
+            args: [system.id, update.heroId, ratingAfter, JSON.stringify(update.after)],
+          },
+          {
+            sql: `
+              INSERT INTO shadow_rating_history
+              (system_id, vote_id, hero_id, previous_state, expected_score, rating_after, created_at)
+              VALUES (?, ?, ?, ?, ?, ?, datetime('now'))
+            `,
+            args: [system.id, voteId, update.heroId, update.before.stored, update.expected, ratingAfter],
+          },
+        ];
+      });
+    } catch (error) {
+      console.error(`Shadow rating system ${system.id} failed on vote ${voteId}:`, error);
+      return [];
+    }
+  });
+
+  if (statements.length > 0) {
+    await db.batch(statements);
+  }
+}
+
+/**
+ * Puts every shadow system back to its state before a vote, for undo.
+ * Only valid while no later vote has touched either hero.
+ *
+ * @param db - The undo's transaction
+ * @param voteId - Vote being undone
+ */
+export async function revertShadowRatings(db: SqlExecutor, voteId: number): Promise<void> {
+  const history = await db.execute({
+    sql: "SELECT system_id, hero_id, previous_state FROM shadow_rating_history WHERE vote_id = ?",
+    args: [voteId],
+  });
+
+  for (const row of history.rows) {
+    const systemId = String(row.system_id);
+    const heroId = Number(row.hero_id);
+
+    if (row.previous_state === null) {
+      await db.execute({
+        sql: "DELETE FROM shadow_ratings WHERE system_id = ? AND hero_id = ?",
+        args: [systemId, heroId],
+      });
+      continue;
+    }
+
+    // A system removed from the registry since the vote keeps its stored rating
+    const previousState = String(row.previous_state);
+    const system = SHADOW_RATING_SYSTEMS.find((candidate) => candidate.id === systemId);
+    await db.execute({
+      sql: `
+        UPDATE shadow_ratings SET games = games - 1, state = ?, rating = COALESCE(?, rating)
+        WHERE system_id = ? AND hero_id = ?
+      `,
+      args: [previousState, system ? system.rating(JSON.parse(previousState)) : null, systemId, heroId],
+    });
+  }
+
+  await db.execute({ sql: "DELETE FROM shadow_rating_history WHERE vote_id = ?", args: [voteId] });
+}
+
+/**
+ * A hero ranked very differently by a shadow system.
+ */
+export interface ShadowRankDifference {
+  heroId: number;
+  heroName: string;
+  primaryRank: number;
+  shadowRank: number;
+}
+
+/**
+ * How one shadow system compares to the primary system.
+ */
+export interface ShadowComparison {
+  systemId: string;
+  description: string;
+  /** Heroes rated by both systems */
+  heroesCompared: number;
+  /** Kendall's tau-b between the two rankings (null with fewer than two heroes) */
+  kendallTau: number | null;
+  /** Mean absolute rank difference */
+  meanRankDifference: number;
+  /** Largest rank differences, biggest first */
+  biggestDifferences: ShadowRankDifference[];
+  /** Decisive votes both systems predicted */
+  votesCompared: number;
+  /** Share of those votes where the system favored the winner (a 50/50 call counts half) */
+  shadowAccuracy: number | null;
+  primaryAccuracy: number | null;
+}
+
+/** Heroes listed per system in biggestDifferences */
+const DIFFERENCE_LIMIT = 5;
+
+/** The primary system's pre-vote prediction for the hero voted for */
+const PRIMARY_PREDICTION_COLUMN = RATING_ENGINE === "glicko2" ? "v.glicko_expected_score" : "v.expected_score";
+
+/**
+ * Compares every registered shadow system with the primary ratings of the active engine.
+ *
+ * @returns One comparison per registered system
+ */
+export async function getShadowComparison(): Promise<ShadowComparison[]> {
+  const [ratingsResult, predictionResult] = await Promise.all([
+    turso.execute(`
+      SELECT s.system_id, s.hero_id, s.rating AS shadow_rating, hr.rating, hr.glicko_rating, hr.hero_name
+      FROM shadow_ratings s
+      JOIN heroRatings hr ON hr.hero_id = s.hero_id
+    `),
+    // Predictions for the hero voted for, by the shadow system and by the primary system
+    turso.execute(`
+      SELECT
+        sh.system_id,
+        COUNT(*) AS votes,
+        SUM(CASE WHEN sh.expected_score > 0.5 THEN 1 WHEN sh.expected_score = 0.5 THEN 0.5 ELSE 0 END) AS shadow_correct,
+        SUM(CASE WHEN ${PRIMARY_PREDICTION_COLUMN} > 0.5 THEN 1 WHEN ${PRIMARY_PREDICTION_COLUMN} = 0.5 THEN 0.5 ELSE 0 END) AS primary_correct
+      FROM votes v
+      JOIN shadow_rating_history sh ON sh.vote_id = v.id AND sh.hero_id = v.voted_for
+      WHERE v.outcome = 'win' AND v.retracted_at IS NULL AND ${PRIMARY_PREDICTION_COLUMN} IS NOT NULL
+      GROUP BY sh.system_id
+    `),
+  ]);
+
+  const predictions = new Map<string, { votes: number; shadowCorrect: number; primaryCorrect: number }>();
+  for (const row of predictionResult.rows) {
+    predictions.set(String(row.system_id), {
+      votes: Number(row.votes),
+      shadowCorrect: Number(row.shadow_correct),
+      primaryCorrect: Number(row.primary_correct),
+    });
+  }
+
+  return SHADOW_RATING_SYSTEMS.map((system) => {
+    const heroes = ratingsResult.rows
+      .filter((row) => String(row.system_id) === system.id)
+      .map((row) => ({
+        heroId: Number(row.hero_id),
+        heroName: row.hero_name ? String(row.hero_name) : `Hero #${row.hero_id}`,
+        primary: activeRating({ rating: Number(row.rating), glickoRating: Number(row.glicko_rating) }),
+        shadow: Number(row.shadow_rating),
+      }));
+
+    const primaryRanks = ranksByScore(heroes.map((hero) => hero.primary));
+    const shadowRanks = ranksByScore(heroes.map((hero) => hero.shadow));
+    const differences = heroes.map((hero, i) => ({
+      heroId: hero.heroId,
+      heroName: hero.heroName,
+      primaryRank: primaryRanks[i] as number,
+      shadowRank: shadowRanks[i] as number,
+    }));
+
+    const prediction = predictions.get(system.id);
+    const votes = prediction?.votes ?? 0;
+
+    return {
+      systemId: system.id,
+      description: system.description,
+      heroesCompared: heroes.length,
+      kendallTau: kendallTau(
+        heroes.map((hero) => hero.primary),
+        heroes.map((hero) => hero.shadow)
+      ),
+      meanRankDifference:
+        differences.length > 0
+          ? differences.reduce((sum, hero) => sum + Math.abs(hero.primaryRank - hero.shadowRank), 0) /
+            differences.length
+          : 0,
+      biggestDifferences: [...differences]
+        .sort((a, b) => Math.abs(b.primaryRank - b.shadowRank) - Math.abs(a.primaryRank - a.shadowRank))
+        .slice(0, DIFFERENCE_LIMIT),
+      votesCompared: votes,
+      shadowAccuracy: prediction && votes > 0 ? prediction.shadowCorrect / votes : null,
+      primaryAccuracy: prediction && votes > 0 ? prediction.primaryCorrect / votes : null,
+    };
+  });
+}
@@ -0,0 +1,100 @@
+import { turso } from "../utils/turso";
+import type { MatchOutcome } from "../utils/elo";
+import { replayVotes, type ReplayVote } from "../utils/ratingReplay";
+import { activeRating, GLICKO2_CONFIG } from "./ratingEngine";
+
+/**
+ * Time-Window Standings
+ *
+ * Rates heroes from only the votes cast inside a time window, with every hero
+ * starting the window at the initial rating. Used for seasons and for the
+ * recent (24h / 7d / 30d) leaderboards; all-time ratings in `heroRatings` are
+ * unaffected.
+ */
+
+/**
+ * One hero's result over a time window.
+ */
+export interface Standing {
+  /** 1-based, by the rating engine that was active when the standings were computed */
+  rank: number;
+  heroId: number;
+  heroName: string | null;
+  /** Rating under the active engine (Elo or Glicko-2) */
+  rating: number;
+  eloRating: number;
+  glickoRating: number;
+  glickoDeviation: number;
+  games: number;
+  wins: number;
+  losses: number;
+  draws: number;
+  currentStreak: number;
+  peakRating: number;
+}
+
+/**
+ * Converts a date to the SQLite UTC timestamp format used in every table.
+ */
+export const toSqliteTimestamp = (date: Date): string => date.toISOString().replace("T", " ").slice(0, 19);
+
+/**
+ * Parses a SQLite UTC timestamp ("YYYY-MM-DD HH:MM:SS") to epoch milliseconds.
+ */
+export const parseTimestamp = (timestamp: string): number => new Date(`${timestamp.replace(" ", "T")}Z`).getTime();
+
+/**
+ * Replays the votes cast in [from, to) from scratch into standings.
+ *
+ * @param from - Start of the window (SQLite UTC timestamp)
+ * @param to - End of the window, exclusive (SQLite UTC timestamp)
+ * @returns Votes replayed and every hero that played, best first
+ */
+export async function computeStandings(from: string, to: string): Promise<{ votes: number; standings: Standing[] }> {
+  const [voteResult, nameResult] = await Promise.all([
+    turso.execute({
+      sql: `
+        SELECT id, voted_for, voted_against, outcome, created_at FROM votes
+        WHERE retracted_at IS NULL AND created_at >= ? AND created_at < ?
+        ORDER BY created_at, id
+      `,
+      args: [from, to],
+    }),
+    // Every hero that played in the window has a heroRatings row
+    turso.execute(`
+      SELECT hr.hero_id, COALESCE(hr.hero_name, h.name) AS hero_name
+      FROM heroRatings hr
+      LEFT JOIN heroes h ON h.id = hr.hero_id
+    `),
+  ]);
+
+  const votes: ReplayVote[] = voteResult.rows.map((row) => ({
+    voteId: Number(row.id),
+    winnerId: Number(row.voted_for),
+    loserId: Number(row.voted_against),
+    outcome: String(row.outcome) as MatchOutcome,
+    playedAt: parseTimestamp(String(row.created_at)),
+  }));
+  const names = new Map(nameResult.rows.map((row) => [Number(row.hero_id), row.hero_name ? String(row.hero_name) : null]));
+
+  const replay = replayVotes(votes, {}, GLICKO2_CONFIG);
+  const standings = Array.from(replay.ratings.values())
+    .sort((a, b) => activeRating(b) - activeRating(a) || a.heroId - b.heroId)
+    .map((state, i) => ({
+      rank: i + 1,
+      heroId: state.heroId,
+      heroName: names.get(state.heroId) ?? null,
+      rating: activeRating(state),
+      eloRating: state.rating,
+      glickoRating: state.glickoRating,
+      glickoDeviation: state.glickoDeviation,
+      games: state.games,
+      wins: state.wins,
+      losses: state.losses,
+      draws: state.draws,
+      currentStreak: state.currentStreak,
+      peakRating: state.peakRating,
+    }));
+
+  return { votes: replay.steps.length, standings };
+}
@@ -0,0 +1,70 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+
+/**
+ * Signed Tokens
+ *
+ * Small HMAC-SHA256 signed tokens used to hand state to the client that the
+ * client must give back unmodified (e.g. the matchup it was shown).
+ *
+ * Format: base64url(JSON payload) + "." + base64url(signature)
+ *
+ * Tokens are signed, not encrypted - never put anything secret in a payload.
+ */
+
+const tokenSecret = process.env.TOKEN_SIGNING_SECRET;
+
+let secret: string;
+
+if (!tokenSecret || tokenSecret === "your_token_signing_secret") {
+  console.warn(
+    "TOKEN_SIGNING_SECRET not set. Using a random per-process secret; tokens will not survive a restart."
+  );
+  secret = randomBytes(32).toString("hex");
+} else {
+  secret = tokenSecret;
+}
+
+function sign(encodedPayload: string): string {
+  return createHmac("sha256", secret).update(encodedPayload).digest("base64url");
+}
+
+/**
+ * Signs a JSON-serializable payload.
+ *
+ * @param payload - Data to embed in the token
+ * @returns The signed token string
+ */
+export function signToken(payload: object): string {
+  const encodedPayload = Buffer.from(JSON.stringify(payload)).toString("base64url");
+  return `${encodedPayload}.${sign(encodedPayload)}`;
+}
+
+/**
+ * Verifies a token's signature and returns its payload.
+ *
+ * @param token - Token previously created by signToken
+ * @returns The decoded payload, or null if the token is malformed or tampered with
+ */
+export function verifyToken<T>(token: string): T | null {
+  const [encodedPayload, signature, ...rest] = token.split(".");
+  if (!encodedPayload || !signature || rest.length > 0) return null;
+
+  const expected = Buffer.from(sign(encodedPayload));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(Buffer.from(encodedPayload, "base64url").toString("utf8")) as T;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Generates a random identifier suitable for token nonces.
+ */
+export function createNonce(): string {
+  return randomBytes(16).toString("hex");
+}
@@ -0,0 +1,187 @@
+import { withWriteTransaction, type SqlExecutor } from "../utils/turso";
+import { signToken, verifyToken } from "./tokens";
+import { revertShadowRatings } from "./shadowRatings";
+
+/**
+ * Vote Undo
+ *
+ * A vote can be taken back for a few seconds after it is cast, to recover
+ * from misclicks. `cast-vote` hands the voter a signed undo token; only the
+ * voter session that cast the vote can retract it with that token, and only
+ * until it expires.
+ *
+ * Before a vote changes any ratings, both heroes' full `heroRatings` rows are
+ * saved to `vote_undo_snapshots`. Undoing writes those rows back as they were,
+ * so rating, games, record, streak and peak/lowest are restored exactly.
+ * The vote itself stays in `votes` with `retracted_at` set.
+ *
+ * An undo is refused once a later vote has involved either hero, since that
+ * vote was rated from the state the undo would erase.
+ */
+
+/** How long after casting a vote it can still be undone */
+export const UNDO_WINDOW_SECONDS = 10;
+
+/** Snapshots older than this are pruned; comfortably longer than the undo window */
+const SNAPSHOT_RETENTION = "-10 minutes";
+
+/**
+ * Payload embedded in an undo token.
+ */
+interface UndoTokenPayload {
+  /** Vote id */
+  u: number;
+  /** Expiry as a Unix timestamp in milliseconds */
+  exp: number;
+}
+
+/**
+ * An undo token handed to the voter along with the vote result.
+ */
+export interface IssuedUndo {
+  undoToken: string;
+  undoExpiresAt: number;
+}
+
+/**
+ * Issues a token that allows the given vote to be undone for UNDO_WINDOW_SECONDS.
+ *
+ * @param voteId - Vote to allow undoing
+ */
+export function issueUndoToken(voteId: number): IssuedUndo {
+  const undoExpiresAt = Date.now() + UNDO_WINDOW_SECONDS * 1000;
+  const payload: UndoTokenPayload = { u: voteId, exp: undoExpiresAt };
+  return { undoToken: signToken(payload), undoExpiresAt };
+}
+
+/**
+ * Saves the current `heroRatings` rows of the heroes in a vote, before the vote changes them.
+ * Heroes without a row yet are saved as null, so undoing removes the row again.
+ * Also prunes snapshots that are too old to ever be used.
+ *
+ * @param db - The vote's transaction
+ * @param voteId - Vote about to be applied
+ * @param heroIds - Both heroes in the vote
+ */
+export async function saveUndoSnapshot(db: SqlExecutor, voteId: number, heroIds: number[]): Promise<void> {
+  await db.execute({
+    sql: "DELETE FROM vote_undo_snapshots WHERE created_at < datetime('now', ?)",
+    args: [SNAPSHOT_RETENTION],
+  });
+
+  for (const heroId of heroIds) {
+    const result = await db.execute({
+      sql: "SELECT * FROM heroRatings WHERE hero_id = ?",
+      args: [heroId],
+    });
+    const row = result.rows[0];
+    const previousState = row ? JSON.stringify(Object.fromEntries(result.columns.map((column) => [column, row[column]]))) : null;
+
+    await db.execute({
+      sql: `
+        INSERT INTO vote_undo_snapshots (vote_id, hero_id, previous_state, created_at)
+        VALUES (?, ?, ?, datetime('now'))
+      `,
+      args: [voteId, heroId, previousState],
+    });
+  }
+}
+
+/**
+ * Writes a saved `heroRatings` row back, or removes the row if the hero had none.
+ */
+async function restoreHeroRating(db: SqlExecutor, heroId: number, previousState: string | null): Promise<void> {
+  if (previousState === null) {
+    await db.execute({ sql: "DELETE FROM heroRatings WHERE hero_id = ?", args: [heroId] });
+    return;
+  }
+
+  // Column names come from the snapshot of this same table, not from user input
+  const row = JSON.parse(previousState) as Record<string, string | number | null>;
+  const columns = Object.keys(row);
+  await db.execute({
+    sql: `
+      INSERT OR REPLACE INTO heroRatings (${columns.map((column) => `"${column}"`).join(", ")})
+      VALUES (${columns.map(() => "?").join(", ")})
+    `,
+    args: columns.map((column) => row[column] ?? null),
+  });
+}
+
+/**
+ * Retracts a vote and restores both heroes to their state before it.
+ *
+ * @param undoToken - Token returned with the vote
+ * @param voterId - The caller's voter id, or null without a session
+ * @returns The retracted vote's id
+ * @throws Error if the token is invalid or expired, the vote was cast by another
+ *   voter or already undone, or a later vote involved either hero; nothing is
+ *   changed in that case
+ */
+export async function undoVote(undoToken: string, voterId: string | null): Promise<{ voteId: number }> {
+  const payload = verifyToken<UndoTokenPayload>(undoToken);
+  if (!payload || typeof payload.u !== "number") {
+    throw new Error("Invalid undo token");
+  }
+
+  if (payload.exp < Date.now()) {
+    throw new Error("Undo window has closed");
+  }
+
+  const voteId = payload.u;
+
+  return withWriteTransaction(async (tx) => {
+    const voteResult = await tx.execute({
+      sql: "SELECT voted_for, voted_against, voter_id, retracted_at FROM votes WHERE id = ?",
+      args: [voteId],
+    });
+    const vote: any = voteResult.rows[0];
+    if (!vote) {
+      throw new Error("Invalid undo token");
+    }
+    if (vote.voter_id === null || String(vote.voter_id) !== voterId) {
+      throw new Error("Only the voter who cast this vote can undo it");
+    }
+    if (vote.retracted_at !== null) {
+      throw new Error("Vote has already been undone");
+    }
+
+    const heroIds = [Number(vote.voted_for), Number(vote.voted_against)];
+
+    const laterVote = await tx.execute({
+      sql: `
+        SELECT 1 FROM votes
+        WHERE id > ? AND retracted_at IS NULL
+          AND (voted_for IN (?, ?) OR voted_against IN (?, ?))
+        LIMIT 1
+      `,
+      args: [voteId, ...heroIds, ...heroIds],
+    });
+    if (laterVote.rows.length > 0) {
+      throw new Error("A newer vote involves one of these heroes, so this vote can no longer be undone");
+    }
+
+    const snapshots = await tx.execute({
+      sql: "SELECT hero_id, previous_state FROM vote_undo_snapshots WHERE vote_id = ?",
+      args: [voteId],
+    });
+    if (snapshots.rows.length !== heroIds.length) {
+      throw new Error("Undo window has closed");
+    }
+
+    for (const snapshot of snapshots.rows) {
+      const previousState = snapshot.previous_state === null ? null : String(snapshot.previous_state);
+      await restoreHeroRating(tx, Number(snapshot.hero_id), previousState);
+    }
+
+    await tx.execute({ sql: "DELETE FROM rating_history WHERE vote_id = ?", args: [voteId] });
+    await revertShadowRatings(tx, voteId);
+    await tx.execute({ sql: "DELETE FROM vote_undo_snapshots WHERE vote_id = ?", args: [voteId] });
+    await tx.execute({
+      sql: "UPDATE votes SET retracted_at = datetime('now') WHERE id = ?",
+      args: [voteId],
+    });
+
+    return { voteId };
+  });
+}
@@ -0,0 +1,348 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import type { Row } from "@libsql/client";
+import { turso, withWriteTransaction, type SqlBatchExecutor } from "../utils/turso";
+import { createNonce } from "./tokens";
+import { getRosterIds } from "./heroCatalog";
+import { evaluateAchievements, getAchievementSignals, type AchievementProgress } from "./achievements";
+
+/**
+ * Anonymous Voter Sessions
+ *
+ * Each browser gets a random voter id in an HttpOnly cookie, backed by a row
+ * in `voters`. Votes are linked to it, and progress (vote count, daily
+ * streak, heroes discovered) is computed from the database instead of kept
+ * in localStorage, where it was lost on a new device and could be edited.
+ *
+ * Progress a browser built up in localStorage before sessions existed is
+ * merged in once, when its session is created: the vote count and streak are
+ * kept as legacy columns on the voter, and discovered heroes are copied into
+ * `voter_discoveries`. Anyone can edit localStorage, so the values are checked
+ * against the server's own records: the vote count can't exceed the votes
+ * cast without a session, and a streak can't be longer than the days since
+ * the first of those votes. The voter is told when anything was cut. Only a
+ * small part of the legacy vote count and streak counts towards
+ * achievements, so older progress can't unlock the bigger ones on its own.
+ */
+
+export const VOTER_COOKIE = "hero_rank_voter";
+
+/** Sessions last a year from their last renewal */
+const VOTER_COOKIE_MAX_AGE_SECONDS = 365 * 24 * 60 * 60;
+
+/** Voter ids are createNonce() output */
+const VOTER_ID_PATTERN = /^[0-9a-f]{32}$/;
+
+/** Most legacy votes that count towards achievements */
+const MAX_LEGACY_ACHIEVEMENT_VOTES = 50;
+
+/** Longest legacy streak that counts towards achievements, in days */
+const MAX_LEGACY_ACHIEVEMENT_STREAK_DAYS = 6;
+
+/**
+ * A voter's daily voting streak. Days are UTC dates.
+ */
+export interface StreakData {
+  currentStreak: number;
+  longestStreak: number;
+  /** Last day with a vote (YYYY-MM-DD), or null */
+  lastVoteDate: string | null;
+  votedToday: boolean;
+}
+
+/**
+ * A voter's progress, as shown on the voting page.
+ */
+export interface VoterProgress {
+  /** Recorded votes plus the legacy count */
+  voteCount: number;
+  /** Votes merged from localStorage */
+  legacyVoteCount: number;
+  streak: StreakData;
+  discoveredCount: number;
+  /** Every achievement, with progress towards it */
+  achievements: AchievementProgress[];
+}
+
+/**
+ * Progress read from the localStorage keys the voting page used before sessions.
+ */
+export interface LegacyProgress {
+  voteCount: number;
+  currentStreak: number;
+  longestStreak: number;
+  lastVoteDate: string | null;
+  discoveredHeroIds: number[];
+}
+
+/**
+ * The voter session behind one request. The session is looked up (and
+ * created, if asked) at most once per request.
+ */
+export interface VoterSession {
+  /** The voter id from the request's cookie, or null if there is no valid session */
+  get(): Promise<string | null>;
+  /**
+   * Gets the voter id, creating a session and setting its cookie if there is none.
+   * Legacy progress is merged only when a session is created.
+   */
+  ensure(legacy?: LegacyProgress): Promise<EnsuredVoter>;
+}
+
+/**
+ * The voter behind a request, after VoterSession.ensure().
+ */
+export interface EnsuredVoter {
+  voterId: string;
+  /** Whether the session was created by this request */
+  created: boolean;
+  /** Whether some of the legacy progress was beyond what the server could accept */
+  legacyTruncated: boolean;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Today's UTC date as YYYY-MM-DD */
+const today = (): string => new Date().toISOString().slice(0, 10);
+
+/** Shifts a YYYY-MM-DD date by a number of days */
+const addDays = (date: string, days: number): string =>
+  new Date(new Date(`${date}T00:00:00Z`).getTime() + days * DAY_MS).toISOString().slice(0, 10);
+
+/** Whole days from one YYYY-MM-DD date to a later one */
+const daysBetween = (from: string, to: string): number =>
+  Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS);
+
+/** Rounds a value from localStorage down and clamps it to 0-max */
+const clampLegacy = (value: unknown, max: number): number => {
+  const number = Math.floor(Number(value));
+  return Number.isFinite(number) ? Math.min(Math.max(0, number), max) : 0;
+};
+
+const isDate = (value: string): boolean => /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(Date.parse(value));
+
+function setVoterCookie(res: NextApiResponse, voterId: string): void {
+  const secure = process.env.NODE_ENV === "production" ? "; Secure" : "";
+  res.setHeader(
+    "Set-Cookie",
+    `${VOTER_COOKIE}=${voterId}; Path=/; Max-Age=${VOTER_COOKIE_MAX_AGE_SECONDS}; HttpOnly; SameSite=Lax${secure}`
+  );
+}
+
+/**
+ * Looks up a voter and marks it as seen.
+ *
+ * @returns Whether the voter exists
+ */
+async function touchVoter(voterId: string): Promise<boolean> {
+  const result = await turso.execute({
+    sql: "UPDATE voters SET last_seen_at = datetime('now') WHERE id = ?",
+    args: [voterId],
+  });
+  return result.rowsAffected === 1;
+}
+
+/**
+ * Looks up the votes cast without a voter session, which is where legacy progress came from.
+ *
+ * @returns How many there are, and the day of the first one (or null)
+ */
+async function getAnonymousVotes(): Promise<{ count: number; firstDay: string | null }> {
+  const result = await turso.execute(`
+    SELECT COUNT(*) AS count, MIN(substr(created_at, 1, 10)) AS first_day
+    FROM votes WHERE voter_id IS NULL AND retracted_at IS NULL
+  `);
+  const row = result.rows[0];
+  return { count: Number(row?.count ?? 0), firstDay: row?.first_day ? String(row.first_day) : null };
+}
+
+/**
+ * Creates a voter, merging in any progress from localStorage.
+ * Values are bounded by the server's records, since localStorage could hold anything.
+ */
+async function createVoter(legacy: LegacyProgress | undefined): Promise<{ voterId: string; legacyTruncated: boolean }> {
+  const voterId = createNonce();
+  const anonymous = legacy ? await getAnonymousVotes() : { count: 0, firstDay: null };
+
+  const voteCount = clampLegacy(legacy?.voteCount ?? 0, anonymous.count);
+  const lastVoteDate = legacy?.lastVoteDate && isDate(legacy.lastVoteDate) && legacy.lastVoteDate <= today()
+    && anonymous.firstDay !== null && legacy.lastVoteDate >= anonymous.firstDay
+    ? legacy.lastVoteDate
+    : null;
+  // Each streak day needs a vote, on or after the first anonymous one
+  const streakDaysUntil = (day: string | null): number =>
+    anonymous.firstDay && day ? Math.min(voteCount, daysBetween(anonymous.firstDay, day) + 1) : 0;
+  const currentStreak = clampLegacy(legacy?.currentStreak ?? 0, streakDaysUntil(lastVoteDate));
+  const longestStreak = Math.max(currentStreak, clampLegacy(legacy?.longestStreak ?? 0, streakDaysUntil(today())));
+
+  // Only heroes that are actually on the roster count as discovered
+  const claimed = Array.from(new Set(legacy?.discoveredHeroIds ?? []));
+  const roster = new Set(claimed.length > 0 ? await getRosterIds() : []);
+  const discovered = claimed.filter((heroId) => roster.has(heroId));
+
+  const legacyTruncated = legacy !== undefined && (
+    voteCount < legacy.voteCount
+    || currentStreak < legacy.currentStreak
+    || longestStreak < legacy.longestStreak
+    || discovered.length < claimed.length
+  );
+
+  await withWriteTransaction(async (tx) => {
+    await tx.execute({
+      sql: `
+        INSERT INTO voters
+        (id, legacy_vote_count, legacy_current_streak, legacy_longest_streak, legacy_last_vote_date, created_at, last_seen_at)
+        VALUES (?, ?, ?, ?, ?, datetime('now'), datetime('now'))
+      `,
+      args: [voterId, voteCount, currentStreak, longestStreak, lastVoteDate],
+    });
+    if (discovered.length > 0) {
+      await tx.batch(
+        discovered.map((heroId) => ({
+          sql: "INSERT INTO voter_discoveries (voter_id, hero_id, discovered_at) VALUES (?, ?, datetime('now'))",
+          args: [voterId, heroId],
+        }))
+      );
+    }
+  });
+
+  return { voterId, legacyTruncated };
+}
+
+/**
+ * Creates the voter session accessor for one request.
+ *
+ * @param req - Incoming request (its cookie identifies the voter)
+ * @param res - Response, for setting the cookie on a new session
+ */
+export function createVoterSession(req: NextApiRequest, res: NextApiResponse): VoterSession {
+  let existing: Promise<string | null> | null = null;
+  let ensured: Promise<EnsuredVoter> | null = null;
+
+  const get = () => {
+    if (!existing) {
+      const cookie = req.cookies[VOTER_COOKIE];
+      existing = cookie && VOTER_ID_PATTERN.test(cookie)
+        ? touchVoter(cookie).then((found) => (found ? cookie : null))
+        : Promise.resolve(null);
+    }
+    return existing;
+  };
+
+  const ensure = (legacy?: LegacyProgress) => {
+    if (!ensured) {
+      ensured = get().then(async (voterId) => {
+        if (voterId) {
+          // Renew the cookie so active sessions don't expire
+          setVoterCookie(res, voterId);
+          return { voterId, created: false, legacyTruncated: false };
+        }
+        const created = await createVoter(legacy);
+        setVoterCookie(res, created.voterId);
+        return { ...created, created: true };
+      });
+    }
+    return ensured;
+  };
+
+  return { get, ensure };
+}
+
+/**
+ * Records heroes a voter has voted on as discovered.
+ *
+ * @param db - Transaction the vote is being recorded in
+ * @param voterId - Voter id
+ * @param heroIds - Both heroes in the vote
+ */
+export async function recordDiscoveries(db: SqlBatchExecutor, voterId: string, heroIds: number[]): Promise<void> {
+  await db.batch(
+    heroIds.map((heroId) => ({
+      sql: "INSERT OR IGNORE INTO voter_discoveries (voter_id, hero_id, discovered_at) VALUES (?, ?, datetime('now'))",
+      args: [voterId, heroId],
+    }))
+  );
+}
+
+/**
+ * Works out the current and longest run of consecutive days.
+ *
+ * @param days - Days with at least one vote (YYYY-MM-DD), sorted ascending, without duplicates
+ */
+function computeStreak(days: string[]): StreakData {
+  let longestStreak = 0;
+  let run = 0;
+  let previous: string | null = null;
+  for (const day of days) {
+    run = previous !== null && addDays(previous, 1) === day ? run + 1 : 1;
+    longestStreak = Math.max(longestStreak, run);
+    previous = day;
+  }
+
+  const lastVoteDate = days[days.length - 1] ?? null;
+  const votedToday = lastVoteDate === today();
+  // A streak survives until the end of the day after its last vote
+  const isCurrent = votedToday || lastVoteDate === addDays(today(), -1);
+
+  return { currentStreak: isCurrent ? run : 0, longestStreak, lastVoteDate, votedToday };
+}
+
+/**
+ * Works out a voter's streak from their voting days and merged legacy streak.
+ * The legacy streak stands in for the days it covers.
+ *
+ * @param days - Days with a recorded vote (YYYY-MM-DD)
+ * @param voter - The voter's row, with its legacy columns
+ * @param maxLegacyDays - Most legacy streak days to count
+ */
+function computeStreakWithLegacy(days: Set<string>, voter: Row | undefined, maxLegacyDays: number): StreakData {
+  const allDays = new Set(days);
+  const legacyLastDate = voter?.legacy_last_vote_date ? String(voter.legacy_last_vote_date) : null;
+  const legacyStreak = clampLegacy(voter?.legacy_current_streak ?? 0, maxLegacyDays);
+  if (legacyLastDate) {
+    for (let i = 0; i < legacyStreak; i++) {
+      allDays.add(addDays(legacyLastDate, -i));
+    }
+  }
+
+  const streak = computeStreak(Array.from(allDays).sort());
+  streak.longestStreak = Math.max(streak.longestStreak, clampLegacy(voter?.legacy_longest_streak ?? 0, maxLegacyDays));
+  return streak;
+}
+
+/**
+ * Computes a voter's progress from their votes, discoveries and merged legacy progress,
+ * and checks their achievements against it. Undone votes don't count.
+ *
+ * @param voterId - Voter id
+ */
+export async function getVoterProgress(voterId: string): Promise<VoterProgress> {
+  const [voterResult, countResult, dayResult, discoveryResult] = await Promise.all([
+    turso.execute({ sql: "SELECT * FROM voters WHERE id = ?", args: [voterId] }),
+    turso.execute({
+      sql: "SELECT COUNT(*) AS count FROM votes WHERE voter_id = ? AND retracted_at IS NULL",
+      args: [voterId],
+    }),
+    turso.execute({
+      sql: "SELECT DISTINCT substr(created_at, 1, 10) AS day FROM votes WHERE voter_id = ? AND retracted_at IS NULL",
+      args: [voterId],
+    }),
+    turso.execute({ sql: "SELECT COUNT(*) AS count FROM voter_discoveries WHERE voter_id = ?", args: [voterId] }),
+  ]);
+
+  const voter = voterResult.rows[0];
+  const days = new Set(dayResult.rows.map((row) => String(row.day)));
+  const streak = computeStreakWithLegacy(days, voter, Infinity);
+
+  const recordedVoteCount = Number(countResult.rows[0]?.count ?? 0);
+  const legacyVoteCount = clampLegacy(voter?.legacy_vote_count ?? 0, Infinity);
+  const voteCount = legacyVoteCount + recordedVoteCount;
+  const discoveredCount = Number(discoveryResult.rows[0]?.count ?? 0);
+  // Achievements only see a little of the legacy progress
+  const signals = await getAchievementSignals(voterId, {
+    voteCount: recordedVoteCount + Math.min(legacyVoteCount, MAX_LEGACY_ACHIEVEMENT_VOTES),
+    longestStreak: computeStreakWithLegacy(days, voter, MAX_LEGACY_ACHIEVEMENT_STREAK_DAYS).longestStreak,
+    discoveredCount,
+  });
+
+  return { voteCount, legacyVoteCount, streak, discoveredCount, achievements: evaluateAchievements(signals) };
+}
@@ -0,0 +1,214 @@
+import { withWriteTransaction, type SqlExecutor } from "../utils/turso";
+import { isProvisional, type MatchOutcome } from "../utils/elo";
+import { applyMatchResult } from "../utils/ratingReplay";
+import { trueSkillEstimate, wilsonScore } from "../utils/wilsonScore";
+import { createDefaultHeroRating, HeroRatingState } from "../types/heroRating";
+import { consumeMatchupToken } from "./matchup";
+import { insertRatingHistory } from "./ratingHistory";
+import { saveUndoSnapshot } from "./voteUndo";
+import { activeRating, GLICKO2_CONFIG } from "./ratingEngine";
+import { updateShadowRatings } from "./shadowRatings";
+import { recordDiscoveries } from "./voters";
+
+/**
+ * Vote Recording
+ *
+ * A vote touches the new `votes` row, both heroes in `heroRatings`, their
+ * `rating_history` entries, the undo snapshot of both heroes and every shadow
+ * rating system. All of it happens in one write transaction so that:
+ * - a failure partway through never leaves a vote without its rating change
+ * - two votes on the same hero can't both read the old rating and overwrite
+ *   each other (the second transaction waits, then reads the first's result)
+ */
+
+/**
+ * Input for recording a single vote.
+ */
+export interface CastVoteInput {
+  votedFor: number;
+  votedAgainst: number;
+  /** 'draw' if the voter couldn't pick either hero (default: 'win' for votedFor) */
+  outcome?: MatchOutcome;
+  votedForName?: string;
+  votedAgainstName?: string;
+  matchupToken: string;
+  /** Anonymous voter session the vote was cast from */
+  voterId?: string | null;
+}
+
+/**
+ * Result of updating hero ratings, on the active rating engine's scale.
+ */
+export interface RatingUpdateResult {
+  voteId: number;
+  winnerRatingChange: number;
+  loserRatingChange: number;
+  winnerNewRating: number;
+  loserNewRating: number;
+}
+
+/**
+ * Fetches a hero's rating, or returns default values if the hero has never been rated.
+ *
+ * Errors are deliberately not swallowed: falling back to defaults on a failed
+ * read would reset the hero to 1500 when the vote is written.
+ *
+ * @param db - Client or transaction to read through
+ * @param heroId - The SuperHero API ID
+ * @returns The hero's current rating state
+ */
+async function getHeroRating(db: SqlExecutor, heroId: number): Promise<HeroRatingState> {
+  const result = await db.execute({
+    sql: "SELECT * FROM heroRatings WHERE hero_id = ?",
+    args: [heroId]
+  });
+
+  if (result.rows.length > 0) {
+    const data: any = result.rows[0];
+    return {
+      heroId: data.hero_id,
+      heroName: data.hero_name || null,
+      rating: data.rating,
+      games: data.games,
+      wins: data.wins,
+      losses: data.losses,
+      draws: data.draws,
+      peakRating: data.peak_rating,
+      lowestRating: data.lowest_rating,
+      currentStreak: data.current_streak,
+      glickoRating: Number(data.glicko_rating),
+      glickoDeviation: Number(data.glicko_rd),
+      glickoVolatility: Number(data.glicko_volatility),
+      glickoUpdatedAt: data.glicko_updated_at === null ? null : Number(data.glicko_updated_at),
+    };
+  }
+
+  // Return default values for new hero
+  return createDefaultHeroRating(heroId);
+}
+
+/**
+ * Inserts or updates a hero's rating row.
+ * Uses an upsert rather than INSERT OR REPLACE so `created_at` keeps the
+ * time the hero was first rated.
+ *
+ * @param db - Client or transaction to write through
+ * @param state - The hero's new rating state
+ */
+async function saveHeroRating(db: SqlExecutor, state: HeroRatingState): Promise<void> {
+  const winRate = state.games > 0 ? (state.wins / state.games) * 100 : 0;
+
+  await db.execute({
+    sql: `
+      INSERT INTO heroRatings
+      (hero_id, hero_name, rating, games, wins, losses, draws, is_provisional, peak_rating, lowest_rating, win_rate, current_streak,
+       glicko_rating, glicko_rd, glicko_volatility, glicko_updated_at, wilson_score, true_skill, last_updated, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, datetime('now'), datetime('now'))
+      ON CONFLICT(hero_id) DO UPDATE SET
+        hero_name = excluded.hero_name,
+        rating = excluded.rating,
+        games = excluded.games,
+        wins = excluded.wins,
+        losses = excluded.losses,
+        draws = excluded.draws,
+        is_provisional = excluded.is_provisional,
+        peak_rating = excluded.peak_rating,
+        lowest_rating = excluded.lowest_rating,
+        win_rate = excluded.win_rate,
+        current_streak = excluded.current_streak,
+        glicko_rating = excluded.glicko_rating,
+        glicko_rd = excluded.glicko_rd,
+        glicko_volatility = excluded.glicko_volatility,
+        glicko_updated_at = excluded.glicko_updated_at,
+        wilson_score = excluded.wilson_score,
+        true_skill = excluded.true_skill,
+        last_updated = excluded.last_updated
+    `,
+    args: [
+      state.heroId,
+      state.heroName ?? null,
+      state.rating,
+      state.games,
+      state.wins,
+      state.losses,
+      state.draws,
+      isProvisional(state.games) ? 1 : 0,
+      state.peakRating,
+      state.lowestRating,
+      winRate,
+      state.currentStreak,
+      state.glickoRating,
+      state.glickoDeviation,
+      state.glickoVolatility,
+      state.glickoUpdatedAt,
+      wilsonScore(state.wins, state.games),
+      trueSkillEstimate(state.rating, state.wins, state.games)
+    ]
+  });
+}
+
+/**
+ * Records a vote, updates both heroes' Elo and Glicko-2 ratings and logs their rating history atomically.
+ * For a draw, votedFor/votedAgainst are just the two heroes and both score 0.5.
+ *
+ * @param input - The vote, including the matchup token it was cast on
+ * @returns Rating changes for both heroes
+ * @throws Error if the matchup token is rejected or the write fails; nothing is written in that case
+ */
+export async function recordVote(input: CastVoteInput): Promise<RatingUpdateResult> {
+  const winnerId = input.votedFor;
+  const loserId = input.votedAgainst;
+  const outcome = input.outcome ?? "win";
+
+  return withWriteTransaction(async (tx) => {
+    // Consuming the token in the same transaction means a failed vote doesn't burn it
+    await consumeMatchupToken(tx, input.matchupToken, winnerId, loserId);
+
+    // Fetch current ratings for both heroes
+    const winnerRating = await getHeroRating(tx, winnerId);
+    const loserRating = await getHeroRating(tx, loserId);
+
+    // Calculate new Elo and Glicko-2 ratings and stats
+    const { winner, loser, winnerStep, loserStep, glickoExpectedScore } = applyMatchResult(winnerRating, loserRating, {}, outcome, {
+      config: GLICKO2_CONFIG,
+    });
+
+    // Record the vote with Elo's and Glicko-2's pre-vote win probabilities for votedFor
+    const voteResult = await tx.execute({
+      sql: "INSERT INTO votes (voted_for, voted_against, outcome, expected_score, glicko_expected_score, voter_id, created_at) VALUES (?, ?, ?, ?, ?, ?, datetime('now'))",
+      args: [winnerId, loserId, outcome, winnerStep.expectedScore, glickoExpectedScore, input.voterId ?? null]
+    });
+    const voteId = Number(voteResult.lastInsertRowid);
+
+    // Keep both heroes' current rows so the vote can be undone exactly
+    await saveUndoSnapshot(tx, voteId, [winnerId, loserId]);
+
+    // Use provided name, fall back to existing name from DB
+    await saveHeroRating(tx, {
+      ...winner,
+      heroName: input.votedForName || winnerRating.heroName || null,
+    });
+    await saveHeroRating(tx, {
+      ...loser,
+      heroName: input.votedAgainstName || loserRating.heroName || null,
+    });
+
+    await insertRatingHistory(tx, voteId, [winnerStep, loserStep]);
+
+    // Shadow systems see the same vote but never affect the result
+    await updateShadowRatings(tx, voteId, winnerId, loserId, outcome);
+
+    // Heroes a voter has voted on count towards their discovery progress
+    if (input.voterId) {
+      await recordDiscoveries(tx, input.voterId, [winnerId, loserId]);
+    }
+
+    return {
+      voteId,
+      winnerRatingChange: activeRating(winner) - activeRating(winnerRating),
+      loserRatingChange: activeRating(loser) - activeRating(loserRating),
+      winnerNewRating: activeRating(winner),
+      loserNewRating: activeRating(loser),
+    };
+  });
+}
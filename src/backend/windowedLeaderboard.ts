@@ -0,0 +1,61 @@
+import { computeStandings, toSqliteTimestamp, type Standing } from "./standings";
+
+/**
+ * Recent Leaderboards
+ *
+ * Leaderboards over only the last 24 hours, 7 days or 30 days of votes, so
+ * heroes that are doing well right now can stand out from all-time ratings.
+ * Each window is re-rated from scratch (see standings.ts) and cached per
+ * window, since every page view would otherwise replay the same votes.
+ */
+
+/** Hours covered by each recent window */
+export const LEADERBOARD_WINDOWS = {
+  "24h": 24,
+  "7d": 24 * 7,
+  "30d": 24 * 30,
+} as const;
+
+export type LeaderboardWindow = keyof typeof LEADERBOARD_WINDOWS;
+
+/** How long a computed window is reused */
+const WINDOW_CACHE_TTL_MS = 60 * 1000;
+
+/**
+ * A leaderboard over a recent window.
+ */
+export interface WindowedLeaderboard {
+  window: LeaderboardWindow;
+  /** Start and end of the window (SQLite UTC timestamps) */
+  from: string;
+  to: string;
+  votes: number;
+  standings: Standing[];
+  /** When the standings were computed, in epoch milliseconds */
+  computedAt: number;
+}
+
+const windowCache = new Map<LeaderboardWindow, WindowedLeaderboard>();
+
+/**
+ * Rates heroes from the votes in a recent window, reusing the last result for up to a minute.
+ *
+ * @param window - Which window to compute
+ * @returns Standings over the window, best first
+ */
+export async function getWindowedLeaderboard(window: LeaderboardWindow): Promise<WindowedLeaderboard> {
+  const cached = windowCache.get(window);
+  if (cached && Date.now() - cached.computedAt < WINDOW_CACHE_TTL_MS) {
+    return cached;
+  }
+
+  const now = Date.now();
+  const from = toSqliteTimestamp(new Date(now - LEADERBOARD_WINDOWS[window] * 60 * 60 * 1000));
+  // The end bound is exclusive, so votes cast in the current second still count
+  const to = toSqliteTimestamp(new Date(now + 1000));
+  const { votes, standings } = await computeStandings(from, to);
+
+  const leaderboard = { window, from, to, votes, standings, computedAt: now };
+  windowCache.set(window, leaderboard);
+  return leaderboard;
+}
@@ -1,70 +1,23 @@
 import { motion, AnimatePresence } from "framer-motion";
 import { useEffect } from "react";
-
-export interface Badge {
-  id: string;
-  name: string;
-  description: string;
-  icon: string;
-  requiredVotes: number;
-}
-
-const BADGES: Badge[] = [
-  {
-    id: "origin-story",
-    name: "ORIGIN",
-    description: "Cast your first vote",
-    icon: "1",
-    requiredVotes: 1,
-  },
-  {
-    id: "sidekick",
-    name: "SIDEKICK",
-    description: "Cast 10 votes",
-    icon: "10",
-    requiredVotes: 10,
-  },
-  {
-    id: "hero",
-    name: "HERO",
-    description: "Cast 100 votes",
-    icon: "100",
-    requiredVotes: 100,
-  },
-  {
-    id: "legend",
-    name: "LEGEND",
-    description: "Cast 1000 votes",
-    icon: "1K",
-    requiredVotes: 1000,
-  },
-];
-
-const VOTE_COUNT_KEY = "heroRankVoteCount";
-
-export const getVoteCount = (): number => {
-  if (typeof window === "undefined") return 0;
-  const stored = localStorage.getItem(VOTE_COUNT_KEY);
-  return stored ? parseInt(stored, 10) : 0;
-};
-
-export const incrementVoteCount = (): number => {
-  const current = getVoteCount();
-  const newCount = current + 1;
-  localStorage.setItem(VOTE_COUNT_KEY, newCount.toString());
-  return newCount;
-};
-
-export const getUnlockedBadges = (voteCount: number): Badge[] => {
-  return BADGES.filter((badge) => voteCount >= badge.requiredVotes);
-};
-
-export const getNextBadge = (voteCount: number): Badge | null => {
-  return BADGES.find((badge) => voteCount < badge.requiredVotes) || null;
+import type { AchievementProgress } from "../backend/achievements";
+
+/**
+ * The locked achievement the voter is closest to, by share of its target reached.
+ */
+const getNextAchievement = (achievements: AchievementProgress[]): AchievementProgress | null => {
+  let next: AchievementProgress | null = null;
+  for (const achievement of achievements) {
+    if (achievement.unlocked) continue;
+    if (!next || achievement.current / achievement.target > next.current / next.target) {
+      next = achievement;
+    }
+  }
+  return next;
 };
 
 interface AchievementUnlockToastProps {
-  badge: Badge | null;
+  badge: AchievementProgress | null;
   onClose: () => void;
 }
 
@@ -141,13 +94,16 @@ export const AchievementUnlockToast: React.FC<AchievementUnlockToastProps> = ({
 
 interface AchievementBadgesProps {
   voteCount: number;
+  /** Every achievement with the voter's progress, or empty while loading */
+  achievements: AchievementProgress[];
 }
 
 export const AchievementBadges: React.FC<AchievementBadgesProps> = ({
   voteCount,
+  achievements,
 }) => {
-  const unlockedBadges = getUnlockedBadges(voteCount);
-  const nextBadge = getNextBadge(voteCount);
+  const unlockedCount = achievements.filter((achievement) => achievement.unlocked).length;
+  const nextAchievement = getNextAchievement(achievements);
 
   return (
     <div className="card-brutal p-3">
@@ -159,40 +115,50 @@ export const AchievementBadges: React.FC<AchievementBadgesProps> = ({
         </span>
       </div>
 
-      {/* Badges Row */}
-      <div className="flex gap-1 mb-2">
-        {BADGES.map((badge) => {
-          const isUnlocked = voteCount >= badge.requiredVotes;
-          return (
-            <div
-              key={badge.id}
-              className={`w-10 h-10 border-2 border-ink flex items-center justify-center font-mono text-xs font-bold transition-colors ${
-                isUnlocked
-                  ? "bg-champion text-ink"
-                  : "bg-concrete text-smoke"
-              }`}
-              title={isUnlocked ? badge.name : `${badge.requiredVotes} votes`}
-            >
-              {isUnlocked ? badge.icon : "?"}
-            </div>
-          );
-        })}
+      {/* Badges */}
+      <div className="flex flex-wrap gap-1 mb-2">
+        {achievements.map((achievement) => (
+          <div
+            key={achievement.id}
+            className={`w-10 h-10 border-2 border-ink flex items-center justify-center font-mono text-xs font-bold transition-colors ${
+              achievement.unlocked
+                ? "bg-champion text-ink"
+                : "bg-concrete text-smoke"
+            }`}
+            title={
+              achievement.unlocked
+                ? `${achievement.name}: ${achievement.description}`
+                : `${achievement.description} (${achievement.current}/${achievement.target})`
+            }
+          >
+            {achievement.unlocked ? achievement.icon : "?"}
+          </div>
+        ))}
       </div>
 
-      {/* Next Badge Progress */}
-      {nextBadge && (
+      {/* Next Achievement Progress */}
+      {nextAchievement && (
         <div className="font-mono text-xs">
-          <span className="text-smoke">NEXT: </span>
-          <span className="text-charcoal font-bold">{nextBadge.name}</span>
-          <span className="text-smoke"> ({nextBadge.requiredVotes - voteCount} more)</span>
+          <div>
+            <span className="text-smoke">NEXT: </span>
+            <span className="text-charcoal font-bold">{nextAchievement.name}</span>
+            <span className="text-smoke"> ({nextAchievement.current}/{nextAchievement.target})</span>
+          </div>
+          <div className="text-smoke">{nextAchievement.description}</div>
         </div>
       )}
 
-      {!nextBadge && (
+      {achievements.length > 0 && !nextAchievement && (
         <div className="font-mono text-xs text-champion font-bold">
           ALL UNLOCKED!
         </div>
       )}
+
+      {achievements.length > 0 && (
+        <div className="font-mono text-[10px] text-smoke text-right mt-1">
+          {unlockedCount}/{achievements.length} unlocked
+        </div>
+      )}
     </div>
   );
 };
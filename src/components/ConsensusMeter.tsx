@@ -0,0 +1,68 @@
+import Link from "next/link";
+import type { VoterConsensus } from "../backend/consensus";
+import { describeTaste } from "../utils/consensus";
+
+interface ConsensusMeterProps {
+  /** The voter's consensus scores, or null before they've voted (or while loading) */
+  consensus: VoterConsensus | null;
+}
+
+/** Change in agreement, in percentage points, before recent picks count as a shift in taste */
+const TREND_THRESHOLD = 5;
+
+export const ConsensusMeter: React.FC<ConsensusMeterProps> = ({ consensus }) => {
+  const agreement = consensus?.overall.agreement ?? null;
+  const percentage = agreement !== null ? Math.round(agreement * 100) : null;
+  const recentAgreement = consensus?.recent.agreement ?? null;
+  const shift = agreement !== null && recentAgreement !== null ? Math.round((recentAgreement - agreement) * 100) : 0;
+
+  return (
+    <div className="card-brutal p-3">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-label">CONSENSUS</span>
+        <Link href="/profile" className="font-mono text-[10px] text-smoke hover:text-signal">
+          PROFILE →
+        </Link>
+      </div>
+
+      {/* Stats */}
+      <div className="flex items-baseline gap-1 mb-2">
+        <span className="font-mono text-3xl font-bold text-navy">
+          {percentage ?? "-"}
+        </span>
+        <span className="font-mono text-sm text-smoke">% agree</span>
+      </div>
+
+      {/* Progress Bar */}
+      <div className="rating-bar mb-2">
+        <div
+          className="rating-bar-fill-navy transition-all duration-300"
+          style={{ width: `${percentage ?? 0}%` }}
+        />
+      </div>
+
+      {/* Contrarian Index */}
+      <div className="flex items-center justify-between font-mono text-xs">
+        <span className="text-smoke">
+          {describeTaste(consensus?.overall.contrarianIndex ?? null)}
+        </span>
+        <span>
+          <span className="text-smoke">CONTRARIAN: </span>
+          <span className="font-bold text-signal">
+            {consensus?.overall.contrarianIndex != null ? Math.round(consensus.overall.contrarianIndex) : "-"}
+          </span>
+        </span>
+      </div>
+
+      {/* Trend */}
+      {Math.abs(shift) >= TREND_THRESHOLD && (
+        <div className="mt-2 pt-2 border-t border-ink">
+          <p className="font-mono text-xs text-smoke">
+            {shift > 0 ? "▲ More mainstream lately" : "▼ More contrarian lately"}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
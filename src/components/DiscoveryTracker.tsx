@@ -1,67 +1,16 @@
-export const TOTAL_HEROES = 731;
-
-const DISCOVERY_KEY = "heroRankDiscoveredHeroes";
-
-export interface DiscoveryData {
-  totalDiscovered: number;
-  newlyDiscovered: number[];
-}
-
-export const getDiscoveredHeroes = (): Set<number> => {
-  if (typeof window === "undefined") {
-    return new Set<number>();
-  }
-
-  const stored = localStorage.getItem(DISCOVERY_KEY);
-  if (!stored) {
-    return new Set<number>();
-  }
-
-  try {
-    const parsed = JSON.parse(stored) as number[];
-    return new Set(parsed);
-  } catch {
-    return new Set<number>();
-  }
-};
-
-export const addDiscoveredHeroes = (heroIds: number[]): DiscoveryData => {
-  const currentDiscovered = getDiscoveredHeroes();
-  const newlyDiscovered: number[] = [];
-
-  heroIds.forEach((id) => {
-    if (!currentDiscovered.has(id)) {
-      currentDiscovered.add(id);
-      newlyDiscovered.push(id);
-    }
-  });
-
-  if (typeof window !== "undefined") {
-    const arrayToSave = Array.from(currentDiscovered);
-    localStorage.setItem(DISCOVERY_KEY, JSON.stringify(arrayToSave));
-  }
-
-  return {
-    totalDiscovered: currentDiscovered.size,
-    newlyDiscovered,
-  };
-};
-
-export const getDiscoveryPercentage = (): number => {
-  const discovered = getDiscoveredHeroes();
-  return Math.round((discovered.size / TOTAL_HEROES) * 100);
-};
-
 interface DiscoveryTrackerProps {
   discoveredCount: number;
   newDiscovery: boolean;
+  /** Heroes on the roster, or undefined while it is loading */
+  totalHeroes: number | undefined;
 }
 
 export const DiscoveryTracker: React.FC<DiscoveryTrackerProps> = ({
   discoveredCount,
   newDiscovery,
+  totalHeroes,
 }) => {
-  const percentage = Math.round((discoveredCount / TOTAL_HEROES) * 100);
+  const percentage = totalHeroes ? Math.min(100, Math.round((discoveredCount / totalHeroes) * 100)) : 0;
 
   return (
     <div className="card-brutal p-3">
@@ -81,7 +30,7 @@ export const DiscoveryTracker: React.FC<DiscoveryTrackerProps> = ({
           {discoveredCount}
         </span>
         <span className="font-mono text-sm text-smoke">
-          / {TOTAL_HEROES}
+          / {totalHeroes ?? "-"}
         </span>
       </div>
 
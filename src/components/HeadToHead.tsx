@@ -0,0 +1,74 @@
+import React from "react";
+import type { HeadToHeadRecord } from "../backend/headToHead";
+
+export interface HeadToHeadProps {
+  title: string;
+  heroAName: string;
+  heroBName: string;
+  record: HeadToHeadRecord | undefined;
+  isLoading: boolean;
+}
+
+/**
+ * Formats a SQLite UTC timestamp ("YYYY-MM-DD HH:MM:SS") as a local date.
+ */
+const formatMeetingDate = (timestamp: string): string =>
+  new Date(`${timestamp.replace(" ", "T")}Z`).toLocaleDateString();
+
+/**
+ * Head-to-head record between two heroes with their current win odds.
+ */
+export const HeadToHead: React.FC<HeadToHeadProps> = ({
+  title,
+  heroAName,
+  heroBName,
+  record,
+  isLoading,
+}) => {
+  if (isLoading || !record) {
+    return (
+      <div className="card-brutal p-3">
+        <div className="text-label mb-2">{title}</div>
+        <div className="skeleton h-4 w-full" />
+      </div>
+    );
+  }
+
+  const oddsA = Math.round(record.heroA.winProbability * 100);
+
+  return (
+    <div className="card-brutal p-3">
+      <div className="text-label mb-2">{title}</div>
+
+      {/* Record */}
+      <div className="flex items-center justify-between gap-2 font-mono text-sm">
+        <span className="font-bold truncate">{heroAName}</span>
+        <span className="flex-shrink-0">
+          <span className="text-green-400 font-bold">{record.heroA.wins}</span>
+          <span className="text-smoke"> - </span>
+          <span className="text-signal font-bold">{record.heroB.wins}</span>
+          {record.draws > 0 && <span className="text-smoke"> ({record.draws}D)</span>}
+        </span>
+        <span className="font-bold truncate text-right">{heroBName}</span>
+      </div>
+
+      {/* Win probability */}
+      <div className="rating-bar mt-2" title={`${heroAName} ${oddsA}% / ${heroBName} ${100 - oddsA}%`}>
+        <div className="rating-bar-fill-navy" style={{ width: `${oddsA}%` }} />
+      </div>
+      <div className="flex justify-between font-mono text-[10px] text-smoke mt-1">
+        <span>{oddsA}% TO WIN</span>
+        <span>{100 - oddsA}% TO WIN</span>
+      </div>
+
+      {/* Meetings */}
+      <p className="font-mono text-xs text-smoke mt-2">
+        {record.meetings === 0 || !record.firstMeeting || !record.lastMeeting
+          ? "First meeting"
+          : `${record.meetings} meeting${record.meetings !== 1 ? "s" : ""} · first ${formatMeetingDate(
+              record.firstMeeting
+            )} · last ${formatMeetingDate(record.lastMeeting)}`}
+      </p>
+    </div>
+  );
+};
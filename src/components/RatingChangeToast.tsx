@@ -8,18 +8,30 @@ export interface RatingChangeData {
   loserChange: number;
   winnerNewRating: number;
   loserNewRating: number;
+  /** True when the vote was a draw, so neither side is shown as the winner */
+  isDraw?: boolean;
 }
 
+/** Formats a rating change with an explicit sign, e.g. +12 or -4 */
+const formatChange = (change: number): string => (change > 0 ? `+${change}` : `${change}`);
+
 interface RatingChangeToastProps {
   data: RatingChangeData | null;
   onClose: () => void;
   duration?: number;
+  /** Called when the Undo button is clicked; the button is hidden when omitted */
+  onUndo?: () => void;
+  isUndoing?: boolean;
+  undoError?: string | null;
 }
 
 export const RatingChangeToast: React.FC<RatingChangeToastProps> = ({
   data,
   onClose,
   duration = 4000,
+  onUndo,
+  isUndoing = false,
+  undoError = null,
 }) => {
   useEffect(() => {
     if (data) {
@@ -45,7 +57,7 @@ export const RatingChangeToast: React.FC<RatingChangeToastProps> = ({
             {/* Header */}
             <div className="bg-ink text-paper px-3 py-1 flex items-center justify-between">
               <span className="font-display text-xs font-bold uppercase">
-                RATING UPDATE
+                {data.isDraw ? "DRAW" : "RATING UPDATE"}
               </span>
               <button
                 onClick={onClose}
@@ -61,14 +73,14 @@ export const RatingChangeToast: React.FC<RatingChangeToastProps> = ({
               {/* Winner */}
               <div className="flex items-center justify-between font-mono text-sm">
                 <div className="flex items-center gap-2">
-                  <span className="w-2 h-2 bg-green-500" />
+                  <span className={`w-2 h-2 ${data.isDraw ? "bg-smoke" : "bg-green-500"}`} />
                   <span className="font-bold truncate max-w-[120px]">
                     {data.winnerName}
                   </span>
                 </div>
                 <div className="flex items-center gap-2">
-                  <span className="text-green-400 font-bold">
-                    +{data.winnerChange}
+                  <span className={`${data.winnerChange < 0 ? "text-signal" : "text-green-400"} font-bold`}>
+                    {formatChange(data.winnerChange)}
                   </span>
                   <span className="text-smoke text-xs">
                     {data.winnerNewRating}
@@ -82,20 +94,36 @@ export const RatingChangeToast: React.FC<RatingChangeToastProps> = ({
               {/* Loser */}
               <div className="flex items-center justify-between font-mono text-sm">
                 <div className="flex items-center gap-2">
-                  <span className="w-2 h-2 bg-signal" />
+                  <span className={`w-2 h-2 ${data.isDraw ? "bg-smoke" : "bg-signal"}`} />
                   <span className="font-bold truncate max-w-[120px]">
                     {data.loserName}
                   </span>
                 </div>
                 <div className="flex items-center gap-2">
-                  <span className="text-signal font-bold">
-                    {data.loserChange}
+                  <span className={`${data.loserChange > 0 ? "text-green-400" : "text-signal"} font-bold`}>
+                    {formatChange(data.loserChange)}
                   </span>
                   <span className="text-smoke text-xs">
                     {data.loserNewRating}
                   </span>
                 </div>
               </div>
+
+              {/* Undo */}
+              {(onUndo || undoError) && (
+                <div className="flex items-center justify-between gap-2 pt-1">
+                  <span className="font-mono text-[10px] text-signal">{undoError}</span>
+                  {onUndo && (
+                    <button
+                      onClick={onUndo}
+                      disabled={isUndoing}
+                      className="btn-brutal text-xs disabled:opacity-50"
+                    >
+                      {isUndoing ? "UNDOING..." : "UNDO"}
+                    </button>
+                  )}
+                </div>
+              )}
             </div>
 
             {/* Progress bar */}
@@ -0,0 +1,76 @@
+import React from "react";
+
+export interface RatingChartProps {
+  /** Ratings in chronological order */
+  ratings: number[];
+  /** Rating drawn as a dashed reference line (default: 1500) */
+  baseline?: number;
+  height?: number;
+}
+
+const WIDTH = 600;
+const PADDING = 8;
+
+/**
+ * Rating-over-time line chart drawn as a plain SVG.
+ * Scales to the container width; the y-axis spans the rating range plus the baseline.
+ */
+export const RatingChart: React.FC<RatingChartProps> = ({
+  ratings,
+  baseline = 1500,
+  height = 180,
+}) => {
+  if (ratings.length < 2) {
+    return (
+      <div
+        className="border-2 border-ink bg-concrete/30 flex items-center justify-center"
+        style={{ height }}
+      >
+        <span className="font-mono text-xs text-smoke">Not enough games to chart</span>
+      </div>
+    );
+  }
+
+  const min = Math.min(baseline, ...ratings);
+  const max = Math.max(baseline, ...ratings);
+  const range = Math.max(max - min, 1);
+
+  const x = (index: number) => PADDING + (index / (ratings.length - 1)) * (WIDTH - PADDING * 2);
+  const y = (rating: number) => PADDING + ((max - rating) / range) * (height - PADDING * 2);
+
+  const points = ratings.map((rating, index) => `${x(index)},${y(rating)}`).join(" ");
+  const last = ratings[ratings.length - 1] ?? baseline;
+
+  return (
+    <div className="border-2 border-ink bg-concrete/30 relative">
+      <svg
+        viewBox={`0 0 ${WIDTH} ${height}`}
+        preserveAspectRatio="none"
+        className="w-full block"
+        style={{ height }}
+        role="img"
+        aria-label={`Rating over ${ratings.length - 1} games, from ${ratings[0]} to ${last}`}
+      >
+        <line
+          x1={PADDING}
+          x2={WIDTH - PADDING}
+          y1={y(baseline)}
+          y2={y(baseline)}
+          stroke="#888888"
+          strokeDasharray="4 4"
+          vectorEffect="non-scaling-stroke"
+        />
+        <polyline
+          points={points}
+          fill="none"
+          stroke="#E63946"
+          strokeWidth={2}
+          strokeLinejoin="round"
+          vectorEffect="non-scaling-stroke"
+        />
+      </svg>
+      <span className="absolute top-1 left-2 font-mono text-[10px] text-smoke">{Math.round(max)}</span>
+      <span className="absolute bottom-1 left-2 font-mono text-[10px] text-smoke">{Math.round(min)}</span>
+    </div>
+  );
+};
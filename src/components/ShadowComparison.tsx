@@ -0,0 +1,86 @@
+import React from "react";
+import type { ShadowComparison as ShadowComparisonData } from "../backend/shadowRatings";
+import type { RatingEngineName } from "../backend/ratingEngine";
+
+export interface ShadowComparisonProps {
+  comparisons: ShadowComparisonData[] | undefined;
+  isLoading: boolean;
+  /** Engine behind the primary ranking the systems are compared with */
+  ratingEngine: RatingEngineName;
+}
+
+const formatPercent = (value: number | null): string => (value === null ? "-" : `${(value * 100).toFixed(1)}%`);
+
+/**
+ * Shadow rating systems side by side with the primary ranking.
+ */
+export const ShadowComparison: React.FC<ShadowComparisonProps> = ({ comparisons, isLoading, ratingEngine }) => {
+  if (isLoading || !comparisons) {
+    return (
+      <div className="card-brutal p-3">
+        <div className="skeleton h-4 w-full" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid gap-3 md:grid-cols-2">
+      {comparisons.map((system) => (
+        <div key={system.systemId} className="card-brutal p-3 font-mono text-xs">
+          <div className="flex justify-between items-baseline gap-2 mb-2">
+            <span className="text-label">{system.systemId}</span>
+            <span className="text-smoke truncate">{system.description}</span>
+          </div>
+
+          {system.heroesCompared === 0 ? (
+            <p className="text-smoke">No votes since this system was added</p>
+          ) : (
+            <>
+              <div className="grid grid-cols-3 gap-2 mb-2">
+                <div>
+                  <div className="text-smoke text-[10px]">KENDALL TAU</div>
+                  <div className="font-bold">{system.kendallTau === null ? "-" : system.kendallTau.toFixed(3)}</div>
+                </div>
+                <div>
+                  <div className="text-smoke text-[10px]">AVG RANK DIFF</div>
+                  <div className="font-bold">{system.meanRankDifference.toFixed(1)}</div>
+                </div>
+                <div>
+                  <div className="text-smoke text-[10px]">HEROES</div>
+                  <div className="font-bold">{system.heroesCompared}</div>
+                </div>
+              </div>
+
+              {/* Prediction accuracy on the same votes */}
+              <div className="mb-2">
+                <div className="text-smoke text-[10px]">
+                  PICKED THE WINNER ({system.votesCompared} VOTE{system.votesCompared !== 1 ? "S" : ""})
+                </div>
+                <div>
+                  <span className="font-bold">{formatPercent(system.shadowAccuracy)}</span>
+                  <span className="text-smoke">
+                    {" "}
+                    vs {ratingEngine === "glicko2" ? "GLICKO-2" : "ELO"} {formatPercent(system.primaryAccuracy)}
+                  </span>
+                </div>
+              </div>
+
+              {/* Biggest disagreements */}
+              <div className="text-smoke text-[10px]">BIGGEST RANK DIFFERENCES</div>
+              <ul>
+                {system.biggestDifferences.map((hero) => (
+                  <li key={hero.heroId} className="flex justify-between gap-2">
+                    <span className="truncate">{hero.heroName}</span>
+                    <span className="flex-shrink-0">
+                      #{hero.primaryRank} → #{hero.shadowRank}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,74 @@
+import React from "react";
+import Link from "next/link";
+import type { Mover, MoversFeed } from "../backend/movers";
+
+export interface TrendingHeroesProps {
+  feed: MoversFeed | undefined;
+  isLoading: boolean;
+  /** Only rating risers and fallers, three each (for the voting page) */
+  compact?: boolean;
+}
+
+const COMPACT_LIMIT = 3;
+
+const formatSigned = (value: number): string => (value > 0 ? `+${value}` : String(value));
+
+const MoverList: React.FC<{
+  title: string;
+  movers: Mover[];
+  /** Change shown next to each hero */
+  change: (mover: Mover) => string;
+  positive: boolean;
+}> = ({ title, movers, change, positive }) => (
+  <div>
+    <div className="text-label mb-1">{title}</div>
+    {movers.length === 0 ? (
+      <p className="font-mono text-xs text-smoke">-</p>
+    ) : (
+      <ul className="font-mono text-xs space-y-0.5">
+        {movers.map((mover) => (
+          <li key={mover.heroId} className="flex justify-between gap-2">
+            <Link href={`/hero/${mover.heroId}`}>
+              <span className="truncate hover:underline">{mover.heroName || `Hero #${mover.heroId}`}</span>
+            </Link>
+            <span className={`flex-shrink-0 font-bold ${positive ? "text-green-400" : "text-signal"}`}>{change(mover)}</span>
+          </li>
+        ))}
+      </ul>
+    )}
+  </div>
+);
+
+/**
+ * Heroes whose rating or rank moved the most over a recent window.
+ */
+export const TrendingHeroes: React.FC<TrendingHeroesProps> = ({ feed, isLoading, compact = false }) => {
+  if (isLoading || !feed) {
+    return (
+      <div className="card-brutal p-3">
+        <div className="skeleton h-4 w-full" />
+      </div>
+    );
+  }
+
+  const ratingChange = (mover: Mover) => formatSigned(mover.ratingChange);
+  const rankChange = (mover: Mover) => `${formatSigned(mover.rankChange ?? 0)} → #${mover.rankNow}`;
+
+  if (compact) {
+    return (
+      <div className="card-brutal p-3 grid grid-cols-2 gap-3">
+        <MoverList title="RISING" movers={feed.risers.slice(0, COMPACT_LIMIT)} change={ratingChange} positive />
+        <MoverList title="FALLING" movers={feed.fallers.slice(0, COMPACT_LIMIT)} change={ratingChange} positive={false} />
+      </div>
+    );
+  }
+
+  return (
+    <div className="card-brutal p-3 grid grid-cols-2 md:grid-cols-4 gap-3">
+      <MoverList title="BIGGEST GAINS" movers={feed.risers} change={ratingChange} positive />
+      <MoverList title="BIGGEST DROPS" movers={feed.fallers} change={ratingChange} positive={false} />
+      <MoverList title="CLIMBING" movers={feed.climbers} change={rankChange} positive />
+      <MoverList title="SLIDING" movers={feed.sliders} change={rankChange} positive={false} />
+    </div>
+  );
+};
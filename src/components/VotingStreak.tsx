@@ -1,95 +1,4 @@
-import { useEffect, useState } from "react";
-
-export interface StreakData {
-  currentStreak: number;
-  longestStreak: number;
-  lastVoteDate: string | null;
-  votedToday: boolean;
-}
-
-const STREAK_KEY = "heroRankStreak";
-
-const getTodayDate = (): string => {
-  const today = new Date();
-  return today.toISOString().split("T")[0] as string;
-};
-
-const getYesterdayDate = (): string => {
-  const yesterday = new Date();
-  yesterday.setDate(yesterday.getDate() - 1);
-  return yesterday.toISOString().split("T")[0] as string;
-};
-
-export const getStreakData = (): StreakData => {
-  if (typeof window === "undefined") {
-    return {
-      currentStreak: 0,
-      longestStreak: 0,
-      lastVoteDate: null,
-      votedToday: false,
-    };
-  }
-
-  const stored = localStorage.getItem(STREAK_KEY);
-  if (!stored) {
-    return {
-      currentStreak: 0,
-      longestStreak: 0,
-      lastVoteDate: null,
-      votedToday: false,
-    };
-  }
-
-  try {
-    const parsed = JSON.parse(stored) as StreakData;
-    if (parsed.lastVoteDate !== getTodayDate()) {
-      parsed.votedToday = false;
-    }
-    return parsed;
-  } catch {
-    return {
-      currentStreak: 0,
-      longestStreak: 0,
-      lastVoteDate: null,
-      votedToday: false,
-    };
-  }
-};
-
-export const updateStreak = (): StreakData => {
-  const currentData = getStreakData();
-  const today = getTodayDate();
-  const yesterday = getYesterdayDate();
-
-  if (currentData.lastVoteDate === today) {
-    return currentData;
-  }
-
-  let newStreakData: StreakData;
-
-  if (currentData.lastVoteDate === yesterday) {
-    const newStreak = currentData.currentStreak + 1;
-    newStreakData = {
-      currentStreak: newStreak,
-      longestStreak: Math.max(newStreak, currentData.longestStreak),
-      lastVoteDate: today,
-      votedToday: true,
-    };
-  } else {
-    newStreakData = {
-      currentStreak: 1,
-      longestStreak: Math.max(1, currentData.longestStreak),
-      lastVoteDate: today,
-      votedToday: true,
-    };
-  }
-
-  if (typeof window !== "undefined") {
-    localStorage.setItem(STREAK_KEY, JSON.stringify(newStreakData));
-  }
-
-  return newStreakData;
-};
+import type { StreakData } from "../backend/voters";
 
 interface VotingStreakProps {
   streakData: StreakData;
@@ -9,6 +9,15 @@ export const serverSchema = z.object({
   NODE_ENV: z.enum(["development", "test", "production"]),
   TURSO_DB_URL: z.string().optional(),
   TURSO_AUTH_TOKEN: z.string().optional(),
+  TOKEN_SIGNING_SECRET: z.string().optional(),
+  MATCHMAKING_EXPLORATION: z.string().optional(),
+  MATCHMAKING_RATING_FOCUS: z.string().optional(),
+  RATING_ENGINE: z.enum(["elo", "glicko2"]).optional(),
+  GLICKO2_RATING_PERIOD_DAYS: z.string().optional(),
+  GLICKO2_TAU: z.string().optional(),
+  HERO_DATA_PROVIDER: z.enum(["superheroapi", "akabab", "fixture"]).optional(),
+  SUPERHERO_API_KEY: z.string().optional(),
+  HERO_DATA_FIXTURE_PATH: z.string().optional(),
 });
 
 /**
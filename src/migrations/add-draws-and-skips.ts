@@ -0,0 +1,46 @@
+import { turso } from '../utils/turso';
+
+/**
+ * Add draw and skip columns
+ *
+ * - heroRatings.draws: draws per hero (games = wins + losses + draws)
+ * - votes.outcome: 'win' when voted_for beat voted_against, 'draw' when neither won
+ * - matchups.skipped_at: when the voter skipped the matchup without voting
+ *
+ * Existing rows get 0 draws, a 'win' outcome and no skip, which is what they were.
+ *
+ * Run with: npx tsx src/migrations/add-draws-and-skips.ts
+ */
+
+const COLUMNS = [
+  { table: 'heroRatings', column: 'draws', definition: 'INTEGER NOT NULL DEFAULT 0' },
+  { table: 'votes', column: 'outcome', definition: "TEXT NOT NULL DEFAULT 'win'" },
+  { table: 'matchups', column: 'skipped_at', definition: 'TEXT' },
+];
+
+async function addDrawAndSkipColumns() {
+  console.log('Adding draw and skip columns...');
+
+  try {
+    for (const { table, column, definition } of COLUMNS) {
+      // Check if column already exists
+      const tableInfo = await turso.execute(`PRAGMA table_info(${table})`);
+      const hasColumn = tableInfo.rows.some((row: any) => row.name === column);
+
+      if (hasColumn) {
+        console.log(`Column ${table}.${column} already exists, skipping.`);
+        continue;
+      }
+
+      await turso.execute(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+      console.log(`Successfully added ${table}.${column}`);
+    }
+
+    console.log('\nMigration completed successfully!');
+  } catch (error) {
+    console.error('Migration failed:', error);
+    process.exit(1);
+  }
+}
+
+addDrawAndSkipColumns().catch(console.error);
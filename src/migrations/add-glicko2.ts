@@ -0,0 +1,110 @@
+import { turso, withWriteTransaction } from '../utils/turso';
+import { RatingsMap, replayMatch } from '../utils/ratingReplay';
+import type { MatchOutcome } from '../utils/elo';
+import { GLICKO2_CONFIG } from '../backend/ratingEngine';
+import { parseTimestamp } from '../backend/standings';
+
+/**
+ * Add Glicko-2 columns to heroRatings and votes
+ *
+ * - glicko_rating / glicko_rd / glicko_volatility: the hero's Glicko-2 state
+ * - glicko_updated_at: epoch ms of the hero's last game, used to grow the deviation over idle rating periods
+ * - votes.glicko_expected_score: Glicko-2's pre-vote win probability for the hero voted for
+ *
+ * After adding the columns, every vote that wasn't undone is replayed in order
+ * to fill them in. Only the Glicko-2 columns are written; Elo ratings are left alone,
+ * so the script can be re-run (for example after changing GLICKO2_RATING_PERIOD_DAYS).
+ *
+ * Run with: npx tsx src/migrations/add-glicko2.ts
+ */
+
+const COLUMNS = [
+  { column: 'glicko_rating', definition: 'REAL NOT NULL DEFAULT 1500' },
+  { column: 'glicko_rd', definition: 'REAL NOT NULL DEFAULT 350' },
+  { column: 'glicko_volatility', definition: 'REAL NOT NULL DEFAULT 0.06' },
+  { column: 'glicko_updated_at', definition: 'INTEGER' },
+];
+
+const BATCH_SIZE = 500;
+
+interface VoteRow {
+  id: number;
+  voted_for: number;
+  voted_against: number;
+  outcome: MatchOutcome;
+  created_at: string;
+}
+
+async function addGlicko2() {
+  console.log('Adding Glicko-2 columns to heroRatings...');
+
+  try {
+    const tableInfo = await turso.execute('PRAGMA table_info(heroRatings)');
+    for (const { column, definition } of COLUMNS) {
+      const hasColumn = tableInfo.rows.some((row: any) => row.name === column);
+      if (hasColumn) {
+        console.log(`Column ${column} already exists, skipping.`);
+        continue;
+      }
+
+      await turso.execute(`ALTER TABLE heroRatings ADD COLUMN ${column} ${definition}`);
+      console.log(`Successfully added ${column}`);
+    }
+
+    const voteInfo = await turso.execute('PRAGMA table_info(votes)');
+    if (voteInfo.rows.some((row: any) => row.name === 'glicko_expected_score')) {
+      console.log('Column glicko_expected_score already exists, skipping.');
+    } else {
+      await turso.execute('ALTER TABLE votes ADD COLUMN glicko_expected_score REAL');
+      console.log('Successfully added glicko_expected_score');
+    }
+
+    console.log('\nReplaying votes to fill in Glicko-2 ratings...');
+    const result = await turso.execute(
+      'SELECT id, voted_for, voted_against, outcome, created_at FROM votes WHERE retracted_at IS NULL ORDER BY created_at, id'
+    );
+    const votes = result.rows as unknown as VoteRow[];
+
+    const ratings: RatingsMap = new Map();
+    const predictions: Array<{ sql: string; args: number[] }> = [];
+    for (const vote of votes) {
+      const winnerId = Number(vote.voted_for);
+      const loserId = Number(vote.voted_against);
+      if (winnerId === loserId) continue;
+
+      const { glickoExpectedScore } = replayMatch(ratings, winnerId, loserId, {}, vote.outcome, {
+        playedAt: parseTimestamp(vote.created_at),
+        config: GLICKO2_CONFIG,
+      });
+      predictions.push({
+        sql: 'UPDATE votes SET glicko_expected_score = ? WHERE id = ?',
+        args: [glickoExpectedScore, Number(vote.id)],
+      });
+    }
+
+    const ratingStatements = Array.from(ratings.values()).map((state) => ({
+      sql: `
+        UPDATE heroRatings
+        SET glicko_rating = ?, glicko_rd = ?, glicko_volatility = ?, glicko_updated_at = ?
+        WHERE hero_id = ?
+      `,
+      args: [state.glickoRating, state.glickoDeviation, state.glickoVolatility, state.glickoUpdatedAt, state.heroId],
+    }));
+
+    const statements = [...ratingStatements, ...predictions];
+    await withWriteTransaction(async (tx) => {
+      for (let i = 0; i < statements.length; i += BATCH_SIZE) {
+        await tx.batch(statements.slice(i, i + BATCH_SIZE));
+      }
+    });
+
+    console.log(`  Votes replayed: ${votes.length}`);
+    console.log(`  Heroes updated: ${ratings.size}`);
+    console.log('\nMigration completed successfully!');
+  } catch (error) {
+    console.error('Migration failed:', error);
+    process.exit(1);
+  }
+}
+
+addGlicko2().catch(console.error);
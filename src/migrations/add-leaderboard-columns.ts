@@ -0,0 +1,74 @@
+import { turso, withWriteTransaction } from '../utils/turso';
+import { trueSkillEstimate, wilsonScore } from '../utils/wilsonScore';
+
+/**
+ * Add leaderboard sort columns and indexes to heroRatings
+ *
+ * - wilson_score: lower bound of the Wilson interval on the hero's win rate
+ * - true_skill: Elo blended with the Wilson score (trueSkillEstimate)
+ *
+ * Both are derived from columns heroRatings already has, so they are stored
+ * only to let the leaderboard sort and paginate on them with an index. Every
+ * row is backfilled, so the script can be re-run after fixing up wins or games.
+ *
+ * Run with: npx tsx src/migrations/add-leaderboard-columns.ts
+ */
+
+const COLUMNS = [
+  { column: 'wilson_score', definition: 'REAL NOT NULL DEFAULT 0' },
+  { column: 'true_skill', definition: 'REAL NOT NULL DEFAULT 0' },
+];
+
+/** heroRatings columns the leaderboard can sort by */
+const LEADERBOARD_SORT_COLUMNS = ['rating', 'glicko_rating', 'win_rate', 'games', 'wilson_score', 'true_skill'];
+
+const BATCH_SIZE = 500;
+
+async function addLeaderboardColumns() {
+  console.log('Adding leaderboard columns to heroRatings...');
+
+  try {
+    const tableInfo = await turso.execute('PRAGMA table_info(heroRatings)');
+    for (const { column, definition } of COLUMNS) {
+      const hasColumn = tableInfo.rows.some((row: any) => row.name === column);
+      if (hasColumn) {
+        console.log(`Column ${column} already exists, skipping.`);
+        continue;
+      }
+
+      await turso.execute(`ALTER TABLE heroRatings ADD COLUMN ${column} ${definition}`);
+      console.log(`Successfully added ${column}`);
+    }
+
+    console.log('\nBackfilling Wilson scores and true skill estimates...');
+    const result = await turso.execute('SELECT hero_id, rating, wins, games FROM heroRatings');
+    const statements = result.rows.map((row) => {
+      const wins = Number(row.wins);
+      const games = Number(row.games);
+      return {
+        sql: 'UPDATE heroRatings SET wilson_score = ?, true_skill = ? WHERE hero_id = ?',
+        args: [wilsonScore(wins, games), trueSkillEstimate(Number(row.rating), wins, games), Number(row.hero_id)],
+      };
+    });
+
+    await withWriteTransaction(async (tx) => {
+      for (let i = 0; i < statements.length; i += BATCH_SIZE) {
+        await tx.batch(statements.slice(i, i + BATCH_SIZE));
+      }
+    });
+    console.log(`  Heroes updated: ${statements.length}`);
+
+    console.log('\nCreating leaderboard indexes...');
+    for (const column of LEADERBOARD_SORT_COLUMNS) {
+      await turso.execute(`CREATE INDEX IF NOT EXISTS idx_heroRatings_${column} ON heroRatings (${column}, hero_id)`);
+    }
+    await turso.execute('CREATE INDEX IF NOT EXISTS idx_hero_bt_strengths_rating ON hero_bt_strengths (rating, hero_id)');
+
+    console.log('\nMigration completed successfully!');
+  } catch (error) {
+    console.error('Migration failed:', error);
+    process.exit(1);
+  }
+}
+
+addLeaderboardColumns().catch(console.error);
@@ -0,0 +1,51 @@
+import { turso } from '../utils/turso';
+
+/**
+ * Add votes.expected_score
+ *
+ * Stores Elo's pre-vote win probability for the hero voted for, so prediction
+ * accuracy (log-loss, Brier score) can be tracked over time.
+ *
+ * Existing votes are backfilled from rating_history, which has recorded the same
+ * expected score since it was added. Votes without a history entry stay NULL and
+ * are left out of the accuracy metrics.
+ *
+ * Run with: npx tsx src/migrations/add-vote-predictions.ts
+ */
+
+async function addVotePredictions() {
+  console.log('Adding expected_score column to votes...');
+
+  try {
+    const tableInfo = await turso.execute('PRAGMA table_info(votes)');
+    const hasColumn = tableInfo.rows.some((row: any) => row.name === 'expected_score');
+
+    if (hasColumn) {
+      console.log('Column expected_score already exists, skipping.');
+    } else {
+      await turso.execute('ALTER TABLE votes ADD COLUMN expected_score REAL');
+      console.log('Successfully added expected_score');
+    }
+
+    console.log('\nBackfilling from rating_history...');
+    const countMissing = async () =>
+      Number((await turso.execute('SELECT COUNT(*) AS count FROM votes WHERE expected_score IS NULL')).rows[0]?.count ?? 0);
+    const missingBefore = await countMissing();
+    await turso.execute(`
+      UPDATE votes SET expected_score = (
+        SELECT rh.expected_score FROM rating_history rh
+        WHERE rh.vote_id = votes.id AND rh.hero_id = votes.voted_for
+      )
+      WHERE expected_score IS NULL
+    `);
+    const missingAfter = await countMissing();
+    console.log(`Backfilled ${missingBefore - missingAfter} votes (${missingAfter} have no prediction)`);
+
+    console.log('\nMigration completed successfully!');
+  } catch (error) {
+    console.error('Migration failed:', error);
+    process.exit(1);
+  }
+}
+
+addVotePredictions().catch(console.error);
@@ -0,0 +1,46 @@
+import { turso } from '../utils/turso';
+
+/**
+ * Add retracted_at column to votes table
+ *
+ * Undone votes stay in the votes table with retracted_at set, and every
+ * query over votes skips them. Existing votes keep a NULL retracted_at.
+ * The vote_undo_snapshots table is created by init-schema.
+ *
+ * Run with: npx tsx src/migrations/add-vote-retraction.ts
+ */
+
+async function addVoteRetractionColumn() {
+  console.log('Adding retracted_at column to votes table...');
+
+  try {
+    // Check if column already exists
+    const tableInfo = await turso.execute(`PRAGMA table_info(votes)`);
+    const hasRetractedAt = tableInfo.rows.some((row: any) => row.name === 'retracted_at');
+
+    if (hasRetractedAt) {
+      console.log('Column retracted_at already exists, skipping migration.');
+      return;
+    }
+
+    await turso.execute(`
+      ALTER TABLE votes ADD COLUMN retracted_at TEXT
+    `);
+
+    console.log('Successfully added retracted_at column to votes table');
+
+    // Verify column was added
+    const verifyResult = await turso.execute(`PRAGMA table_info(votes)`);
+    console.log('\nCurrent votes table schema:');
+    verifyResult.rows.forEach((row: any) => {
+      console.log(`  - ${row.name} (${row.type})`);
+    });
+
+    console.log('\nMigration completed successfully!');
+  } catch (error) {
+    console.error('Migration failed:', error);
+    process.exit(1);
+  }
+}
+
+addVoteRetractionColumn().catch(console.error);
@@ -0,0 +1,37 @@
+import { turso } from '../utils/turso';
+
+/**
+ * Add votes.voter_id
+ *
+ * Links each vote to the anonymous voter session it was cast from. Votes cast
+ * before sessions existed keep a NULL voter_id. The `voters` and
+ * `voter_discoveries` tables themselves are created by init-schema.
+ *
+ * Run with: npx tsx src/migrations/add-voter-sessions.ts
+ */
+
+async function addVoterSessions() {
+  console.log('Adding voter_id column to votes...');
+
+  try {
+    const tableInfo = await turso.execute('PRAGMA table_info(votes)');
+    const hasColumn = tableInfo.rows.some((row: any) => row.name === 'voter_id');
+
+    if (hasColumn) {
+      console.log('Column voter_id already exists, skipping.');
+    } else {
+      await turso.execute('ALTER TABLE votes ADD COLUMN voter_id TEXT');
+      console.log('Successfully added voter_id');
+    }
+
+    await turso.execute('CREATE INDEX IF NOT EXISTS idx_votes_voter_id ON votes (voter_id)');
+    console.log('Created index idx_votes_voter_id');
+
+    console.log('\nMigration completed successfully!');
+  } catch (error) {
+    console.error('Migration failed:', error);
+    process.exit(1);
+  }
+}
+
+addVoterSessions().catch(console.error);
@@ -1,9 +1,10 @@
 import { turso } from '../utils/turso';
+import { getHeroDataProvider } from '../backend/heroDataProvider';
 
 /**
  * Backfill hero names for existing heroes in the database
  *
- * This script fetches hero names from the SuperHero API for heroes
+ * This script fetches hero names from the configured hero data provider for heroes
  * that don't have names stored yet, using batched requests to avoid rate limiting.
  *
  * Run with: npx tsx src/migrations/backfill-hero-names.ts
@@ -43,10 +44,7 @@ async function backfillHeroNames() {
       await Promise.all(
         batch.map(async (heroId) => {
           try {
-            const res = await fetch(
-              `https://www.superheroapi.com/api.php/2422583714549928/${heroId}`
-            );
-            const data = await res.json();
+            const data = await getHeroDataProvider().getHero(heroId);
             const name = data.name || null;
 
             if (name) {
@@ -0,0 +1,99 @@
+import { turso, withWriteTransaction } from '../utils/turso';
+import { RatingsMap, replayMatch } from '../utils/ratingReplay';
+import type { MatchOutcome } from '../utils/elo';
+
+/**
+ * Backfill rating_history from the votes table
+ *
+ * Replays every vote that wasn't undone in chronological order with the default Elo config and
+ * rebuilds the rating_history table from scratch. Existing history rows are
+ * replaced, so the script can be safely re-run.
+ *
+ * The rebuilt history matches heroRatings as long as heroRatings was itself
+ * produced by these votes under the current Elo config.
+ *
+ * Run with: npx tsx src/migrations/backfill-rating-history.ts
+ */
+
+const BATCH_SIZE = 500;
+
+interface VoteRow {
+  id: number;
+  voted_for: number;
+  voted_against: number;
+  outcome: MatchOutcome;
+  created_at: string;
+}
+
+async function backfillRatingHistory() {
+  console.log('Fetching votes...');
+
+  try {
+    const result = await turso.execute({
+      sql: 'SELECT id, voted_for, voted_against, outcome, created_at FROM votes WHERE retracted_at IS NULL ORDER BY created_at, id',
+      args: [],
+    });
+
+    const votes = result.rows as unknown as VoteRow[];
+    console.log(`Found ${votes.length} votes`);
+
+    const ratings: RatingsMap = new Map();
+    const statements: Array<{ sql: string; args: Array<string | number> }> = [];
+    let skipped = 0;
+
+    for (const vote of votes) {
+      const winnerId = Number(vote.voted_for);
+      const loserId = Number(vote.voted_against);
+
+      if (winnerId === loserId) {
+        skipped++;
+        continue;
+      }
+
+      const { winnerStep, loserStep } = replayMatch(ratings, winnerId, loserId, {}, vote.outcome);
+
+      for (const step of [winnerStep, loserStep]) {
+        statements.push({
+          sql: `
+            INSERT INTO rating_history
+            (vote_id, hero_id, opponent_id, result, rating_before, rating_after, k_factor, expected_score, created_at)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+          `,
+          args: [
+            Number(vote.id),
+            step.heroId,
+            step.opponentId,
+            step.result,
+            step.ratingBefore,
+            step.ratingAfter,
+            step.kFactor,
+            step.expectedScore,
+            vote.created_at,
+          ],
+        });
+      }
+    }
+
+    console.log(`Writing ${statements.length} history rows...`);
+
+    // Replace the whole table in one transaction so readers never see a partial history
+    await withWriteTransaction(async (tx) => {
+      await tx.execute('DELETE FROM rating_history');
+
+      for (let i = 0; i < statements.length; i += BATCH_SIZE) {
+        await tx.batch(statements.slice(i, i + BATCH_SIZE));
+        console.log(`  Wrote ${Math.min(i + BATCH_SIZE, statements.length)}/${statements.length}`);
+      }
+    });
+
+    console.log('\nBackfill complete!');
+    console.log(`  Votes replayed: ${votes.length - skipped}`);
+    console.log(`  Invalid votes skipped: ${skipped}`);
+    console.log(`  Heroes with history: ${ratings.size}`);
+  } catch (error) {
+    console.error('Backfill failed:', error);
+    process.exit(1);
+  }
+}
+
+backfillRatingHistory().catch(console.error);
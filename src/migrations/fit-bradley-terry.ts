@@ -0,0 +1,79 @@
+import { turso, withWriteTransaction } from '../utils/turso';
+import { fitBradleyTerry, Comparison, ELO_PER_LOG_STRENGTH } from '../utils/bradleyTerry';
+import type { MatchOutcome } from '../utils/elo';
+
+/**
+ * Fit Bradley-Terry strengths to the full vote log
+ *
+ * Fits every vote that wasn't undone at once (see src/utils/bradleyTerry.ts) and
+ * replaces the hero_bt_strengths table with the result. Vote order doesn't matter,
+ * so re-running on the same votes gives the same strengths.
+ *
+ * Run periodically (e.g. from a cron job); the rankings page picks up the new
+ * strengths on its next revalidation.
+ *
+ * Run with: npx tsx src/migrations/fit-bradley-terry.ts
+ */
+
+const BATCH_SIZE = 500;
+
+interface VoteRow {
+  voted_for: number;
+  voted_against: number;
+  outcome: MatchOutcome;
+}
+
+async function fitStrengths() {
+  console.log('Fetching votes...');
+
+  try {
+    const result = await turso.execute(
+      'SELECT voted_for, voted_against, outcome FROM votes WHERE retracted_at IS NULL'
+    );
+    const comparisons: Comparison[] = (result.rows as unknown as VoteRow[]).map((vote) => ({
+      winnerId: Number(vote.voted_for),
+      loserId: Number(vote.voted_against),
+      outcome: vote.outcome,
+    }));
+    console.log(`Found ${comparisons.length} votes`);
+
+    const started = Date.now();
+    const fit = fitBradleyTerry(comparisons);
+    console.log(
+      `Fitted ${fit.strengths.length} heroes in ${fit.iterations} iterations (${Date.now() - started}ms)` +
+        (fit.converged ? '' : ' - WARNING: did not converge')
+    );
+
+    const fittedAt = new Date().toISOString();
+    const statements = fit.strengths.map((hero) => ({
+      sql: `
+        INSERT INTO hero_bt_strengths (hero_id, strength, std_error, rating, games, fitted_at)
+        VALUES (?, ?, ?, ?, ?, ?)
+      `,
+      args: [hero.heroId, hero.strength, hero.standardError, hero.rating, hero.games, fittedAt],
+    }));
+
+    // Replace the whole table in one transaction so readers never see a partial fit
+    await withWriteTransaction(async (tx) => {
+      await tx.execute('DELETE FROM hero_bt_strengths');
+      for (let i = 0; i < statements.length; i += BATCH_SIZE) {
+        await tx.batch(statements.slice(i, i + BATCH_SIZE));
+      }
+    });
+
+    const top = [...fit.strengths].sort((a, b) => b.rating - a.rating).slice(0, 5);
+    console.log('\nTop heroes:');
+    for (const hero of top) {
+      console.log(
+        `  Hero #${hero.heroId}: ${hero.rating.toFixed(0)} ± ${(2 * hero.standardError * ELO_PER_LOG_STRENGTH).toFixed(0)} (${hero.games} games)`
+      );
+    }
+
+    console.log('\nFit complete!');
+  } catch (error) {
+    console.error('Fit failed:', error);
+    process.exit(1);
+  }
+}
+
+fitStrengths().catch(console.error);
@@ -4,7 +4,7 @@ import { turso } from '../utils/turso';
  * Fix Games Count and Win Rate Inconsistency
  *
  * This migration fixes a data integrity issue where the `games` column
- * doesn't match `wins + losses`, causing incorrect win rate calculations.
+ * doesn't match `wins + losses + draws`, causing incorrect win rate calculations.
  *
  * Run with: npx tsx src/migrations/fix-games-count.ts
  */
@@ -15,6 +15,7 @@ interface HeroRow {
   games: number;
   wins: number;
   losses: number;
+  draws: number;
   win_rate: number;
 }
 
@@ -22,12 +23,12 @@ async function fixGamesCount() {
   console.log('🔍 Scanning for heroes with inconsistent games count...\n');
 
   try {
-    // Find all heroes where games != wins + losses
+    // Find all heroes where games != wins + losses + draws
     const result = await turso.execute({
       sql: `
-        SELECT hero_id, hero_name, games, wins, losses, win_rate
+        SELECT hero_id, hero_name, games, wins, losses, draws, win_rate
         FROM heroRatings
-        WHERE games != (wins + losses)
+        WHERE games != (wins + losses + draws)
         ORDER BY hero_id
       `,
       args: []
@@ -43,19 +44,19 @@ async function fixGamesCount() {
     // Display affected heroes
     for (const row of result.rows) {
       const hero = row as unknown as HeroRow;
-      const correctGames = hero.wins + hero.losses;
+      const correctGames = hero.wins + hero.losses + hero.draws;
       const correctWinRate = correctGames > 0 ? (hero.wins / correctGames) * 100 : 0;
 
       console.log(`Hero #${hero.hero_id} (${hero.hero_name || 'Unknown'}):`);
-      console.log(`  Current:  games=${hero.games}, wins=${hero.wins}, losses=${hero.losses}, win_rate=${hero.win_rate.toFixed(1)}%`);
+      console.log(`  Current:  games=${hero.games}, wins=${hero.wins}, losses=${hero.losses}, draws=${hero.draws}, win_rate=${hero.win_rate.toFixed(1)}%`);
       console.log(`  Expected: games=${correctGames}, win_rate=${correctWinRate.toFixed(1)}%`);
       console.log('');
     }
 
     // Fix the games count
-    console.log('🔧 Fixing games count (setting games = wins + losses)...');
+    console.log('🔧 Fixing games count (setting games = wins + losses + draws)...');
     await turso.execute({
-      sql: `UPDATE heroRatings SET games = wins + losses WHERE games != (wins + losses)`,
+      sql: `UPDATE heroRatings SET games = wins + losses + draws WHERE games != (wins + losses + draws)`,
       args: []
     });
     console.log('✓ Games count fixed\n');
@@ -71,9 +72,9 @@ async function fixGamesCount() {
     // Verify the fix
     const verifyResult = await turso.execute({
       sql: `
-        SELECT hero_id, hero_name, games, wins, losses, win_rate
+        SELECT hero_id, hero_name, games, wins, losses, draws, win_rate
         FROM heroRatings
-        WHERE games != (wins + losses)
+        WHERE games != (wins + losses + draws)
       `,
       args: []
     });
@@ -88,7 +89,7 @@ async function fixGamesCount() {
     console.log('📊 Summary of fixed heroes:\n');
     const fixedResult = await turso.execute({
       sql: `
-        SELECT hero_id, hero_name, games, wins, losses, win_rate
+        SELECT hero_id, hero_name, games, wins, losses, draws, win_rate
         FROM heroRatings
         WHERE hero_id IN (${result.rows.map((r: any) => r.hero_id).join(',')})
         ORDER BY hero_id
@@ -98,7 +99,7 @@ async function fixGamesCount() {
 
     for (const row of fixedResult.rows) {
       const hero = row as unknown as HeroRow;
-      console.log(`Hero #${hero.hero_id} (${hero.hero_name || 'Unknown'}): ${hero.wins}-${hero.losses} (${hero.win_rate.toFixed(1)}% win rate)`);
+      console.log(`Hero #${hero.hero_id} (${hero.hero_name || 'Unknown'}): ${hero.wins}-${hero.losses}-${hero.draws} (${hero.win_rate.toFixed(1)}% win rate)`);
     }
 
     console.log('\n✅ Migration completed successfully!');
@@ -7,6 +7,24 @@ import { turso } from '../utils/turso';
  * Run with: npx tsx src/migrations/init-schema.ts
  */
 
+/** heroRatings columns the leaderboard can sort by */
+const LEADERBOARD_SORT_COLUMNS = ['rating', 'glicko_rating', 'win_rate', 'games', 'wilson_score', 'true_skill'];
+
+/**
+ * Creates an index unless the table is missing one of its columns. Re-running this
+ * script on a database that predates those columns then doesn't fail; the
+ * migration that adds them creates the index too.
+ */
+async function createIndexIfColumnsExist(name: string, table: string, columns: string[]) {
+  const tableInfo = await turso.execute(`PRAGMA table_info(${table})`);
+  const missing = columns.filter((column) => !tableInfo.rows.some((row: any) => row.name === column));
+  if (missing.length > 0) {
+    console.log(`  Skipped index ${name}: ${table} has no ${missing.join(', ')} column yet`);
+    return;
+  }
+  await turso.execute(`CREATE INDEX IF NOT EXISTS ${name} ON ${table} (${columns.join(', ')})`);
+}
+
 async function initializeSchema() {
   console.log('Initializing Turso database schema...');
   
@@ -19,16 +37,28 @@ async function initializeSchema() {
         games INTEGER NOT NULL,
         wins INTEGER NOT NULL,
         losses INTEGER NOT NULL,
+        draws INTEGER NOT NULL DEFAULT 0,
         is_provisional BOOLEAN NOT NULL,
         peak_rating REAL NOT NULL,
         lowest_rating REAL NOT NULL,
         win_rate REAL NOT NULL,
         current_streak INTEGER NOT NULL,
+        glicko_rating REAL NOT NULL DEFAULT 1500,
+        glicko_rd REAL NOT NULL DEFAULT 350,
+        glicko_volatility REAL NOT NULL DEFAULT 0.06,
+        glicko_updated_at INTEGER,
+        wilson_score REAL NOT NULL DEFAULT 0,
+        true_skill REAL NOT NULL DEFAULT 0,
         last_updated TEXT NOT NULL,
         created_at TEXT NOT NULL
       )
     `);
     
+    // Indexes for each leaderboard sort, with hero_id as the tie-breaker the page cursor uses
+    for (const column of LEADERBOARD_SORT_COLUMNS) {
+      await createIndexIfColumnsExist(`idx_heroRatings_${column}`, 'heroRatings', [column, 'hero_id']);
+    }
+    
     console.log('✓ Created heroRatings table');
     
     // Create votes table
@@ -37,11 +67,220 @@ async function initializeSchema() {
         id INTEGER PRIMARY KEY AUTOINCREMENT,
         voted_for INTEGER NOT NULL,
         voted_against INTEGER NOT NULL,
-        created_at TEXT NOT NULL
+        outcome TEXT NOT NULL DEFAULT 'win',
+        expected_score REAL,
+        glicko_expected_score REAL,
+        voter_id TEXT,
+        created_at TEXT NOT NULL,
+        retracted_at TEXT
       )
     `);
     
+    // Indexes for per-hero vote lookups (profiles, head-to-head records)
+    await turso.execute(`CREATE INDEX IF NOT EXISTS idx_votes_voted_for ON votes (voted_for)`);
+    await turso.execute(`CREATE INDEX IF NOT EXISTS idx_votes_voted_against ON votes (voted_against)`);
+    // Index for votes within a time window (seasons)
+    await turso.execute(`CREATE INDEX IF NOT EXISTS idx_votes_created_at ON votes (created_at)`);
+    // Index for one voter's votes (progress, personal rankings)
+    await createIndexIfColumnsExist('idx_votes_voter_id', 'votes', ['voter_id']);
+    
     console.log('✓ Created votes table');
+
+    // Create matchups table (server-issued pairs backing matchup tokens)
+    await turso.execute(`
+      CREATE TABLE IF NOT EXISTS matchups (
+        id TEXT PRIMARY KEY,
+        hero_a INTEGER NOT NULL,
+        hero_b INTEGER NOT NULL,
+        issued_at TEXT NOT NULL,
+        expires_at TEXT NOT NULL,
+        consumed_at TEXT,
+        skipped_at TEXT
+      )
+    `);
+
+    // Metrics and pruning both select matchups by issue time
+    await turso.execute(`CREATE INDEX IF NOT EXISTS idx_matchups_issued_at ON matchups (issued_at)`);
+    
+    console.log('✓ Created matchups table');
+
+    // Create rating_history table (one row per hero per vote)
+    await turso.execute(`
+      CREATE TABLE IF NOT EXISTS rating_history (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        vote_id INTEGER NOT NULL REFERENCES votes(id),
+        hero_id INTEGER NOT NULL,
+        opponent_id INTEGER NOT NULL,
+        result TEXT NOT NULL,
+        rating_before REAL NOT NULL,
+        rating_after REAL NOT NULL,
+        k_factor REAL NOT NULL,
+        expected_score REAL NOT NULL,
+        created_at TEXT NOT NULL
+      )
+    `);
+    await turso.execute(`
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_rating_history_hero_vote
+      ON rating_history (hero_id, vote_id)
+    `);
+    
+    console.log('✓ Created rating_history table');
+
+    // Create vote_undo_snapshots table (heroRatings rows as they were before a recent vote)
+    await turso.execute(`
+      CREATE TABLE IF NOT EXISTS vote_undo_snapshots (
+        vote_id INTEGER NOT NULL REFERENCES votes(id),
+        hero_id INTEGER NOT NULL,
+        previous_state TEXT,
+        created_at TEXT NOT NULL,
+        PRIMARY KEY (vote_id, hero_id)
+      )
+    `);
+    
+    console.log('✓ Created vote_undo_snapshots table');
+
+    // Create heroes table (local hero catalog, seeded from src/data/heroes.json)
+    await turso.execute(`
+      CREATE TABLE IF NOT EXISTS heroes (
+        id INTEGER PRIMARY KEY,
+        name TEXT NOT NULL,
+        publisher TEXT,
+        alignment TEXT,
+        intelligence INTEGER,
+        strength INTEGER,
+        speed INTEGER,
+        durability INTEGER,
+        power INTEGER,
+        combat INTEGER,
+        has_image BOOLEAN NOT NULL
+      )
+    `);
+    
+    console.log('✓ Created heroes table');
+
+    // Create hero_data_cache table (cached get-hero-by-id responses, fetched_at in Unix ms)
+    await turso.execute(`
+      CREATE TABLE IF NOT EXISTS hero_data_cache (
+        provider TEXT NOT NULL,
+        hero_id INTEGER NOT NULL,
+        payload TEXT NOT NULL,
+        is_error BOOLEAN NOT NULL,
+        fetched_at INTEGER NOT NULL,
+        PRIMARY KEY (provider, hero_id)
+      )
+    `);
+    
+    console.log('✓ Created hero_data_cache table');
+
+    // Create hero_bt_strengths table (Bradley-Terry fit over all votes, replaced by fit-bradley-terry)
+    await turso.execute(`
+      CREATE TABLE IF NOT EXISTS hero_bt_strengths (
+        hero_id INTEGER PRIMARY KEY,
+        strength REAL NOT NULL,
+        std_error REAL NOT NULL,
+        rating REAL NOT NULL,
+        games INTEGER NOT NULL,
+        fitted_at TEXT NOT NULL
+      )
+    `);
+    
+    await turso.execute(`CREATE INDEX IF NOT EXISTS idx_hero_bt_strengths_rating ON hero_bt_strengths (rating, hero_id)`);
+    
+    console.log('✓ Created hero_bt_strengths table');
+    
+    // Create shadow_ratings table (per-hero state of each shadow rating system)
+    await turso.execute(`
+      CREATE TABLE IF NOT EXISTS shadow_ratings (
+        system_id TEXT NOT NULL,
+        hero_id INTEGER NOT NULL,
+        rating REAL NOT NULL,
+        games INTEGER NOT NULL,
+        state TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        PRIMARY KEY (system_id, hero_id)
+      )
+    `);
+    
+    console.log('✓ Created shadow_ratings table');
+    
+    // Create shadow_rating_history table (each shadow system's prediction per vote, and its pre-vote state for undo)
+    await turso.execute(`
+      CREATE TABLE IF NOT EXISTS shadow_rating_history (
+        vote_id INTEGER NOT NULL,
+        hero_id INTEGER NOT NULL,
+        system_id TEXT NOT NULL,
+        previous_state TEXT,
+        expected_score REAL NOT NULL,
+        rating_after REAL NOT NULL,
+        created_at TEXT NOT NULL,
+        PRIMARY KEY (vote_id, hero_id, system_id)
+      )
+    `);
+    
+    console.log('✓ Created shadow_rating_history table');
+    
+    // Create seasons table (leaderboard windows; votes in [starts_at, ends_at) count)
+    await turso.execute(`
+      CREATE TABLE IF NOT EXISTS seasons (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL,
+        starts_at TEXT NOT NULL,
+        ends_at TEXT NOT NULL,
+        archived_at TEXT,
+        created_at TEXT NOT NULL
+      )
+    `);
+    
+    console.log('✓ Created seasons table');
+    
+    // Create season_standings table (final standings of archived seasons)
+    await turso.execute(`
+      CREATE TABLE IF NOT EXISTS season_standings (
+        season_id INTEGER NOT NULL,
+        hero_id INTEGER NOT NULL,
+        hero_name TEXT,
+        rank INTEGER NOT NULL,
+        elo_rating REAL NOT NULL,
+        glicko_rating REAL NOT NULL,
+        glicko_rd REAL NOT NULL,
+        games INTEGER NOT NULL,
+        wins INTEGER NOT NULL,
+        losses INTEGER NOT NULL,
+        draws INTEGER NOT NULL,
+        current_streak INTEGER NOT NULL,
+        peak_rating REAL NOT NULL,
+        PRIMARY KEY (season_id, hero_id)
+      )
+    `);
+    
+    console.log('✓ Created season_standings table');
+    
+    // Create voters table (anonymous voter sessions, keyed by the id in their cookie)
+    await turso.execute(`
+      CREATE TABLE IF NOT EXISTS voters (
+        id TEXT PRIMARY KEY,
+        legacy_vote_count INTEGER NOT NULL DEFAULT 0,
+        legacy_current_streak INTEGER NOT NULL DEFAULT 0,
+        legacy_longest_streak INTEGER NOT NULL DEFAULT 0,
+        legacy_last_vote_date TEXT,
+        created_at TEXT NOT NULL,
+        last_seen_at TEXT NOT NULL
+      )
+    `);
+    
+    console.log('✓ Created voters table');
+    
+    // Create voter_discoveries table (heroes each voter has been shown)
+    await turso.execute(`
+      CREATE TABLE IF NOT EXISTS voter_discoveries (
+        voter_id TEXT NOT NULL,
+        hero_id INTEGER NOT NULL,
+        discovered_at TEXT NOT NULL,
+        PRIMARY KEY (voter_id, hero_id)
+      )
+    `);
+    
+    console.log('✓ Created voter_discoveries table');
     
     // Verify tables were created
     const result = await turso.execute(`
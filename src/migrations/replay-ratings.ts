@@ -0,0 +1,125 @@
+import { applyRecompute, planRecompute, RatingDiff } from '../backend/ratingRecompute';
+import type { EloConfig } from '../utils/elo';
+
+/**
+ * Rebuild heroRatings by replaying the votes table
+ *
+ * Replays every vote that wasn't undone in chronological order and replaces
+ * heroRatings and rating_history with the result (see src/backend/ratingRecompute.ts).
+ * Use it after changing the Elo parameters, or to repair drifted ratings.
+ *
+ * Options:
+ *   --dry-run                      Print the per-hero diff without writing anything
+ *   --limit=N                      Heroes to list in the diff (default: 25, 0 for all)
+ *   --k-factor=N                   EloConfig.kFactor
+ *   --provisional-k-factor=N       EloConfig.provisionalKFactor
+ *   --provisional-threshold=N      EloConfig.provisionalThreshold
+ *   --initial-rating=N             EloConfig.initialRating
+ *   --provisional-flag-threshold=N EloConfig.provisionalFlagThreshold
+ *
+ * Live votes always use DEFAULT_ELO_CONFIG, so to keep a different config
+ * change it there as well, or the next votes will be rated under the old one.
+ *
+ * Run with: npx tsx src/migrations/replay-ratings.ts [--dry-run] [--k-factor=24 ...]
+ */
+
+const CONFIG_FLAGS: Record<string, keyof EloConfig> = {
+  'k-factor': 'kFactor',
+  'provisional-k-factor': 'provisionalKFactor',
+  'provisional-threshold': 'provisionalThreshold',
+  'initial-rating': 'initialRating',
+  'provisional-flag-threshold': 'provisionalFlagThreshold',
+};
+
+interface ReplayOptions {
+  dryRun: boolean;
+  limit: number;
+  config: Partial<EloConfig>;
+}
+
+function parseArgs(args: string[]): ReplayOptions {
+  const options: ReplayOptions = { dryRun: false, limit: 25, config: {} };
+
+  for (const arg of args) {
+    if (arg === '--dry-run') {
+      options.dryRun = true;
+      continue;
+    }
+
+    const match = /^--([a-z-]+)=(.+)$/.exec(arg);
+    const value = match ? Number(match[2]) : NaN;
+    if (!match || !Number.isFinite(value) || value < 0) {
+      throw new Error(`Unrecognized option: ${arg}`);
+    }
+
+    const flag = match[1] as string;
+    const configKey = CONFIG_FLAGS[flag];
+    if (flag === 'limit') {
+      options.limit = value;
+    } else if (configKey) {
+      options.config[configKey] = value;
+    } else {
+      throw new Error(`Unrecognized option: ${arg}`);
+    }
+  }
+
+  return options;
+}
+
+const formatRank = (rank: number | null): string => (rank === null ? '-' : `#${rank}`);
+const formatRating = (rating: number | null): string => (rating === null ? '-' : String(rating));
+
+function printDiff(diffs: RatingDiff[], limit: number) {
+  const changed = diffs.filter((diff) => diff.change !== 0 || diff.gamesBefore !== diff.gamesAfter);
+  const shown = limit > 0 ? changed.slice(0, limit) : changed;
+
+  console.log(`\n${changed.length} of ${diffs.length} heroes change:`);
+  for (const diff of shown) {
+    const name = diff.heroName || `Hero #${diff.heroId}`;
+    const change = diff.change > 0 ? `+${diff.change}` : String(diff.change);
+    console.log(
+      `  ${name.padEnd(28)} ${formatRating(diff.ratingBefore).padStart(5)} -> ${formatRating(diff.ratingAfter).padStart(5)}` +
+        ` (${change.padStart(4)})  rank ${formatRank(diff.rankBefore)} -> ${formatRank(diff.rankAfter)}` +
+        `  games ${diff.gamesBefore} -> ${diff.gamesAfter}`
+    );
+  }
+  if (shown.length < changed.length) {
+    console.log(`  ... and ${changed.length - shown.length} more (use --limit=0 to list all)`);
+  }
+
+  const changes = diffs.map((diff) => Math.abs(diff.change));
+  const meanChange = changes.length > 0 ? changes.reduce((sum, change) => sum + change, 0) / changes.length : 0;
+  const rankMoves = diffs.filter((diff) => diff.rankBefore !== diff.rankAfter).length;
+  console.log(`\nMean absolute change: ${meanChange.toFixed(1)}`);
+  console.log(`Largest change: ${changes.length > 0 ? Math.max(...changes) : 0}`);
+  console.log(`Heroes whose rank changes: ${rankMoves}`);
+}
+
+async function replayRatings() {
+  try {
+    const options = parseArgs(process.argv.slice(2));
+
+    console.log('Replaying votes...');
+    const plan = await planRecompute(options.config);
+    console.log(`  Config: ${JSON.stringify(plan.config)}`);
+    console.log(`  Votes replayed: ${plan.votesReplayed}`);
+    console.log(`  Invalid votes skipped: ${plan.votesSkipped}`);
+    console.log(`  Heroes rated: ${plan.ratings.length}`);
+
+    printDiff(plan.diffs, options.limit);
+
+    if (options.dryRun) {
+      console.log('\nDry run - nothing was written.');
+      return;
+    }
+
+    console.log('\nSwapping in rebuilt ratings...');
+    await applyRecompute(plan);
+    console.log('Replay complete!');
+  } catch (error) {
+    console.error('Replay failed:', error);
+    process.exit(1);
+  }
+}
+
+replayRatings().catch(console.error);
@@ -0,0 +1,113 @@
+import { archiveSeason, createSeason, getSeasons, Season } from '../backend/seasons';
+import { toSqliteTimestamp } from '../backend/standings';
+
+/**
+ * Manage competitive seasons
+ *
+ * Commands:
+ *   list                                       List every season and its status
+ *   create --name=NAME --start=DATE --end=DATE Create a season; dates are ISO 8601 (UTC unless an offset is given)
+ *   archive [--id=N]                           Freeze the final standings of season N, or of every
+ *                                              ended season that isn't archived yet
+ *
+ * Ended seasons are also archived on the first read of their leaderboard;
+ * `archive` without --id freezes any that haven't been read since they ended.
+ *
+ * Run with: npx tsx src/migrations/seasons.ts <command> [options]
+ */
+
+function parseOptions(args: string[]): Record<string, string> {
+  const options: Record<string, string> = {};
+  for (const arg of args) {
+    const match = /^--([a-z]+)=(.+)$/.exec(arg);
+    if (!match) {
+      throw new Error(`Unrecognized option: ${arg}`);
+    }
+    options[match[1] as string] = match[2] as string;
+  }
+  return options;
+}
+
+function parseDate(value: string | undefined, flag: string): Date {
+  const date = value === undefined ? null : new Date(value);
+  if (!date || Number.isNaN(date.getTime())) {
+    throw new Error(`--${flag} must be a date, e.g. --${flag}=2026-01-01`);
+  }
+  return date;
+}
+
+const seasonStatus = (season: Season): string => {
+  if (season.archivedAt !== null) return `archived ${season.archivedAt}`;
+  const now = toSqliteTimestamp(new Date());
+  if (season.startsAt > now) return 'upcoming';
+  return season.endsAt > now ? 'live' : 'ended, not archived';
+};
+
+async function listSeasons() {
+  const seasons = await getSeasons();
+  if (seasons.length === 0) {
+    console.log('No seasons yet.');
+    return;
+  }
+  for (const season of seasons) {
+    console.log(
+      `  #${season.id} ${season.name.padEnd(24)} ${season.startsAt} -> ${season.endsAt}  (${seasonStatus(season)})`
+    );
+  }
+}
+
+async function archive(options: Record<string, string>) {
+  let ids: number[];
+  if (options.id !== undefined) {
+    ids = [Number(options.id)];
+  } else {
+    const now = toSqliteTimestamp(new Date());
+    ids = (await getSeasons())
+      .filter((season) => season.archivedAt === null && season.endsAt <= now)
+      .map((season) => season.id);
+    if (ids.length === 0) {
+      console.log('No ended seasons to archive.');
+      return;
+    }
+  }
+
+  for (const id of ids) {
+    const leaderboard = await archiveSeason(id);
+    const champion = leaderboard.standings[0];
+    console.log(
+      `Archived "${leaderboard.season.name}": ${leaderboard.standings.length} heroes, ${leaderboard.votes} votes` +
+        (champion ? `, champion ${champion.heroName || `Hero #${champion.heroId}`}` : '')
+    );
+  }
+}
+
+async function manageSeasons() {
+  try {
+    const [command, ...args] = process.argv.slice(2);
+    const options = parseOptions(args);
+
+    switch (command) {
+      case 'list':
+        await listSeasons();
+        break;
+      case 'create': {
+        if (!options.name) {
+          throw new Error('--name is required');
+        }
+        const season = await createSeason(options.name, parseDate(options.start, 'start'), parseDate(options.end, 'end'));
+        console.log(`Created season #${season.id} "${season.name}": ${season.startsAt} -> ${season.endsAt}`);
+        break;
+      }
+      case 'archive':
+        await archive(options);
+        break;
+      default:
+        throw new Error('Usage: seasons.ts list | create --name=NAME --start=DATE --end=DATE | archive [--id=N]');
+    }
+  } catch (error) {
+    console.error('Season command failed:', error);
+    process.exit(1);
+  }
+}
+
+manageSeasons().catch(console.error);
@@ -0,0 +1,101 @@
+import { z } from 'zod';
+import { withWriteTransaction } from '../utils/turso';
+import { POWERSTAT_KEYS, type HeroCatalogEntry } from '../types/heroCatalog';
+import snapshot from '../data/heroes.json';
+
+/**
+ * Seed the heroes catalog table
+ *
+ * Loads the checked-in roster snapshot (src/data/heroes.json) into the
+ * `heroes` table. Existing rows are updated in place and heroes missing from
+ * the snapshot are removed, so the table always mirrors the snapshot and the
+ * script can be safely re-run.
+ *
+ * Regenerate the snapshot with: npx tsx src/migrations/snapshot-heroes.ts
+ * Run with: npx tsx src/migrations/seed-heroes.ts
+ */
+
+const BATCH_SIZE = 200;
+
+const stat = z.number().int().min(0).max(100).nullable();
+
+const snapshotSchema = z.array(
+  z.object({
+    id: z.number().int().min(1),
+    name: z.string().min(1),
+    publisher: z.string().nullable(),
+    alignment: z.string().nullable(),
+    powerstats: z.object({
+      intelligence: stat,
+      strength: stat,
+      speed: stat,
+      durability: stat,
+      power: stat,
+      combat: stat,
+    }),
+    hasImage: z.boolean(),
+  })
+);
+
+async function seedHeroes() {
+  const parsed = snapshotSchema.safeParse(snapshot);
+  if (!parsed.success) {
+    console.error('✗ src/data/heroes.json is not a valid hero snapshot:', parsed.error.format());
+    process.exit(1);
+  }
+
+  const heroes: HeroCatalogEntry[] = parsed.data;
+  if (heroes.length === 0) {
+    console.error('✗ src/data/heroes.json is empty. Generate it first with: npm run snapshot-heroes');
+    process.exit(1);
+  }
+
+  console.log(`Seeding ${heroes.length} heroes...`);
+
+  try {
+    await withWriteTransaction(async (tx) => {
+      for (let i = 0; i < heroes.length; i += BATCH_SIZE) {
+        await tx.batch(
+          heroes.slice(i, i + BATCH_SIZE).map((hero) => ({
+            sql: `
+              INSERT INTO heroes (id, name, publisher, alignment, ${POWERSTAT_KEYS.join(', ')}, has_image)
+              VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+              ON CONFLICT(id) DO UPDATE SET
+                name = excluded.name,
+                publisher = excluded.publisher,
+                alignment = excluded.alignment,
+                intelligence = excluded.intelligence,
+                strength = excluded.strength,
+                speed = excluded.speed,
+                durability = excluded.durability,
+                power = excluded.power,
+                combat = excluded.combat,
+                has_image = excluded.has_image
+            `,
+            args: [
+              hero.id,
+              hero.name,
+              hero.publisher,
+              hero.alignment,
+              ...POWERSTAT_KEYS.map((key) => hero.powerstats[key]),
+              hero.hasImage ? 1 : 0,
+            ],
+          }))
+        );
+      }
+
+      const ids = heroes.map((hero) => hero.id);
+      await tx.execute({
+        sql: `DELETE FROM heroes WHERE id NOT IN (${ids.map(() => '?').join(', ')})`,
+        args: ids,
+      });
+    });
+
+    console.log(`✓ Seeded heroes table with ${heroes.length} heroes`);
+  } catch (error) {
+    console.error('✗ Seeding heroes failed:', error);
+    process.exit(1);
+  }
+}
+
+seedHeroes().catch(console.error);
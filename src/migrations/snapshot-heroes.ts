@@ -0,0 +1,108 @@
+import { writeFileSync } from 'fs';
+import { join } from 'path';
+import { POWERSTAT_KEYS, type HeroCatalogEntry, type HeroPowerstats } from '../types/heroCatalog';
+import type { SuperHeroApiResponse } from '../types/heroBiography';
+import { createSuperHeroApiProvider } from '../backend/heroDataProvider';
+
+/**
+ * Generate the hero roster snapshot
+ *
+ * Walks the SuperHero API from id 1 until it reports an invalid id and writes
+ * every hero to src/data/heroes.json. The akabab mirror that the image proxy
+ * uses only covers part of the roster, so its index decides each hero's
+ * image-availability flag.
+ *
+ * Needs network access and SUPERHERO_API_KEY. Commit the resulting file,
+ * then load it with: npx tsx src/migrations/seed-heroes.ts
+ *
+ * Run with: SUPERHERO_API_KEY=... npx tsx src/migrations/snapshot-heroes.ts
+ */
+
+const BATCH_SIZE = 5;
+const DELAY_MS = 1000;
+const AKABAB_INDEX_URL = 'https://akabab.github.io/superhero-api/api/all.json';
+const SNAPSHOT_PATH = join(process.cwd(), 'src/data/heroes.json');
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * The SuperHero API returns stats as strings, with "null" for unknown values.
+ */
+function parseStat(value: string | undefined): number | null {
+  const parsed = Number.parseInt(value ?? '', 10);
+  return Number.isNaN(parsed) ? null : parsed;
+}
+
+/**
+ * The SuperHero API uses "-" and "null" for unknown text fields.
+ */
+function parseText(value: string | undefined): string | null {
+  return value && value !== '-' && value !== 'null' ? value : null;
+}
+
+function toCatalogEntry(data: SuperHeroApiResponse, imageIds: Set<number>): HeroCatalogEntry {
+  const id = Number(data.id);
+  const powerstats = Object.fromEntries(
+    POWERSTAT_KEYS.map((key) => [key, parseStat(data.powerstats?.[key])])
+  ) as unknown as HeroPowerstats;
+
+  return {
+    id,
+    name: data.name ?? `Hero #${id}`,
+    publisher: parseText(data.biography?.publisher),
+    alignment: parseText(data.biography?.alignment),
+    powerstats,
+    hasImage: imageIds.has(id),
+  };
+}
+
+async function snapshotHeroes() {
+  const apiKey = process.env.SUPERHERO_API_KEY;
+  if (!apiKey) {
+    console.error('✗ SUPERHERO_API_KEY is not set');
+    process.exit(1);
+  }
+
+  const superHeroApi = createSuperHeroApiProvider(apiKey);
+
+  try {
+    console.log('Fetching akabab image index...');
+    const indexResponse = await fetch(AKABAB_INDEX_URL);
+    if (!indexResponse.ok) {
+      throw new Error(`akabab index request failed: ${indexResponse.status}`);
+    }
+    const index = (await indexResponse.json()) as Array<{ id: number }>;
+    const imageIds = new Set(index.map((hero) => hero.id));
+    console.log(`  ${imageIds.size} heroes have images`);
+
+    const heroes: HeroCatalogEntry[] = [];
+    let reachedEnd = false;
+
+    for (let start = 1; !reachedEnd; start += BATCH_SIZE) {
+      const ids = Array.from({ length: BATCH_SIZE }, (_, offset) => start + offset);
+      const responses = await Promise.all(ids.map((id) => superHeroApi.getHero(id)));
+
+      // The roster is contiguous: the first invalid id marks its end
+      for (const data of responses) {
+        if (data.response === 'error') {
+          reachedEnd = true;
+          break;
+        }
+        heroes.push(toCatalogEntry(data, imageIds));
+      }
+
+      console.log(`  Fetched ${heroes.length} heroes`);
+      if (!reachedEnd) await sleep(DELAY_MS);
+    }
+
+    writeFileSync(SNAPSHOT_PATH, `${JSON.stringify(heroes, null, 2)}\n`);
+    console.log(`\n✓ Wrote ${heroes.length} heroes to src/data/heroes.json`);
+  } catch (error) {
+    console.error('✗ Snapshot failed:', error);
+    process.exit(1);
+  }
+}
+
+snapshotHeroes().catch(console.error);
@@ -0,0 +1,194 @@
+import { turso } from '../utils/turso';
+import { actualScore, calculateNewRatings, DEFAULT_ELO_CONFIG, EloConfig, MatchOutcome } from '../utils/elo';
+import {
+  BASELINE_BRIER_SCORE,
+  BASELINE_LOG_LOSS,
+  calibrationCurve,
+  Prediction,
+  PredictionScore,
+  scorePredictions,
+} from '../utils/predictionMetrics';
+
+/**
+ * Grid-search the Elo K-factors against the vote log
+ *
+ * Replays every vote that wasn't undone under each combination of kFactor,
+ * provisionalKFactor and provisionalThreshold, scoring each config by the
+ * log-loss of its pre-vote predictions. Prints the best configs, how the
+ * current DEFAULT_ELO_CONFIG compares, and the best config's calibration curve.
+ *
+ * Nothing is written. To adopt a config, change DEFAULT_ELO_CONFIG and rebuild
+ * the ratings with npm run replay-ratings.
+ *
+ * Options (comma-separated lists replace the default grid):
+ *   --k-factors=16,24,32              EloConfig.kFactor values
+ *   --provisional-k-factors=32,48,64  EloConfig.provisionalKFactor values
+ *   --provisional-thresholds=0,10,20  EloConfig.provisionalThreshold values
+ *   --top=N                           Configs to list (default: 10)
+ *   --bins=N                          Calibration curve bins (default: 5)
+ *
+ * Run with: npx tsx src/migrations/tune-elo.ts [--k-factors=16,24,32 ...]
+ */
+
+interface TuneOptions {
+  kFactors: number[];
+  provisionalKFactors: number[];
+  provisionalThresholds: number[];
+  top: number;
+  bins: number;
+}
+
+interface VoteRow {
+  voted_for: number;
+  voted_against: number;
+  outcome: MatchOutcome;
+}
+
+interface ConfigScore {
+  config: EloConfig;
+  score: PredictionScore;
+}
+
+const LIST_FLAGS: Record<string, 'kFactors' | 'provisionalKFactors' | 'provisionalThresholds'> = {
+  'k-factors': 'kFactors',
+  'provisional-k-factors': 'provisionalKFactors',
+  'provisional-thresholds': 'provisionalThresholds',
+};
+
+function parseArgs(args: string[]): TuneOptions {
+  const options: TuneOptions = {
+    kFactors: [12, 16, 20, 24, 32, 40, 48],
+    provisionalKFactors: [24, 32, 48, 64, 80],
+    provisionalThresholds: [0, 5, 10, 15, 20, 30],
+    top: 10,
+    bins: 5,
+  };
+
+  for (const arg of args) {
+    const match = /^--([a-z-]+)=(.+)$/.exec(arg);
+    const flag = match?.[1] as string;
+    const values = match ? (match[2] as string).split(',').map(Number) : [];
+    if (!match || values.some((value) => !Number.isFinite(value) || value < 0)) {
+      throw new Error(`Unrecognized option: ${arg}`);
+    }
+
+    const listKey = LIST_FLAGS[flag];
+    if (listKey) {
+      options[listKey] = values;
+    } else if ((flag === 'top' || flag === 'bins') && values.length === 1 && (values[0] as number) >= 1) {
+      options[flag] = values[0] as number;
+    } else {
+      throw new Error(`Unrecognized option: ${arg}`);
+    }
+  }
+
+  return options;
+}
+
+/**
+ * Replays the votes under one config and collects each vote's prediction for the hero voted for.
+ * Only Elo is replayed, which keeps a large grid fast.
+ */
+function replayPredictions(votes: VoteRow[], config: EloConfig): Prediction[] {
+  const ratings = new Map<number, { rating: number; games: number }>();
+  const getRating = (heroId: number) => ratings.get(heroId) ?? { rating: config.initialRating, games: 0 };
+  const predictions: Prediction[] = [];
+
+  for (const vote of votes) {
+    const winnerId = Number(vote.voted_for);
+    const loserId = Number(vote.voted_against);
+    if (winnerId === loserId) continue;
+
+    const winner = getRating(winnerId);
+    const loser = getRating(loserId);
+    const result = calculateNewRatings(winner.rating, loser.rating, winner.games, loser.games, config, vote.outcome);
+
+    predictions.push({ expected: result.winnerExpected, actual: actualScore(vote.outcome) });
+    ratings.set(winnerId, { rating: result.newWinnerRating, games: winner.games + 1 });
+    ratings.set(loserId, { rating: result.newLoserRating, games: loser.games + 1 });
+  }
+
+  return predictions;
+}
+
+/**
+ * Every distinct config in the grid. provisionalKFactor has no effect with a
+ * threshold of 0, so those combinations are only tried once.
+ */
+function buildGrid(options: TuneOptions): EloConfig[] {
+  const configs = new Map<string, EloConfig>();
+  for (const kFactor of options.kFactors) {
+    for (const provisionalThreshold of options.provisionalThresholds) {
+      for (const provisionalKFactor of options.provisionalKFactors) {
+        const config: EloConfig = {
+          ...DEFAULT_ELO_CONFIG,
+          kFactor,
+          provisionalKFactor: provisionalThreshold === 0 ? kFactor : provisionalKFactor,
+          provisionalThreshold,
+        };
+        configs.set(`${config.kFactor}/${config.provisionalKFactor}/${config.provisionalThreshold}`, config);
+      }
+    }
+  }
+  return Array.from(configs.values());
+}
+
+const formatConfig = (config: EloConfig): string =>
+  `K=${config.kFactor} provisional K=${config.provisionalKFactor} below ${config.provisionalThreshold} games`;
+
+const formatScore = (score: PredictionScore): string =>
+  `log-loss ${score.logLoss?.toFixed(4) ?? '-'}  Brier ${score.brierScore?.toFixed(4) ?? '-'}` +
+  `  accuracy ${score.accuracy === null ? '-' : `${(score.accuracy * 100).toFixed(1)}%`}`;
+
+async function tuneElo() {
+  try {
+    const options = parseArgs(process.argv.slice(2));
+
+    console.log('Fetching votes...');
+    const result = await turso.execute(
+      'SELECT voted_for, voted_against, outcome FROM votes WHERE retracted_at IS NULL ORDER BY created_at, id'
+    );
+    const votes = result.rows as unknown as VoteRow[];
+    console.log(`Found ${votes.length} votes`);
+    if (votes.length === 0) {
+      console.log('No votes to tune against.');
+      return;
+    }
+
+    const grid = buildGrid(options);
+    console.log(`Scoring ${grid.length} configs...`);
+    const started = Date.now();
+    // Only each config's score is kept; the best config is replayed again for its calibration curve
+    const scored: ConfigScore[] = grid.map((config) => ({
+      config,
+      score: scorePredictions(replayPredictions(votes, config)),
+    }));
+    scored.sort((a, b) => (a.score.logLoss ?? Infinity) - (b.score.logLoss ?? Infinity));
+    console.log(`Done in ${Date.now() - started}ms`);
+
+    const current = replayPredictions(votes, DEFAULT_ELO_CONFIG);
+    console.log(`\nBaseline (always 50/50): log-loss ${BASELINE_LOG_LOSS.toFixed(4)}  Brier ${BASELINE_BRIER_SCORE.toFixed(4)}`);
+    console.log(`Current:  ${formatConfig(DEFAULT_ELO_CONFIG)}`);
+    console.log(`          ${formatScore(scorePredictions(current))}`);
+
+    console.log(`\nTop ${Math.min(options.top, scored.length)} configs by log-loss:`);
+    scored.slice(0, options.top).forEach(({ config, score }, i) => {
+      console.log(`  ${String(i + 1).padStart(2)}. ${formatConfig(config).padEnd(44)} ${formatScore(score)}`);
+    });
+
+    const best = scored[0] as ConfigScore;
+    console.log(`\nBest: ${formatConfig(best.config)}`);
+    console.log('Calibration (favorite\'s predicted vs actual win rate):');
+    for (const bin of calibrationCurve(replayPredictions(votes, best.config), options.bins)) {
+      const range = `${(bin.from * 100).toFixed(0)}-${(bin.to * 100).toFixed(0)}%`;
+      const expected = bin.meanExpected === null ? '-' : `${(bin.meanExpected * 100).toFixed(1)}%`;
+      const actual = bin.meanActual === null ? '-' : `${(bin.meanActual * 100).toFixed(1)}%`;
+      console.log(`  ${range.padEnd(8)} predicted ${expected.padStart(6)}  actual ${actual.padStart(6)}  (${bin.count} votes)`);
+    }
+  } catch (error) {
+    console.error('Tuning failed:', error);
+    process.exit(1);
+  }
+}
+
+tuneElo().catch(console.error);
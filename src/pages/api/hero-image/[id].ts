@@ -1,13 +1,14 @@
 import type { NextApiRequest, NextApiResponse } from "next";
+import { getCatalogHero } from "../../../backend/heroCatalog";
+import { getHeroDataProvider } from "../../../backend/heroDataProvider";
 
 /**
- * Image proxy API route that fetches hero images from an alternative source.
+ * Image proxy API route that serves hero images from the configured hero data provider.
  *
  * The original SuperHero API's images are hosted on superherodb.com which uses
- * Cloudflare protection that blocks all external requests with 403 Forbidden.
- *
- * This API route uses the akabab/superhero-api hosted on jsDelivr CDN,
- * which provides the same hero images without access restrictions.
+ * Cloudflare protection that blocks all external requests with 403 Forbidden,
+ * so the network providers take images from the akabab/superhero-api mirror
+ * on jsDelivr instead.
  *
  * Usage: /api/hero-image/[heroId]
  * Example: /api/hero-image/1 returns A-Bomb's image
@@ -23,66 +24,30 @@ export default async function handler(
   }
 
   const heroId = parseInt(id, 10);
-  if (isNaN(heroId) || heroId < 1 || heroId > 731) {
+  if (isNaN(heroId) || heroId < 1) {
     return res.status(400).json({ error: "Invalid hero ID" });
   }
 
   try {
-    // Directly construct the jsDelivr CDN URL using the predictable pattern
-    // This eliminates the need to fetch JSON first (cuts requests in half)
-    const directImageUrl = `https://cdn.jsdelivr.net/gh/akabab/superhero-api@0.3.0/api/images/md/${heroId}.jpg`;
-
-    // Attempt to fetch the image directly
-    let imageResponse = await fetch(directImageUrl);
-
-    // Fallback: if direct URL fails, fetch JSON to get the correct URL
-    // This handles edge cases where the image format or path differs
-    if (!imageResponse.ok) {
-      const heroResponse = await fetch(
-        `https://akabab.github.io/superhero-api/api/id/${heroId}.json`
-      );
-
-      if (!heroResponse.ok) {
-        // If hero not found in alternative API, return 404
-        if (heroResponse.status === 404) {
-          return res.status(404).json({ error: "Hero not found" });
-        }
-        return res.status(heroResponse.status).json({ error: "Failed to fetch hero data" });
-      }
-
-      const heroData = await heroResponse.json();
-
-      // Use medium size image for good quality/size balance
-      // Available sizes: xs, sm, md, lg
-      const imageUrl = heroData?.images?.md || heroData?.images?.lg || heroData?.images?.sm;
-
-      if (!imageUrl) {
-        return res.status(404).json({ error: "Hero image not found" });
-      }
-
-      // Fetch the actual image from jsDelivr CDN
-      imageResponse = await fetch(imageUrl);
-
-      if (!imageResponse.ok) {
-        return res.status(imageResponse.status).json({
-          error: "Failed to fetch image",
-          status: imageResponse.status,
-          statusText: imageResponse.statusText
-        });
-      }
+    // Only heroes on the roster are proxied, and the catalog knows which ones have no image
+    const hero = await getCatalogHero(heroId);
+    if (!hero) {
+      return res.status(404).json({ error: "Hero not found" });
+    }
+    if (!hero.hasImage) {
+      return res.status(404).json({ error: "Hero image not found" });
     }
 
-    // Get the image content type
-    const contentType = imageResponse.headers.get("content-type") || "image/jpeg";
-
-    // Stream the image buffer to the client
-    const imageBuffer = await imageResponse.arrayBuffer();
+    const image = await getHeroDataProvider().getImage(heroId);
+    if (!image) {
+      return res.status(404).json({ error: "Hero image not found" });
+    }
 
     // Set appropriate caching headers (cache for 7 days since these images don't change)
     res.setHeader("Cache-Control", "public, max-age=604800, s-maxage=604800, stale-while-revalidate=2592000");
-    res.setHeader("Content-Type", contentType);
+    res.setHeader("Content-Type", image.contentType);
 
-    return res.send(Buffer.from(imageBuffer));
+    return res.send(Buffer.from(image.data));
   } catch (error) {
     console.error("Error proxying hero image:", error);
     return res.status(500).json({ error: "Internal server error" });
@@ -1,12 +1,13 @@
 // src/pages/api/trpc/[trpc].ts
 import { createNextApiHandler } from "@trpc/server/adapters/next";
 import { appRouter, AppRouter } from "../../../backend/router";
+import { createContext } from "../../../backend/router/context";
 import * as trpcNext from "@trpc/server/adapters/next"
 import { inferProcedureOutput } from "@trpc/server";
 // export API handler
 export default createNextApiHandler({
   router: appRouter,
-  createContext: () => null,
+  createContext,
 });
 
 export type inferQueryResponse<
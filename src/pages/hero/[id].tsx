@@ -0,0 +1,237 @@
+import type { GetStaticPaths, GetStaticProps } from "next";
+import Head from "next/head";
+import Image from "next/image";
+import Link from "next/link";
+import { trpc } from "../../utils/trpc";
+import { getHeroProfile, type HeroProfile, type NotableResult } from "../../backend/heroProfile";
+import { getCatalogHero } from "../../backend/heroCatalog";
+import { HeroDescription } from "../../components/HeroDescription";
+import { RatingChart } from "../../components/RatingChart";
+import { HeadToHead } from "../../components/HeadToHead";
+import { wilsonScoreInterval, formatWilsonScore, getConfidenceColorClass } from "../../utils/wilsonScore";
+import { getDeviationConfidence } from "../../utils/glicko2";
+import { getTier, getTierClass } from "../../utils/tiers";
+import { extractBiographyData, type SuperHeroApiResponse } from "../../types/heroBiography";
+
+const StatBox: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <div className="card-brutal p-3">
+    <div className="text-label mb-1">{label}</div>
+    <div className="font-mono text-lg font-bold text-charcoal">{children}</div>
+  </div>
+);
+
+const NotableResultList: React.FC<{ title: string; results: NotableResult[]; emptyText: string }> = ({
+  title,
+  results,
+  emptyText,
+}) => (
+  <div className="card-brutal p-3">
+    <div className="text-label mb-2">{title}</div>
+    {results.length === 0 ? (
+      <p className="font-mono text-xs text-smoke">{emptyText}</p>
+    ) : (
+      <ul className="space-y-1">
+        {results.map((result) => (
+          <li key={result.voteId} className="flex items-center justify-between font-mono text-xs">
+            <Link href={`/hero/${result.opponentId}`} className="truncate hover:text-signal">
+              vs {result.opponentName}
+            </Link>
+            <span className={result.ratingChange >= 0 ? "text-green-400 font-bold" : "text-signal font-bold"}>
+              {result.ratingChange >= 0 ? "+" : ""}
+              {result.ratingChange}
+            </span>
+          </li>
+        ))}
+      </ul>
+    )}
+  </div>
+);
+
+const HeroPage: React.FC<{ profile: HeroProfile }> = ({ profile }) => {
+  const heroQuery = trpc.useQuery(["get-hero-by-id", { id: profile.heroId }]);
+  const apiResponse = heroQuery.data as SuperHeroApiResponse | undefined;
+  const biography = apiResponse && apiResponse.response !== "error" ? extractBiographyData(apiResponse) : null;
+  const biographyError = heroQuery.error
+    ? "Network error. Please check your connection."
+    : apiResponse?.response === "error"
+    ? "Hero data not available."
+    : null;
+
+  // Head-to-head against the most common opponent
+  const rival = profile.commonOpponents[0];
+  const rivalryQuery = trpc.useQuery(
+    ["get-head-to-head", { heroA: profile.heroId, heroB: rival?.heroId ?? 0 }],
+    { enabled: rival !== undefined }
+  );
+
+  const tier = getTier(profile.rating);
+  const interval = wilsonScoreInterval(profile.wins, profile.games);
+
+  const streakDisplay = profile.currentStreak > 0
+    ? <span className="text-green-400">W{profile.currentStreak}</span>
+    : profile.currentStreak < 0
+    ? <span className="text-signal">L{Math.abs(profile.currentStreak)}</span>
+    : <span className="text-smoke">-</span>;
+
+  return (
+    <div className="min-h-screen">
+      <Head>
+        <title>{`${profile.heroName} — HERO RANK`}</title>
+      </Head>
+
+      {/* Header */}
+      <header className="border-b-3 border-ink">
+        <div className="max-w-4xl mx-auto px-3 py-3">
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-display text-2xl sm:text-3xl">{profile.heroName}</h1>
+              <p className="font-mono text-xs text-smoke mt-0.5">
+                HERO #{profile.heroId} · {profile.games} GAMES
+              </p>
+            </div>
+            <div className="flex gap-2">
+              <Link href="/results">
+                <span className="btn-brutal-ink text-xs">RANKINGS</span>
+              </Link>
+              <Link href="/">
+                <span className="btn-brutal-signal text-xs">VOTE NOW</span>
+              </Link>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-4xl mx-auto px-3 py-6 space-y-6">
+        {/* Overview */}
+        <section className="flex flex-col sm:flex-row gap-4">
+          <div className="w-40 h-52 relative border-2 border-ink bg-concrete flex-shrink-0 self-center sm:self-start">
+            <Image
+              src={`/api/hero-image/${profile.heroId}`}
+              alt={profile.heroName}
+              fill
+              className="object-cover"
+              sizes="160px"
+            />
+          </div>
+
+          <div className="flex-1 grid grid-cols-2 sm:grid-cols-3 gap-3">
+            <StatBox label="RATING">
+              <span className="text-navy">{profile.rating}</span>{" "}
+              <span className={`stat-badge text-[10px] align-middle ${getTierClass(tier.name)}`}>
+                {tier.name}
+              </span>
+            </StatBox>
+            <StatBox label="RECORD">
+              <span className="text-green-400">{profile.wins}</span>
+              <span className="text-smoke">-</span>
+              <span className="text-signal">{profile.losses}</span>
+              {profile.draws > 0 && <span className="text-smoke">-{profile.draws}</span>}
+            </StatBox>
+            <StatBox label="STREAK">{streakDisplay}</StatBox>
+            <StatBox label="GLICKO-2">
+              <span className="text-navy">{Math.round(profile.glickoRating)}</span>{" "}
+              <span className={`text-xs ${getConfidenceColorClass(getDeviationConfidence(profile.glickoDeviation))}`}>
+                ±{Math.round(2 * profile.glickoDeviation)}
+              </span>
+            </StatBox>
+            <StatBox label="PEAK">{profile.peakRating}</StatBox>
+            <StatBox label="LOWEST">{profile.lowestRating}</StatBox>
+            <StatBox label="WIN% (95% CI)">
+              <span className="text-sm">
+                {profile.games > 0
+                  ? `${formatWilsonScore(interval.lower)} – ${formatWilsonScore(interval.upper)}`
+                  : "-"}
+              </span>
+            </StatBox>
+          </div>
+        </section>
+
+        {profile.isProvisional && (
+          <p className="font-mono text-xs text-champion">
+            PROVISIONAL — rating will settle after more games
+          </p>
+        )}
+
+        {/* Rating over time */}
+        <section>
+          <h2 className="text-label mb-2">RATING OVER TIME</h2>
+          <RatingChart ratings={profile.ratingTimeline.map((point) => point.rating)} />
+        </section>
+
+        {/* Opponents and notable results */}
+        <section className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+          <div className="card-brutal p-3">
+            <div className="text-label mb-2">MOST COMMON OPPONENTS</div>
+            {profile.commonOpponents.length === 0 ? (
+              <p className="font-mono text-xs text-smoke">No matchups yet</p>
+            ) : (
+              <ul className="space-y-1">
+                {profile.commonOpponents.map((opponent) => (
+                  <li key={opponent.heroId} className="flex items-center justify-between font-mono text-xs">
+                    <Link href={`/hero/${opponent.heroId}`} className="truncate hover:text-signal">
+                      {opponent.heroName}
+                    </Link>
+                    <span>
+                      <span className="text-green-400">{opponent.wins}</span>
+                      <span className="text-smoke">-</span>
+                      <span className="text-signal">{opponent.losses}</span>
+                      {opponent.draws > 0 && <span className="text-smoke">-{opponent.draws}</span>}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+          <NotableResultList title="BIGGEST WINS" results={profile.biggestWins} emptyText="No wins yet" />
+          <NotableResultList title="BIGGEST LOSSES" results={profile.biggestLosses} emptyText="No losses yet" />
+        </section>
+
+        {rival && (
+          <section>
+            <HeadToHead
+              title="RIVALRY"
+              heroAName={profile.heroName}
+              heroBName={rival.heroName}
+              record={rivalryQuery.data}
+              isLoading={rivalryQuery.isLoading}
+            />
+          </section>
+        )}
+
+        {/* Biography */}
+        <section className="border-2 border-ink">
+          <h2 className="text-label px-3 py-2">BIOGRAPHY</h2>
+          <HeroDescription
+            biography={biography}
+            isLoading={heroQuery.isLoading}
+            error={biographyError}
+            onRetry={() => heroQuery.refetch()}
+          />
+        </section>
+      </main>
+    </div>
+  );
+};
+
+export default HeroPage;
+
+export const getStaticPaths: GetStaticPaths = async () => {
+  // Profiles are generated on first request, then revalidated like the results page
+  return { paths: [], fallback: "blocking" };
+};
+
+export const getStaticProps: GetStaticProps = async ({ params }) => {
+  const heroId = Number(params?.id);
+  if (!Number.isInteger(heroId) || !(await getCatalogHero(heroId))) {
+    return { notFound: true };
+  }
+
+  const profile = await getHeroProfile(heroId);
+
+  return {
+    props: {
+      profile,
+    },
+    revalidate: 60,
+  };
+};
@@ -1,77 +1,135 @@
 import { trpc } from "../utils/trpc";
-import { getForVote } from "../utils/getRandomHero";
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import Link from "next/link";
 import Head from "next/head";
 import { RatingChangeToast, RatingChangeData } from "../components/RatingChangeToast";
 import {
   AchievementBadges,
   AchievementUnlockToast,
-  getVoteCount,
-  incrementVoteCount,
-  getUnlockedBadges,
-  Badge
 } from "../components/AchievementBadges";
-import {
-  VotingStreak,
-  getStreakData,
-  updateStreak,
-  StreakData
-} from "../components/VotingStreak";
-import {
-  DiscoveryTracker,
-  getDiscoveredHeroes,
-  addDiscoveredHeroes,
-} from "../components/DiscoveryTracker";
+import { VotingStreak } from "../components/VotingStreak";
+import { DiscoveryTracker } from "../components/DiscoveryTracker";
+import { ConsensusMeter } from "../components/ConsensusMeter";
+import { clearLegacyProgress, readLegacyProgress } from "../utils/legacyProgress";
+import type { StreakData, VoterProgress } from "../backend/voters";
+import type { AchievementProgress } from "../backend/achievements";
+import { celebrateAchievement } from "../utils/confetti";
 import { useQueryClient } from "react-query";
 import { HeroCard } from "../components/HeroCard";
+import { HeadToHead } from "../components/HeadToHead";
+import { TrendingHeroes } from "../components/TrendingHeroes";
 import { extractBiographyData, type SuperHeroApiResponse } from "../types/heroBiography";
 
+/** Shown until the voter's progress loads */
+const EMPTY_STREAK: StreakData = {
+  currentStreak: 0,
+  longestStreak: 0,
+  lastVoteDate: null,
+  votedToday: false,
+};
+
 export default function Home() {
   const queryClient = useQueryClient();
   // Track if component has mounted on client to avoid hydration mismatch
   const [isMounted, setIsMounted] = useState(false);
-  // Initialize with placeholder to avoid hydration mismatch - random IDs only generated on client
-  const [ids, updateId] = useState<[number, number] | null>(null);
   const [toastData, setToastData] = useState<RatingChangeData | null>(null);
-  const [voteCount, setVoteCount] = useState(0);
-  const [unlockedBadge, setUnlockedBadge] = useState<Badge | null>(null);
-  const [streakData, setStreakData] = useState<StreakData>({
-    currentStreak: 0,
-    longestStreak: 0,
-    lastVoteDate: null,
-    votedToday: false,
-  });
-  const [discoveredCount, setDiscoveredCount] = useState(0);
+  // Undo token for the vote shown in the toast, valid until undoExpiresAt
+  const [lastVoteUndo, setLastVoteUndo] = useState<{ undoToken: string; undoExpiresAt: number } | null>(null);
+  const [undoError, setUndoError] = useState<string | null>(null);
+  const [unlockedBadge, setUnlockedBadge] = useState<AchievementProgress | null>(null);
   const [newDiscovery, setNewDiscovery] = useState(false);
-
-  // Mark as mounted and generate random hero IDs only on client side
+  // Matchups wait for the voter session, so the first vote can't start a session without the legacy progress
+  const [isSessionStarted, setIsSessionStarted] = useState(false);
+  // Set when localStorage progress claimed more than the server could accept
+  const [legacyTruncated, setLegacyTruncated] = useState(false);
+  // Last progress seen, to spot new badges and discoveries
+  const previousProgressRef = useRef<VoterProgress | null>(null);
+  // Last pair voted on, shown with its head-to-head record
+  const [lastMatchup, setLastMatchup] = useState<{
+    winnerId: number;
+    loserId: number;
+    winnerName: string;
+    loserName: string;
+  } | null>(null);
+
+  const startSessionMutate = trpc.useMutation(["start-voter-session"]);
+  const progressQuery = trpc.useQuery(["get-voter-progress"], { enabled: isSessionStarted });
+  const progress = progressQuery.data ?? null;
+  const consensusQuery = trpc.useQuery(["get-voter-consensus"], { enabled: isSessionStarted });
+
+  // Mark as mounted so the matchup is only requested on the client side, and start
+  // (or resume) the voter session, handing over any progress saved before sessions existed
   useEffect(() => {
     setIsMounted(true);
-    const newIds = getForVote();
-    updateId(newIds);
-    setVoteCount(getVoteCount());
-    setStreakData(getStreakData());
-    setDiscoveredCount(getDiscoveredHeroes().size);
+    startSessionMutate.mutate({ legacyProgress: readLegacyProgress() ?? undefined }, {
+      onSuccess: (data) => {
+        if (data.success && data.created) {
+          clearLegacyProgress();
+          setLegacyTruncated(data.legacyTruncated);
+        }
+      },
+      // Voting still works without a session; progress just isn't shown
+      onSettled: () => setIsSessionStarted(true),
+    });
+    // Only once per page load
+    // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
+  // Progress is computed on the server; compare with the last copy to celebrate changes
+  useEffect(() => {
+    if (!progress) return;
+    const previous = previousProgressRef.current;
+    previousProgressRef.current = progress;
+    if (!previous) return;
+
+    if (progress.discoveredCount > previous.discoveredCount) {
+      setNewDiscovery(true);
+    }
+
+    // If a vote unlocks several achievements at once, show the biggest
+    const previouslyUnlocked = new Set(previous.achievements.filter((a) => a.unlocked).map((a) => a.id));
+    const newlyUnlocked = progress.achievements
+      .filter((achievement) => achievement.unlocked && !previouslyUnlocked.has(achievement.id))
+      .sort((a, b) => b.tier - a.tier);
+    const newBadge = newlyUnlocked[0];
+    if (newBadge) {
+      setUnlockedBadge(newBadge);
+      celebrateAchievement(newBadge.tier);
+    }
+  }, [progress]);
+
+  useEffect(() => {
+    if (!newDiscovery) return;
+    const timer = setTimeout(() => setNewDiscovery(false), 2000);
+    return () => clearTimeout(timer);
+  }, [newDiscovery]);
+
+  // The server picks the pair and signs it; the token must accompany the vote.
+  // Never refetch in the background - the pair must not change under the voter.
+  const matchupQuery = trpc.useQuery(["get-matchup"], {
+    enabled: isMounted && isSessionStarted,
+    staleTime: Infinity,
+    cacheTime: 0,
+    refetchOnWindowFocus: false,
+    refetchOnReconnect: false,
+  });
+  const matchup = matchupQuery.data;
+  const ids = matchup?.heroIds ?? null;
+
   const [id1, id2] = ids || [0, 0];
 
   const firstHeroQuery = trpc.useQuery(["get-hero-by-id", { id: id1 }], { enabled: isMounted && id1 > 0 });
   const secondHeroQuery = trpc.useQuery(["get-hero-by-id", { id: id2 }], { enabled: isMounted && id2 > 0 });
 
+  // Each new matchup (after a vote, skip or undo) can change the voter's progress and consensus
+  const refetchProgress = progressQuery.refetch;
+  const refetchConsensus = consensusQuery.refetch;
   useEffect(() => {
     if (id1 && id2) {
-      const discoveryData = addDiscoveredHeroes([id1, id2]);
-      setDiscoveredCount(discoveryData.totalDiscovered);
-
-      if (discoveryData.newlyDiscovered.length > 0) {
-        setNewDiscovery(true);
-        const timer = setTimeout(() => setNewDiscovery(false), 2000);
-        return () => clearTimeout(timer);
-      }
+      refetchProgress();
+      refetchConsensus();
     }
-  }, [id1, id2]);
+  }, [id1, id2, refetchProgress, refetchConsensus]);
 
   const hero1Name = firstHeroQuery.data?.name || "";
   const hero2Name = secondHeroQuery.data?.name || "";
@@ -88,8 +146,21 @@ export default function Home() {
     : null;
 
   const voteMutate = trpc.useMutation(["cast-vote"]);
+  const skipMutate = trpc.useMutation(["skip-matchup"]);
+  const undoMutate = trpc.useMutation(["undo-vote"]);
+  const rosterSizeQuery = trpc.useQuery(["get-roster-size"], { staleTime: Infinity });
+  const moversQuery = trpc.useQuery(["get-movers", { window: "24h" }], { enabled: isMounted, staleTime: 60 * 1000 });
+
+  const headToHeadQuery = trpc.useQuery(
+    ["get-head-to-head", { heroA: lastMatchup?.winnerId ?? 0, heroB: lastMatchup?.loserId ?? 0 }],
+    { enabled: lastMatchup !== null }
+  );
+
+  // For a draw, `select` is just the hero listed first
+  const vote = (select: number, outcome: "win" | "draw" = "win") => {
+    // Each matchup token can only be used once
+    if (!matchup || voteMutate.isLoading || matchupQuery.isFetching) return;
 
-  const vote = (select: number) => {
     const winnerName = select === id1 ? hero1Name : hero2Name;
     const loserName = select === id1 ? hero2Name : hero1Name;
 
@@ -98,30 +169,14 @@ export default function Home() {
         ? { votedFor: id1, votedAgainst: id2, votedForName: hero1Name, votedAgainstName: hero2Name }
         : { votedFor: id2, votedAgainst: id1, votedForName: hero2Name, votedAgainstName: hero1Name };
 
-    voteMutate.mutate(voteData, {
+    voteMutate.mutate({ ...voteData, matchupToken: matchup.token, outcome }, {
       onSuccess: (data) => {
         queryClient.invalidateQueries(["get-hero-by-id"]);
 
-        const previousBadges = getUnlockedBadges(voteCount);
-        const previousBadgeCount = previousBadges.length;
-
-        const newVoteCount = incrementVoteCount();
-        setVoteCount(newVoteCount);
-
-        const newStreakData = updateStreak();
-        setStreakData(newStreakData);
-
-        const currentBadges = getUnlockedBadges(newVoteCount);
-        const currentBadgeCount = currentBadges.length;
-
-        if (currentBadgeCount > previousBadgeCount) {
-          const newBadge = currentBadges[currentBadgeCount - 1];
-          if (newBadge) {
-            setUnlockedBadge(newBadge);
-          }
-        }
-
         if (data.success && data.winnerRatingChange !== undefined) {
+          setLastMatchup({ winnerId: voteData.votedFor, loserId: voteData.votedAgainst, winnerName, loserName });
+          setLastVoteUndo({ undoToken: data.undoToken, undoExpiresAt: data.undoExpiresAt });
+          setUndoError(null);
           setToastData({
             winnerName,
             loserName,
@@ -129,10 +184,52 @@ export default function Home() {
             loserChange: data.loserRatingChange,
             winnerNewRating: data.winnerNewRating,
             loserNewRating: data.loserNewRating,
+            isDraw: outcome === "draw",
           });
         }
 
-        updateId(getForVote());
+        matchupQuery.refetch();
+      },
+    });
+  };
+
+  const skip = () => {
+    if (!matchup || skipMutate.isLoading || matchupQuery.isFetching) return;
+
+    // Record the skip for matchmaking metrics; a new matchup is fetched either way
+    skipMutate.mutate({ matchupToken: matchup.token }, {
+      onSettled: () => {
+        matchupQuery.refetch();
+      },
+    });
+  };
+
+  const undoLastVote = () => {
+    if (!lastVoteUndo || undoMutate.isLoading) return;
+
+    if (Date.now() > lastVoteUndo.undoExpiresAt) {
+      setLastVoteUndo(null);
+      setUndoError("Too late to undo");
+      return;
+    }
+
+    undoMutate.mutate({ undoToken: lastVoteUndo.undoToken }, {
+      onSuccess: (data) => {
+        setLastVoteUndo(null);
+
+        if (!data.success) {
+          setUndoError(data.error ?? "Could not undo vote");
+          return;
+        }
+
+        queryClient.invalidateQueries(["get-head-to-head"]);
+        progressQuery.refetch();
+        consensusQuery.refetch();
+        setLastMatchup(null);
+        setToastData(null);
+      },
+      onError: () => {
+        setUndoError("Network error. Vote was not undone.");
       },
     });
   };
@@ -143,7 +240,17 @@ export default function Home() {
         <title>HERO RANK — Vote for Your Favorite</title>
       </Head>
 
-      <RatingChangeToast data={toastData} onClose={() => setToastData(null)} />
+      <RatingChangeToast
+        data={toastData}
+        onClose={() => {
+          setToastData(null);
+          setLastVoteUndo(null);
+          setUndoError(null);
+        }}
+        onUndo={lastVoteUndo ? undoLastVote : undefined}
+        isUndoing={undoMutate.isLoading}
+        undoError={undoError}
+      />
       <AchievementUnlockToast
         badge={unlockedBadge}
         onClose={() => setUnlockedBadge(null)}
@@ -159,11 +266,18 @@ export default function Home() {
                 ELO-BASED SUPERHERO RANKINGS
               </p>
             </div>
-            <Link href="/results">
-              <span className="btn-brutal-ink text-xs">
-                VIEW RANKINGS
-              </span>
-            </Link>
+            <div className="flex gap-2">
+              <Link href="/my-rankings">
+                <span className="btn-brutal-ink text-xs">
+                  MY RANKINGS
+                </span>
+              </Link>
+              <Link href="/results">
+                <span className="btn-brutal-ink text-xs">
+                  VIEW RANKINGS
+                </span>
+              </Link>
+            </div>
           </div>
         </div>
       </header>
@@ -172,9 +286,25 @@ export default function Home() {
       <main className="max-w-4xl mx-auto px-3 py-6">
         {/* Instruction */}
         <p className="font-display text-center text-lg mb-6 text-charcoal">
-          Click the hero you prefer to vote
+          Click the hero you prefer to vote, or call it a draw
         </p>
 
+        {/* Legacy progress that couldn't be merged in full */}
+        {legacyTruncated && (
+          <div className="max-w-md mx-auto mb-6 border-2 border-ink bg-concrete px-3 py-2 flex items-start justify-between gap-3">
+            <p className="font-mono text-xs text-charcoal">
+              Some of the progress saved in this browser couldn&apos;t be verified, so it was only partly carried over.
+            </p>
+            <button
+              onClick={() => setLegacyTruncated(false)}
+              className="text-smoke hover:text-ink text-sm leading-none font-bold"
+              aria-label="Close"
+            >
+              X
+            </button>
+          </div>
+        )}
+
         {/* Battle Arena */}
         {isMounted && ids ? (
           <div className="flex flex-col sm:flex-row items-center justify-center gap-4 sm:gap-8 mb-6">
@@ -226,30 +356,60 @@ export default function Home() {
           </div>
         )}
 
-        {/* Skip Button */}
-        <div className="text-center mb-8">
+        {/* Draw / Skip Buttons */}
+        <div className="flex items-center justify-center gap-3 mb-8">
+          <button
+            onClick={() => vote(id1, "draw")}
+            disabled={!ids}
+            className="btn-brutal text-xs disabled:opacity-50"
+          >
+            CAN&apos;T DECIDE (DRAW)
+          </button>
           <button
-            onClick={() => updateId(getForVote())}
+            onClick={skip}
             className="btn-brutal text-xs"
           >
             SKIP / NEW MATCHUP
           </button>
         </div>
 
+        {/* Head-to-head record of the last vote */}
+        {lastMatchup && (
+          <div className="max-w-md mx-auto mb-8">
+            <HeadToHead
+              title="LAST MATCHUP"
+              heroAName={lastMatchup.winnerName}
+              heroBName={lastMatchup.loserName}
+              record={headToHeadQuery.data}
+              isLoading={headToHeadQuery.isLoading}
+            />
+          </div>
+        )}
+
+        {/* Trending in the last 24 hours */}
+        <div className="max-w-md mx-auto mb-8">
+          <div className="text-label mb-2">TRENDING (24H)</div>
+          <TrendingHeroes feed={moversQuery.data} isLoading={moversQuery.isLoading} compact />
+        </div>
+
         {/* Stats Section */}
         <div className="border-t-3 border-ink pt-6">
-          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+          <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-4 gap-3">
             {/* Discovery Tracker */}
             <DiscoveryTracker
-              discoveredCount={discoveredCount}
+              discoveredCount={progress?.discoveredCount ?? 0}
               newDiscovery={newDiscovery}
+              totalHeroes={rosterSizeQuery.data}
             />
 
             {/* Voting Streak */}
-            <VotingStreak streakData={streakData} />
+            <VotingStreak streakData={progress?.streak ?? EMPTY_STREAK} />
 
             {/* Achievement Badges */}
-            <AchievementBadges voteCount={voteCount} />
+            <AchievementBadges voteCount={progress?.voteCount ?? 0} achievements={progress?.achievements ?? []} />
+
+            {/* Agreement with the global ratings */}
+            <ConsensusMeter consensus={consensusQuery.data ?? null} />
           </div>
         </div>
       </main>
@@ -258,7 +418,7 @@ export default function Home() {
       <footer className="border-t-2 border-ink mt-8">
         <div className="max-w-4xl mx-auto px-3 py-2">
           <p className="font-mono text-xs text-smoke text-center">
-            731 HEROES · ELO RATING SYSTEM · K=32
+            {rosterSizeQuery.data ?? "-"} HEROES · ELO RATING SYSTEM · K=32
           </p>
         </div>
       </footer>
@@ -0,0 +1,131 @@
+import Head from "next/head";
+import Link from "next/link";
+import { trpc } from "../utils/trpc";
+import type { GlobalRanking, PersonalRanking } from "../backend/personalRankings";
+
+const formatRankDifference = (difference: number | null): React.ReactNode => {
+  if (difference === null) return <span className="text-smoke">NEW</span>;
+  if (difference > 0) return <span className="text-green-400">▲{difference}</span>;
+  if (difference < 0) return <span className="text-signal">▼{Math.abs(difference)}</span>;
+  return <span className="text-smoke">=</span>;
+};
+
+const PersonalList: React.FC<{ rankings: PersonalRanking[] }> = ({ rankings }) => (
+  <div className="card-brutal p-3">
+    <div className="grid grid-cols-[2rem_1fr_3.5rem_3rem_3rem] gap-2 text-label mb-2">
+      <span>#</span>
+      <span>HERO</span>
+      <span className="text-right">RATING</span>
+      <span className="text-right">WORLD</span>
+      <span className="text-right">DIFF</span>
+    </div>
+    <ul className="space-y-1">
+      {rankings.map((hero) => (
+        <li
+          key={hero.heroId}
+          className="grid grid-cols-[2rem_1fr_3.5rem_3rem_3rem] gap-2 font-mono text-xs items-center"
+        >
+          <span className="font-bold">{hero.personalRank}</span>
+          <Link href={`/hero/${hero.heroId}`} className="truncate hover:text-signal">
+            {hero.heroName}
+          </Link>
+          <span className="text-right text-navy">{hero.personalRating}</span>
+          <span className="text-right text-smoke">{hero.globalRank ?? "-"}</span>
+          <span className="text-right font-bold">{formatRankDifference(hero.rankDifference)}</span>
+        </li>
+      ))}
+    </ul>
+  </div>
+);
+
+const GlobalList: React.FC<{ rankings: GlobalRanking[] }> = ({ rankings }) => (
+  <div className="card-brutal p-3">
+    <div className="grid grid-cols-[2rem_1fr_3.5rem_3rem] gap-2 text-label mb-2">
+      <span>#</span>
+      <span>HERO</span>
+      <span className="text-right">RATING</span>
+      <span className="text-right">YOURS</span>
+    </div>
+    <ul className="space-y-1">
+      {rankings.map((hero) => (
+        <li key={hero.heroId} className="grid grid-cols-[2rem_1fr_3.5rem_3rem] gap-2 font-mono text-xs items-center">
+          <span className="font-bold">{hero.globalRank}</span>
+          <Link href={`/hero/${hero.heroId}`} className="truncate hover:text-signal">
+            {hero.heroName}
+          </Link>
+          <span className="text-right text-navy">{Math.round(hero.globalRating)}</span>
+          <span className="text-right text-smoke">{hero.personalRank ?? "-"}</span>
+        </li>
+      ))}
+    </ul>
+  </div>
+);
+
+/**
+ * The voter's own ranking, rated from only their votes, next to the global top heroes.
+ */
+export default function MyRankings() {
+  const rankingsQuery = trpc.useQuery(["get-personal-rankings"]);
+  const rankings = rankingsQuery.data;
+
+  return (
+    <div className="min-h-screen">
+      <Head>
+        <title>MY RANKINGS — HERO RANK</title>
+      </Head>
+
+      {/* Header */}
+      <header className="border-b-3 border-ink">
+        <div className="max-w-4xl mx-auto px-3 py-3">
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-display text-2xl sm:text-3xl">MY RANKINGS</h1>
+              <p className="font-mono text-xs text-smoke mt-0.5">
+                {rankings ? `${rankings.votes} VOTES · ${rankings.heroesRated} HEROES` : "ELO FROM YOUR VOTES ONLY"}
+              </p>
+            </div>
+            <div className="flex gap-2">
+              <Link href="/results">
+                <span className="btn-brutal-ink text-xs">RANKINGS</span>
+              </Link>
+              <Link href="/">
+                <span className="btn-brutal-signal text-xs">VOTE NOW</span>
+              </Link>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-4xl mx-auto px-3 py-6">
+        {rankingsQuery.isLoading ? (
+          <div className="card-brutal p-3">
+            <div className="skeleton h-4 w-full" />
+          </div>
+        ) : rankingsQuery.error ? (
+          <p className="font-mono text-sm text-signal text-center">Could not load your rankings.</p>
+        ) : !rankings || rankings.votes === 0 ? (
+          <div className="text-center py-12 floating-card">
+            <p className="font-display text-xl text-charcoal">NO VOTES YET</p>
+            <p className="font-mono text-sm text-smoke mt-2">Vote on a few matchups to build your own ranking</p>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <section>
+              <h2 className="text-label mb-2">YOUR TOP {rankings.personalTop.length}</h2>
+              <PersonalList rankings={rankings.personalTop} />
+            </section>
+            <section>
+              <h2 className="text-label mb-2">GLOBAL TOP {rankings.globalTop.length}</h2>
+              <GlobalList rankings={rankings.globalTop} />
+            </section>
+          </div>
+        )}
+
+        <p className="font-mono text-xs text-smoke mt-6">
+          Every hero starts at 1500 and only your votes move them. DIFF is how many places higher (▲) or lower (▼)
+          you rank a hero than the global leaderboard.
+        </p>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,138 @@
+import Head from "next/head";
+import Link from "next/link";
+import { trpc } from "../utils/trpc";
+import { describeTaste, type ConsensusScore } from "../utils/consensus";
+
+/** Days shown in the agreement trend */
+const TREND_DAYS = 30;
+
+const formatPercent = (value: number | null): string => (value !== null ? `${Math.round(value * 100)}%` : "-");
+
+const formatIndex = (value: number | null): string => (value !== null ? String(Math.round(value)) : "-");
+
+const ScoreCard: React.FC<{ title: string; score: ConsensusScore }> = ({ title, score }) => (
+  <div className="card-brutal p-3">
+    <div className="flex items-center justify-between mb-2">
+      <span className="text-label">{title}</span>
+      <span className="font-mono text-[10px] text-smoke">{score.count} PICKS</span>
+    </div>
+    <div className="flex items-baseline gap-1 mb-2">
+      <span className="font-mono text-3xl font-bold text-navy">{formatPercent(score.agreement)}</span>
+      <span className="font-mono text-sm text-smoke">agree</span>
+    </div>
+    <div className="font-mono text-xs space-y-1">
+      <div className="flex justify-between">
+        <span className="text-smoke">CONTRARIAN INDEX</span>
+        <span className="font-bold text-signal">{formatIndex(score.contrarianIndex)}</span>
+      </div>
+      <div className="flex justify-between">
+        <span className="text-smoke">AVG PICK ODDS</span>
+        <span className="font-bold">{formatPercent(score.averagePickProbability)}</span>
+      </div>
+      <div className="flex justify-between">
+        <span className="text-smoke">TASTE</span>
+        <span className="font-bold">{describeTaste(score.contrarianIndex)}</span>
+      </div>
+    </div>
+  </div>
+);
+
+/**
+ * The voter's profile: progress, and how closely their picks follow the global ratings over time.
+ */
+export default function Profile() {
+  const progressQuery = trpc.useQuery(["get-voter-progress"]);
+  const consensusQuery = trpc.useQuery(["get-voter-consensus"]);
+  const progress = progressQuery.data;
+  const consensus = consensusQuery.data;
+  const trend = consensus ? consensus.daily.slice(-TREND_DAYS).reverse() : [];
+
+  return (
+    <div className="min-h-screen">
+      <Head>
+        <title>PROFILE — HERO RANK</title>
+      </Head>
+
+      {/* Header */}
+      <header className="border-b-3 border-ink">
+        <div className="max-w-4xl mx-auto px-3 py-3">
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-display text-2xl sm:text-3xl">PROFILE</h1>
+              <p className="font-mono text-xs text-smoke mt-0.5">
+                {progress
+                  ? `${progress.voteCount} VOTES · ${progress.streak.currentStreak} DAY STREAK · ${progress.discoveredCount} DISCOVERED`
+                  : "YOUR VOTING HISTORY"}
+              </p>
+            </div>
+            <div className="flex gap-2">
+              <Link href="/my-rankings">
+                <span className="btn-brutal-ink text-xs">MY RANKINGS</span>
+              </Link>
+              <Link href="/">
+                <span className="btn-brutal-signal text-xs">VOTE NOW</span>
+              </Link>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-4xl mx-auto px-3 py-6">
+        {consensusQuery.isLoading ? (
+          <div className="card-brutal p-3">
+            <div className="skeleton h-4 w-full" />
+          </div>
+        ) : consensusQuery.error ? (
+          <p className="font-mono text-sm text-signal text-center">Could not load your profile.</p>
+        ) : !consensus || consensus.overall.count === 0 ? (
+          <div className="text-center py-12 floating-card">
+            <p className="font-display text-xl text-charcoal">NO PICKS YET</p>
+            <p className="font-mono text-sm text-smoke mt-2">Vote on a few matchups to see how mainstream your taste is</p>
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mb-6">
+              <ScoreCard title="ALL TIME" score={consensus.overall} />
+              <ScoreCard title="RECENT" score={consensus.recent} />
+            </div>
+
+            {/* Daily trend, newest first */}
+            <h2 className="text-label mb-2">AGREEMENT BY DAY</h2>
+            <div className="card-brutal p-3">
+              <div className="grid grid-cols-[6rem_1fr_3rem_3rem] gap-2 text-label mb-2">
+                <span>DAY</span>
+                <span>AGREEMENT</span>
+                <span className="text-right">PICKS</span>
+                <span className="text-right">CONTRA</span>
+              </div>
+              <ul className="space-y-1">
+                {trend.map((day) => (
+                  <li key={day.day} className="grid grid-cols-[6rem_1fr_3rem_3rem] gap-2 font-mono text-xs items-center">
+                    <span className="text-smoke">{day.day}</span>
+                    <div className="flex items-center gap-2">
+                      <div className="rating-bar flex-1">
+                        <div
+                          className="rating-bar-fill-navy"
+                          style={{ width: `${Math.round((day.agreement ?? 0) * 100)}%` }}
+                        />
+                      </div>
+                      <span className="w-8 text-right">{formatPercent(day.agreement)}</span>
+                    </div>
+                    <span className="text-right">{day.count}</span>
+                    <span className="text-right text-signal">{formatIndex(day.contrarianIndex)}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          </>
+        )}
+
+        <p className="font-mono text-xs text-smoke mt-6">
+          Each pick is scored by the chance the global Elo ratings gave your hero just before you voted. AGREEMENT
+          is how often you backed the favorite; the CONTRARIAN INDEX (0-100) weighs upsets by how big the underdog
+          was, so 0 always sides with the ratings and random picks land near 50. Draws aren&apos;t counted.
+        </p>
+      </main>
+    </div>
+  );
+}
@@ -2,107 +2,78 @@ import type { GetStaticProps } from "next";
 import Head from "next/head";
 import Image from "next/image";
 import Link from "next/link";
-import { turso } from "../utils/turso";
+import { useRouter } from "next/router";
 import { useState, useRef, useCallback, useEffect } from "react";
 import { useWindowVirtualizer } from "@tanstack/react-virtual";
 import {
   wilsonScore,
-  formatWilsonScore
+  trueSkillEstimate,
+  formatWilsonScore,
+  getConfidenceColorClass,
+  type ConfidenceLevel
 } from "../utils/wilsonScore";
+import { getDeviationConfidence } from "../utils/glicko2";
+import { RATING_ENGINE, type RatingEngineName } from "../backend/ratingEngine";
+import {
+  getLeaderboardPage,
+  getLeaderboardSummary,
+  type LeaderboardEntry,
+  type LeaderboardPage,
+  type LeaderboardSort,
+  type LeaderboardSummary,
+} from "../backend/leaderboard";
+import { getSeasons, type Season } from "../backend/seasons";
+import { getPublishers } from "../backend/heroCatalog";
+import type { Standing } from "../backend/standings";
+import type { LeaderboardWindow } from "../backend/windowedLeaderboard";
+import type { MoversWindow } from "../backend/movers";
+import { isProvisional } from "../utils/elo";
 import { trpc } from "../utils/trpc";
 import { HeroDescription } from "../components/HeroDescription";
+import { ShadowComparison } from "../components/ShadowComparison";
+import { TrendingHeroes } from "../components/TrendingHeroes";
 import { motion, AnimatePresence } from "framer-motion";
 import type { HeroBiography, SuperHeroApiResponse } from "../types/heroBiography";
 import { extractBiographyData } from "../types/heroBiography";
-
-interface SerializedHeroRating {
-  heroId: number;
-  rating: number;
-  games: number;
-  wins: number;
-  losses: number;
-  isProvisional: boolean;
-  winRate: number;
-  currentStreak: number;
-  wilsonScore: number;
-  heroName: string;
-}
-
-interface DashboardStats {
-  totalVotes: number;
-  totalHeroes: number;
-  highestRatedHero: { name: string; rating: number; heroId: number } | null;
-  averageRating: number;
-}
+import { getTier, getTierClass, getTierExpandedBg, type TierName } from "../utils/tiers";
+import {
+  catalogFiltersToQuery,
+  EMPTY_CATALOG_FILTERS,
+  hasCatalogFilters,
+  HERO_ALIGNMENTS,
+  parseCatalogFilters,
+  type CatalogFilters,
+  type PowerstatKey,
+} from "../utils/catalogFilters";
+import { POWERSTAT_KEYS } from "../types/heroCatalog";
 
 // Re-export HeroBiography for backward compatibility
 export type { HeroBiography } from "../types/heroBiography";
 
-type TierName = "DIAMOND" | "PLATINUM" | "GOLD" | "SILVER" | "BRONZE";
-
-const getTier = (rating: number): { name: TierName; min: number } => {
-  if (rating >= 1850) return { name: "DIAMOND", min: 1850 };
-  if (rating >= 1700) return { name: "PLATINUM", min: 1700 };
-  if (rating >= 1550) return { name: "GOLD", min: 1550 };
-  if (rating >= 1400) return { name: "SILVER", min: 1400 };
-  return { name: "BRONZE", min: 0 };
-};
-
-const getTierClass = (tier: TierName): string => {
-  switch (tier) {
-    case "DIAMOND": return "tier-diamond";
-    case "PLATINUM": return "tier-platinum";
-    case "GOLD": return "tier-gold";
-    case "SILVER": return "tier-silver";
-    case "BRONZE": return "tier-bronze";
-  }
-};
-
-const getTierExpandedBg = (tier: TierName): string => {
-  switch (tier) {
-    case "DIAMOND": return "tier-expanded-diamond";
-    case "PLATINUM": return "tier-expanded-platinum";
-    case "GOLD": return "tier-expanded-gold";
-    case "SILVER": return "tier-expanded-silver";
-    case "BRONZE": return "tier-expanded-bronze";
-  }
-};
-
-const getHeroRatings = async (): Promise<SerializedHeroRating[]> => {
-  try {
-    const result = await turso.execute({
-      sql: "SELECT * FROM heroRatings ORDER BY rating DESC",
-      args: []
-    });
-
-    const ratings: SerializedHeroRating[] = [];
-
-    for (const row of result.rows) {
-      const data: any = row;
-      const wilsonScoreValue = wilsonScore(Number(data.wins), Number(data.games));
-      ratings.push({
-        heroId: Number(data.hero_id),
-        rating: Number(data.rating),
-        games: Number(data.games),
-        wins: Number(data.wins),
-        losses: Number(data.losses),
-        isProvisional: Boolean(data.is_provisional),
-        winRate: Number(data.win_rate),
-        currentStreak: Number(data.current_streak),
-        wilsonScore: wilsonScoreValue,
-        heroName: data.hero_name || `Hero #${data.hero_id}`,
-      });
-    }
-
-    return ratings;
-  } catch (error) {
-    console.error("Error fetching hero ratings:", error);
-    return [];
-  }
-};
+/**
+ * Converts a season or recent-window standing to a leaderboard row. These have no Bradley-Terry fit.
+ */
+const standingToRating = (standing: Standing): LeaderboardEntry => ({
+  heroId: standing.heroId,
+  rating: standing.rating,
+  games: standing.games,
+  wins: standing.wins,
+  losses: standing.losses,
+  draws: standing.draws,
+  isProvisional: isProvisional(standing.games),
+  winRate: standing.games > 0 ? (standing.wins / standing.games) * 100 : 0,
+  currentStreak: standing.currentStreak,
+  wilsonScore: wilsonScore(standing.wins, standing.games),
+  trueSkill: trueSkillEstimate(standing.eloRating, standing.wins, standing.games),
+  deviation: standing.glickoDeviation,
+  confidence: getDeviationConfidence(standing.glickoDeviation),
+  btRating: null,
+  btStdError: null,
+  heroName: standing.heroName || `Hero #${standing.heroId}`,
+});
 
 const RankingRow: React.FC<{
-  hero: SerializedHeroRating;
+  hero: LeaderboardEntry;
   rank: number;
   isExpanded: boolean;
   onClick: () => void;
@@ -233,6 +204,7 @@ const RankingRow: React.FC<{
               <span className="text-green-400">{hero.wins}</span>
               <span className="text-smoke">-</span>
               <span className="text-signal">{hero.losses}</span>
+              {hero.draws > 0 && <span className="text-smoke">-{hero.draws}</span>}
             </div>
           </div>
           <div className="w-14 text-center">
@@ -253,6 +225,17 @@ const RankingRow: React.FC<{
             <div className="text-label">WILSON</div>
             <div className="text-navy">{formatWilsonScore(hero.wilsonScore)}</div>
           </div>
+          <div
+            className="w-14 text-center"
+            title={hero.btStdError === null ? "Not in the last Bradley-Terry fit" : `±${Math.round(2 * hero.btStdError)} (95%)`}
+          >
+            <div className="text-label">B-T</div>
+            <div className="text-navy">{hero.btRating ?? "-"}</div>
+          </div>
+          <div className="w-14 text-center" title={`95% range: ±${Math.round(2 * hero.deviation)}`}>
+            <div className="text-label">CONF</div>
+            <div className={getConfidenceColorClass(hero.confidence)}>±{Math.round(2 * hero.deviation)}</div>
+          </div>
         </div>
       </div>
       
@@ -271,6 +254,11 @@ const RankingRow: React.FC<{
               error={error}
               onRetry={onRetry}
             />
+            <div className="px-3 pb-3 text-right">
+              <Link href={`/hero/${hero.heroId}`}>
+                <span className="btn-brutal text-xs">VIEW FULL PROFILE</span>
+              </Link>
+            </div>
           </motion.div>
         )}
       </AnimatePresence>
@@ -278,25 +266,125 @@ const RankingRow: React.FC<{
   );
 };
 
-type SortOption = "rating" | "winRate" | "games" | "wilsonScore";
+type SortOption = LeaderboardSort;
+
+/** Recent windows selectable with ?window= */
+const WINDOW_OPTIONS: LeaderboardWindow[] = ["24h", "7d", "30d"];
+
+/** All-time heroes fetched per leaderboard page */
+const PAGE_SIZE = 50;
+
+/** Fetch the next page once the list is scrolled within this many rows of the end */
+const LOAD_MORE_THRESHOLD = 10;
+
+/** Wait for typing to pause before searching on the server */
+const SEARCH_DEBOUNCE_MS = 250;
 
 const Results: React.FC<{
-  heroRatings: SerializedHeroRating[];
-  stats: DashboardStats;
-}> = ({ heroRatings, stats }) => {
+  firstPage: LeaderboardPage;
+  stats: LeaderboardSummary;
+  ratingEngine: RatingEngineName;
+  seasons: Season[];
+  publishers: string[];
+}> = ({ firstPage, stats: allTimeStats, ratingEngine, seasons, publishers }) => {
   const [showProvisional, setShowProvisional] = useState(true);
   const [sortBy, setSortBy] = useState<SortOption>("rating");
   const [searchQuery, setSearchQuery] = useState("");
-  const [selectedTier, setSelectedTier] = useState<string>("all");
+  const [debouncedSearch, setDebouncedSearch] = useState("");
+  const [selectedTier, setSelectedTier] = useState<TierName | "all">("all");
   const [expandedHeroIds, setExpandedHeroIds] = useState<Set<number>>(new Set());
   const [heroDataCache, setHeroDataCache] = useState<Record<number, HeroBiography | null>>({});
   const [loadingHeroes, setLoadingHeroes] = useState<Set<number>>(new Set());
   const [errorHeroes, setErrorHeroes] = useState<Record<number, string>>({});
+  const [showShadowSystems, setShowShadowSystems] = useState(false);
+  const [showPowerstatFilters, setShowPowerstatFilters] = useState(false);
+  const [moversWindow, setMoversWindow] = useState<MoversWindow>("24h");
+  // null shows all-time ratings (unless ?window= selects a recent window)
+  const [selectedSeasonId, setSelectedSeasonId] = useState<number | null>(null);
+  const router = useRouter();
+  const selectedWindow = WINDOW_OPTIONS.find((option) => option === router.query.window) ?? null;
   const listContainerRef = useRef<HTMLDivElement>(null);
   // Track ongoing fetches to prevent duplicate requests
   const fetchingHeroesRef = useRef<Set<number>>(new Set());
   // Track scroll margin (distance from top of document to list) for window virtualizer
   const [scrollMargin, setScrollMargin] = useState(0);
+
+  const windowQuery = trpc.useQuery(["get-windowed-leaderboard", { window: selectedWindow ?? "24h" }], {
+    enabled: selectedWindow !== null,
+  });
+  const seasonQuery = trpc.useQuery(["get-season-leaderboard", { seasonId: selectedSeasonId ?? 0 }], {
+    enabled: selectedWindow === null && selectedSeasonId !== null,
+  });
+  const windowLeaderboard = selectedWindow !== null ? windowQuery.data ?? null : null;
+  const seasonLeaderboard = selectedWindow === null && selectedSeasonId !== null ? seasonQuery.data ?? null : null;
+  const isAllTime = selectedWindow === null && selectedSeasonId === null;
+  // Catalog filters only apply to all-time rankings
+  const catalogFilters = isAllTime ? parseCatalogFilters(router.query) : EMPTY_CATALOG_FILTERS;
+  const isCatalogFiltered = hasCatalogFilters(catalogFilters);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedSearch(searchQuery.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [searchQuery]);
+
+  // All-time rankings are filtered, sorted and paged on the server
+  const leaderboardInput = {
+    sort: sortBy,
+    search: debouncedSearch || undefined,
+    tier: selectedTier === "all" ? undefined : selectedTier,
+    publisher: catalogFilters.publisher ?? undefined,
+    alignment: catalogFilters.alignment ?? undefined,
+    powerstats: isCatalogFiltered ? catalogFilters.powerstats : undefined,
+    includeProvisional: showProvisional,
+    limit: PAGE_SIZE,
+  };
+  const isDefaultLeaderboard =
+    sortBy === "rating" && !debouncedSearch && selectedTier === "all" && showProvisional && !isCatalogFiltered;
+  const leaderboardQuery = trpc.useInfiniteQuery(["leaderboard", leaderboardInput], {
+    enabled: isAllTime,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    // The statically rendered first page stands in until the default view refetches
+    initialData: isDefaultLeaderboard ? { pages: [firstPage], pageParams: [null] } : undefined,
+    keepPreviousData: true,
+  });
+  const allTimeEntries = leaderboardQuery.data?.pages.flatMap((page) => page.entries) ?? [];
+
+  const heroRatings = isAllTime
+    ? allTimeEntries
+    : (windowLeaderboard ?? seasonLeaderboard)?.standings.map(standingToRating) ?? [];
+  const stats = isAllTime ? allTimeStats : calculateStats(heroRatings);
+  const isViewLoading =
+    selectedWindow !== null
+      ? windowQuery.isLoading
+      : selectedSeasonId !== null
+        ? seasonQuery.isLoading
+        : leaderboardQuery.isLoading;
+
+  // The window and catalog filters live in the URL so filtered views can be linked to
+  const replaceQuery = (query: Record<string, string>) => {
+    router.replace({ pathname: router.pathname, query }, undefined, { shallow: true });
+  };
+  const selectWindow = (period: LeaderboardWindow | null) => {
+    setSelectedSeasonId(null);
+    replaceQuery(period ? { window: period } : {});
+  };
+  const selectSeason = (seasonId: number | null) => {
+    setSelectedSeasonId(seasonId);
+    if (Object.keys(router.query).length > 0) replaceQuery({});
+  };
+  const updateCatalogFilters = (changes: Partial<CatalogFilters>) => {
+    replaceQuery(catalogFiltersToQuery({ ...catalogFilters, ...changes }));
+  };
+  const updateStatBound = (key: PowerstatKey, bound: "min" | "max", value: string) => {
+    const range = { min: null, max: null, ...catalogFilters.powerstats[key] };
+    const stat = value === "" ? null : Math.min(100, Math.max(0, Math.round(Number(value))));
+    updateCatalogFilters({ powerstats: { ...catalogFilters.powerstats, [key]: { ...range, [bound]: stat } } });
+  };
+
+  const moversQuery = trpc.useQuery(["get-movers", { window: moversWindow }]);
+
+  // Only fetched once the panel is opened
+  const shadowQuery = trpc.useQuery(["get-shadow-comparison"], { enabled: showShadowSystems });
   
   // Helper function to fetch hero data via tRPC endpoint
   const fetchHeroData = useCallback(async (heroId: number): Promise<SuperHeroApiResponse> => {
@@ -469,7 +557,8 @@ const Results: React.FC<{
     }
   }, [fetchHeroData]);
 
-  const filteredHeroes = heroRatings.filter((hero) => {
+  // Season and recent-window standings are small enough to filter and sort here
+  const filteredHeroes = isAllTime ? heroRatings : heroRatings.filter((hero) => {
     if (!showProvisional && hero.isProvisional) return false;
     if (searchQuery && !hero.heroName.toLowerCase().includes(searchQuery.toLowerCase())) {
       return false;
@@ -481,12 +570,15 @@ const Results: React.FC<{
     return true;
   });
 
-  const sortedHeroes = [...filteredHeroes].sort((a, b) => {
+  const sortedHeroes = isAllTime ? filteredHeroes : [...filteredHeroes].sort((a, b) => {
     switch (sortBy) {
       case "rating": return b.rating - a.rating;
       case "winRate": return b.winRate - a.winRate;
       case "games": return b.games - a.games;
       case "wilsonScore": return b.wilsonScore - a.wilsonScore;
+      case "trueSkill": return b.trueSkill - a.trueSkill;
+      // Heroes missing from the last fit go last
+      case "bradleyTerry": return (b.btRating ?? Number.MIN_SAFE_INTEGER) - (a.btRating ?? Number.MIN_SAFE_INTEGER);
       default: return 0;
     }
   });
@@ -551,6 +643,15 @@ const Results: React.FC<{
     scrollMargin,
   });
 
+  const virtualItems = rowVirtualizer.getVirtualItems();
+  const lastVisibleIndex = virtualItems[virtualItems.length - 1]?.index ?? -1;
+  const { hasNextPage, isFetchingNextPage, fetchNextPage } = leaderboardQuery;
+  useEffect(() => {
+    if (isAllTime && hasNextPage && !isFetchingNextPage && lastVisibleIndex >= sortedHeroes.length - LOAD_MORE_THRESHOLD) {
+      fetchNextPage();
+    }
+  }, [isAllTime, hasNextPage, isFetchingNextPage, fetchNextPage, lastVisibleIndex, sortedHeroes.length]);
+
   return (
     <div className="min-h-screen">
       <Head>
@@ -564,6 +665,12 @@ const Results: React.FC<{
             <div>
               <h1 className="text-display text-2xl sm:text-3xl">RANKINGS</h1>
               <p className="font-mono text-xs text-smoke mt-0.5">
+                {windowLeaderboard && <span className="text-charcoal">LAST {windowLeaderboard.window.toUpperCase()} · </span>}
+                {seasonLeaderboard && (
+                  <span className="text-charcoal">
+                    {seasonLeaderboard.season.name.toUpperCase()} ({seasonLeaderboard.archived ? "FINAL" : "LIVE"}) ·{" "}
+                  </span>
+                )}
                 {stats.totalHeroes} HEROES · {stats.totalVotes} VOTES
               </p>
             </div>
@@ -600,8 +707,8 @@ const Results: React.FC<{
       {/* Filters */}
       <div className="border-b-2 border-ink">
         <div className="max-w-6xl mx-auto px-3 py-3">
-          {/* Search */}
-          <div className="mb-3">
+          {/* Search & Season */}
+          <div className="mb-3 flex flex-wrap gap-3 items-center">
             <input
               type="text"
               placeholder="Search heroes..."
@@ -609,6 +716,23 @@ const Results: React.FC<{
               onChange={(e) => setSearchQuery(e.target.value)}
               className="input-brutal w-full sm:w-64 text-sm"
             />
+            {seasons.length > 0 && (
+              <label className="flex items-center gap-2">
+                <span className="text-label">SEASON:</span>
+                <select
+                  value={selectedWindow === null ? selectedSeasonId ?? "" : ""}
+                  onChange={(e) => selectSeason(e.target.value === "" ? null : Number(e.target.value))}
+                  className="input-brutal text-sm"
+                >
+                  <option value="">ALL-TIME</option>
+                  {seasons.map((season) => (
+                    <option key={season.id} value={season.id}>
+                      {season.name}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            )}
           </div>
 
           {/* Sort & Filter Controls */}
@@ -617,7 +741,7 @@ const Results: React.FC<{
             <div className="flex items-center gap-2">
               <span className="text-label">SORT:</span>
               <div className="flex gap-1">
-                {(["rating", "wilsonScore", "winRate", "games"] as SortOption[]).map((option) => (
+                {(["rating", "bradleyTerry", "trueSkill", "wilsonScore", "winRate", "games"] as SortOption[]).map((option) => (
                   <button
                     key={option}
                     onClick={() => setSortBy(option)}
@@ -627,7 +751,35 @@ const Results: React.FC<{
                         : "bg-paper text-ink hover:bg-concrete"
                     }`}
                   >
-                    {option === "wilsonScore" ? "WILSON" : option.toUpperCase()}
+                    {option === "wilsonScore"
+                      ? "WILSON"
+                      : option === "bradleyTerry"
+                        ? "B-T"
+                        : option === "trueSkill"
+                          ? "TRUE SKILL"
+                          : option.toUpperCase()}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div className="w-px h-6 bg-ink hidden sm:block" />
+
+            {/* Recent Window */}
+            <div className="flex items-center gap-2">
+              <span className="text-label">PERIOD:</span>
+              <div className="flex gap-1">
+                {[null, ...WINDOW_OPTIONS].map((option) => (
+                  <button
+                    key={option ?? "all"}
+                    onClick={() => selectWindow(option)}
+                    className={`px-2 py-1 font-mono text-xs border-2 border-ink transition-all ${
+                      selectedWindow === option
+                        ? "bg-ink text-paper shadow-none"
+                        : "bg-paper text-ink hover:bg-concrete"
+                    }`}
+                  >
+                    {option === null ? "ALL" : option.toUpperCase()}
                   </button>
                 ))}
               </div>
@@ -639,7 +791,7 @@ const Results: React.FC<{
             <div className="flex items-center gap-2">
               <span className="text-label">TIER:</span>
               <div className="flex gap-1">
-                {["all", "DIAMOND", "PLATINUM", "GOLD", "SILVER", "BRONZE"].map((tier) => (
+                {(["all", "DIAMOND", "PLATINUM", "GOLD", "SILVER", "BRONZE"] as const).map((tier) => (
                   <button
                     key={tier}
                     onClick={() => setSelectedTier(tier)}
@@ -669,19 +821,116 @@ const Results: React.FC<{
             </label>
 
             <span className="font-mono text-xs text-smoke ml-auto">
-              {sortedHeroes.length} results
+              {isAllTime ? leaderboardQuery.data?.pages[0]?.total ?? 0 : sortedHeroes.length} results
             </span>
           </div>
+
+          {/* Catalog Filters (all-time only) */}
+          {isAllTime && (
+            <div className="flex flex-wrap gap-3 items-center mt-3">
+              {publishers.length > 0 && (
+                <label className="flex items-center gap-2">
+                  <span className="text-label">PUBLISHER:</span>
+                  <select
+                    value={catalogFilters.publisher ?? ""}
+                    onChange={(e) => updateCatalogFilters({ publisher: e.target.value || null })}
+                    className="input-brutal text-sm"
+                  >
+                    <option value="">ALL</option>
+                    {publishers.map((publisher) => (
+                      <option key={publisher} value={publisher}>
+                        {publisher}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              )}
+
+              <div className="flex items-center gap-2">
+                <span className="text-label">ALIGNMENT:</span>
+                <div className="flex gap-1">
+                  {[null, ...HERO_ALIGNMENTS].map((alignment) => (
+                    <button
+                      key={alignment ?? "all"}
+                      onClick={() => updateCatalogFilters({ alignment })}
+                      className={`px-2 py-1 font-mono text-xs border-2 border-ink transition-all ${
+                        catalogFilters.alignment === alignment
+                          ? "bg-ink text-paper shadow-none"
+                          : "bg-paper text-ink hover:bg-concrete"
+                      }`}
+                    >
+                      {alignment === null ? "ALL" : alignment.toUpperCase()}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <button
+                onClick={() => setShowPowerstatFilters((open) => !open)}
+                className="px-2 py-1 font-mono text-xs border-2 border-ink bg-paper text-ink hover:bg-concrete"
+                aria-expanded={showPowerstatFilters}
+              >
+                POWERSTATS {showPowerstatFilters ? "▲" : "▼"}
+              </button>
+
+              {isCatalogFiltered && (
+                <button
+                  onClick={() => replaceQuery({})}
+                  className="font-mono text-xs text-signal underline"
+                >
+                  CLEAR FILTERS
+                </button>
+              )}
+            </div>
+          )}
+
+          {isAllTime && showPowerstatFilters && (
+            <div className="grid grid-cols-2 sm:grid-cols-3 gap-2 mt-3">
+              {POWERSTAT_KEYS.map((key) => {
+                const range = catalogFilters.powerstats[key];
+                return (
+                  <div key={key} className="flex items-center gap-1">
+                    <span className="text-label w-24">{key.toUpperCase()}</span>
+                    <input
+                      type="number"
+                      min={0}
+                      max={100}
+                      placeholder="0"
+                      value={range?.min ?? ""}
+                      onChange={(e) => updateStatBound(key, "min", e.target.value)}
+                      className="input-brutal w-16 text-xs"
+                      aria-label={`Minimum ${key}`}
+                    />
+                    <span className="font-mono text-xs text-smoke">-</span>
+                    <input
+                      type="number"
+                      min={0}
+                      max={100}
+                      placeholder="100"
+                      value={range?.max ?? ""}
+                      onChange={(e) => updateStatBound(key, "max", e.target.value)}
+                      className="input-brutal w-16 text-xs"
+                      aria-label={`Maximum ${key}`}
+                    />
+                  </div>
+                );
+              })}
+            </div>
+          )}
         </div>
       </div>
 
       {/* Rankings List - uses window scroll via useWindowVirtualizer */}
       <main className="max-w-6xl mx-auto px-2 sm:px-4 py-4">
-        {sortedHeroes.length === 0 ? (
+        {isViewLoading ? (
+          <div className="text-center py-12 floating-card">
+            <p className="font-mono text-sm text-smoke">Loading leaderboard...</p>
+          </div>
+        ) : sortedHeroes.length === 0 ? (
           <div className="text-center py-12 floating-card">
             <p className="font-display text-xl text-charcoal">NO HEROES FOUND</p>
             <p className="font-mono text-sm text-smoke mt-2">
-              {heroRatings.length === 0 ? "Start voting to see rankings" : "Try adjusting filters"}
+              {(isAllTime ? stats.totalHeroes : heroRatings.length) === 0 ? "Start voting to see rankings" : "Try adjusting filters"}
             </p>
           </div>
         ) : (
@@ -693,7 +942,7 @@ const Results: React.FC<{
               position: "relative",
             }}
           >
-            {rowVirtualizer.getVirtualItems().map((virtualRow) => {
+            {virtualItems.map((virtualRow) => {
               const hero = sortedHeroes[virtualRow.index];
               if (!hero) return null;
 
@@ -728,14 +977,58 @@ const Results: React.FC<{
             })}
           </div>
         )}
+        {isAllTime && isFetchingNextPage && (
+          <p className="font-mono text-xs text-smoke text-center py-3">Loading more heroes...</p>
+        )}
       </main>
 
+      {/* Trending: biggest movers (below the list, so loading it can't shift the virtualized rows) */}
+      <section className="max-w-6xl mx-auto w-full px-2 sm:px-4 pb-4">
+        <div className="flex items-center gap-2 mb-2">
+          <span className="text-display text-lg">TRENDING</span>
+          {(["24h", "7d"] as MoversWindow[]).map((option) => (
+            <button
+              key={option}
+              onClick={() => setMoversWindow(option)}
+              className={`px-2 py-1 font-mono text-xs border-2 border-ink transition-all ${
+                moversWindow === option ? "bg-ink text-paper shadow-none" : "bg-paper text-ink hover:bg-concrete"
+              }`}
+            >
+              {option.toUpperCase()}
+            </button>
+          ))}
+        </div>
+        <TrendingHeroes feed={moversQuery.data} isLoading={moversQuery.isLoading} />
+      </section>
+
+      {/* Shadow rating systems compared with the live ranking */}
+      <section className="max-w-6xl mx-auto w-full px-2 sm:px-4 pb-4">
+        <button
+          onClick={() => setShowShadowSystems((open) => !open)}
+          className="btn-brutal text-xs"
+          aria-expanded={showShadowSystems}
+        >
+          {showShadowSystems ? "HIDE" : "COMPARE"} SHADOW RATING SYSTEMS
+        </button>
+        {showShadowSystems && (
+          <div className="mt-3">
+            <ShadowComparison
+              comparisons={shadowQuery.data}
+              isLoading={shadowQuery.isLoading}
+              ratingEngine={ratingEngine}
+            />
+          </div>
+        )}
+      </section>
+
       {/* Footer */}
       <footer className="border-t-2 border-ink mt-auto">
         <div className="max-w-6xl mx-auto px-3 py-2">
           <div className="flex flex-wrap justify-between items-center gap-2 font-mono text-xs text-smoke">
             <div className="flex gap-4">
-              <span>ELO K=32</span>
+              <span>{ratingEngine === "glicko2" ? "GLICKO-2" : "ELO K=32"}</span>
+              <span>CONF = 95% RATING RANGE</span>
+              <span>B-T = BRADLEY-TERRY FIT OVER ALL VOTES</span>
               <span>PROVISIONAL &lt;20 GAMES</span>
             </div>
             <div className="flex gap-2">
@@ -754,7 +1047,7 @@ const Results: React.FC<{
 
 export default Results;
 
-const calculateStats = (heroRatings: SerializedHeroRating[]): DashboardStats => {
+const calculateStats = (heroRatings: LeaderboardEntry[]): LeaderboardSummary => {
   const totalVotes = Math.floor(
     heroRatings.reduce((sum, hero) => sum + hero.games, 0) / 2
   );
@@ -783,13 +1076,32 @@ const calculateStats = (heroRatings: SerializedHeroRating[]): DashboardStats =>
 };
 
 export const getStaticProps: GetStaticProps = async () => {
-  const heroRatings = await getHeroRatings();
-  const stats = calculateStats(heroRatings);
+  // Matches the client's default leaderboard query, so it can seed that query's cache
+  const [firstPage, stats] = await Promise.all([
+    getLeaderboardPage({ sort: "rating", includeProvisional: true, limit: PAGE_SIZE }),
+    getLeaderboardSummary(),
+  ]).catch((error): [LeaderboardPage, LeaderboardSummary] => {
+    console.error("Error fetching hero ratings:", error);
+    return [{ entries: [], nextCursor: null, total: 0 }, calculateStats([])];
+  });
+  // Seasons only add a selector, so the page still renders without them
+  const seasons = await getSeasons().catch((error) => {
+    console.error("Error fetching seasons:", error);
+    return [];
+  });
+  // Likewise the publisher filter
+  const publishers = await getPublishers().catch((error) => {
+    console.error("Error fetching publishers:", error);
+    return [];
+  });
 
   return {
     props: {
-      heroRatings,
+      firstPage,
       stats,
+      ratingEngine: RATING_ENGINE,
+      seasons,
+      publishers,
     },
     revalidate: 60,
   };
@@ -0,0 +1,37 @@
+/**
+ * Power stats on a 0-100 scale, as published by the SuperHero API.
+ * A stat is null when the source has no value for it.
+ */
+export interface HeroPowerstats {
+  intelligence: number | null;
+  strength: number | null;
+  speed: number | null;
+  durability: number | null;
+  power: number | null;
+  combat: number | null;
+}
+
+/**
+ * One hero in the local catalog.
+ * This is the shape of each entry in src/data/heroes.json and of a row in the `heroes` table.
+ */
+export interface HeroCatalogEntry {
+  id: number;
+  name: string;
+  /** e.g. "Marvel Comics", or null if unknown */
+  publisher: string | null;
+  /** "good", "bad" or "neutral", or null if unknown */
+  alignment: string | null;
+  powerstats: HeroPowerstats;
+  /** Whether the image proxy has an image for this hero */
+  hasImage: boolean;
+}
+
+export const POWERSTAT_KEYS: Array<keyof HeroPowerstats> = [
+  "intelligence",
+  "strength",
+  "speed",
+  "durability",
+  "power",
+  "combat",
+];
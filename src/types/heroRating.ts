@@ -6,6 +6,7 @@
  */
 
 import firebase from 'firebase/compat/app';
+import { DEFAULT_GLICKO2_CONFIG } from '../utils/glicko2';
 
 /**
  * Firestore schema for hero ratings.
@@ -27,7 +28,7 @@ export interface HeroRating {
 
   /**
    * Total number of games (matchups) this hero has participated in.
-   * games = wins + losses
+   * games = wins + losses + draws
    */
   games: number;
 
@@ -37,6 +38,9 @@ export interface HeroRating {
   /** Number of matchups this hero has lost */
   losses: number;
 
+  /** Number of matchups that ended in a draw */
+  draws: number;
+
   /**
    * Whether this hero's rating is still provisional.
    * - True if games < 20
@@ -144,9 +148,18 @@ export interface HeroRatingState {
   games: number;
   wins: number;
   losses: number;
+  draws: number;
   peakRating: number;
   lowestRating: number;
   currentStreak: number;
+  /** Glicko-2 rating, kept up to date whichever engine is active */
+  glickoRating: number;
+  /** Glicko-2 rating deviation */
+  glickoDeviation: number;
+  /** Glicko-2 volatility */
+  glickoVolatility: number;
+  /** When the Glicko-2 state last changed (epoch ms), or null if the hero has never played */
+  glickoUpdatedAt: number | null;
 }
 
 /**
@@ -157,9 +170,14 @@ export const DEFAULT_HERO_RATING: Omit<HeroRatingState, 'heroId'> = {
   games: 0,
   wins: 0,
   losses: 0,
+  draws: 0,
   peakRating: 1500,
   lowestRating: 1500,
   currentStreak: 0,
+  glickoRating: DEFAULT_GLICKO2_CONFIG.initialRating,
+  glickoDeviation: DEFAULT_GLICKO2_CONFIG.initialDeviation,
+  glickoVolatility: DEFAULT_GLICKO2_CONFIG.initialVolatility,
+  glickoUpdatedAt: null,
 };
 
 /**
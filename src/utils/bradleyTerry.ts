@@ -0,0 +1,251 @@
+/**
+ * Bradley-Terry Model Utilities for Hero Rank
+ *
+ * The Bradley-Terry model gives each hero a strength p_i so that
+ *
+ *   P(i beats j) = p_i / (p_i + p_j)
+ *
+ * Unlike Elo, it is fitted to all votes at once, so the result doesn't depend on
+ * the order votes came in and old votes count as much as new ones.
+ *
+ * Strengths are fitted by maximum likelihood with Hunter's MM algorithm
+ * (Hunter, 2004, "MM algorithms for generalized Bradley-Terry models").
+ * A draw counts as half a win for each hero.
+ *
+ * Heroes that won (or lost) every game have no finite maximum-likelihood strength.
+ * To keep every estimate finite, each hero also plays a few virtual games against
+ * a fixed reference hero of strength 1 (rating 1500), winning half of them.
+ * This pulls heroes with few games towards the middle, much like a prior.
+ */
+
+import type { MatchOutcome } from './elo';
+
+/**
+ * One vote, as fed to the fit.
+ */
+export interface Comparison {
+  /** The hero that won (first hero for a draw) */
+  winnerId: number;
+  /** The hero that lost (second hero for a draw) */
+  loserId: number;
+  outcome: MatchOutcome;
+}
+
+/**
+ * Configuration for a Bradley-Terry fit
+ */
+export interface BradleyTerryConfig {
+  /** Virtual games each hero plays against the reference hero (default: 2) */
+  priorGames: number;
+  /** Stop once no log-strength moves by more than this between iterations (default: 1e-7) */
+  tolerance: number;
+  /** Give up after this many iterations (default: 10000) */
+  maxIterations: number;
+}
+
+/**
+ * Default Bradley-Terry configuration
+ */
+export const DEFAULT_BRADLEY_TERRY_CONFIG: BradleyTerryConfig = {
+  priorGames: 2,
+  tolerance: 1e-7,
+  maxIterations: 10000,
+};
+
+/**
+ * A hero's fitted strength.
+ */
+export interface BradleyTerryStrength {
+  heroId: number;
+  /** Log-strength ln(p_i); 0 is the reference hero */
+  strength: number;
+  /** Standard error of the log-strength */
+  standardError: number;
+  /** Strength on the Elo scale: 1500 + 400 * log10(p_i) */
+  rating: number;
+  /** Real (non-virtual) games the hero played */
+  games: number;
+}
+
+/**
+ * Result of a Bradley-Terry fit
+ */
+export interface BradleyTerryFit {
+  strengths: BradleyTerryStrength[];
+  iterations: number;
+  converged: boolean;
+}
+
+/** Converts a log-strength (or its standard error) to Elo points: 400 / ln(10) */
+export const ELO_PER_LOG_STRENGTH = 400 / Math.LN10;
+
+/**
+ * Converts a log-strength to a rating on the Elo scale.
+ * A log-strength difference maps to the same win probability as the same Elo difference.
+ */
+export function strengthToRating(strength: number): number {
+  return 1500 + strength * ELO_PER_LOG_STRENGTH;
+}
+
+/**
+ * Inverts a symmetric positive-definite matrix with a Cholesky decomposition.
+ * Only the diagonal of the inverse is returned, which is all the standard errors need.
+ */
+function inverseDiagonal(matrix: Float64Array[]): Float64Array {
+  const n = matrix.length;
+  const L = matrix.map(() => new Float64Array(n));
+
+  for (let i = 0; i < n; i++) {
+    const row = matrix[i] as Float64Array;
+    const Li = L[i] as Float64Array;
+    for (let j = 0; j <= i; j++) {
+      const Lj = L[j] as Float64Array;
+      let sum = row[j] as number;
+      for (let k = 0; k < j; k++) sum -= (Li[k] as number) * (Lj[k] as number);
+      Li[j] = i === j ? Math.sqrt(sum) : sum / (Lj[j] as number);
+    }
+  }
+
+  // diag(A^-1)_i = sum over k of (L^-1)_ki^2; solve L x = e_i column by column
+  const diagonal = new Float64Array(n);
+  const x = new Float64Array(n);
+  for (let i = 0; i < n; i++) {
+    x.fill(0);
+    for (let r = i; r < n; r++) {
+      const Lr = L[r] as Float64Array;
+      let sum = r === i ? 1 : 0;
+      for (let k = i; k < r; k++) sum -= (Lr[k] as number) * (x[k] as number);
+      x[r] = sum / (Lr[r] as number);
+    }
+    let total = 0;
+    for (let r = i; r < n; r++) total += (x[r] as number) * (x[r] as number);
+    diagonal[i] = total;
+  }
+  return diagonal;
+}
+
+/**
+ * Fits Bradley-Terry strengths to a set of comparisons.
+ *
+ * Standard errors come from the inverse of the Fisher information of the
+ * log-strengths, so they shrink as a hero plays more (and more varied) opponents.
+ *
+ * @param comparisons - Every vote to fit, in any order
+ * @param config - Optional Bradley-Terry configuration overrides
+ * @returns One strength per hero that appears in the comparisons
+ *
+ * @example
+ * fitBradleyTerry([
+ *   { winnerId: 1, loserId: 2, outcome: 'win' },
+ *   { winnerId: 1, loserId: 2, outcome: 'win' },
+ *   { winnerId: 2, loserId: 1, outcome: 'win' },
+ * ])
+ * // Hero 1 gets a higher strength than hero 2
+ */
+export function fitBradleyTerry(
+  comparisons: Comparison[],
+  config: Partial<BradleyTerryConfig> = {}
+): BradleyTerryFit {
+  const fullConfig: BradleyTerryConfig = { ...DEFAULT_BRADLEY_TERRY_CONFIG, ...config };
+
+  // Index heroes and count wins and meetings per pair
+  const index = new Map<number, number>();
+  const heroIds: number[] = [];
+  const indexOf = (heroId: number): number => {
+    let i = index.get(heroId);
+    if (i === undefined) {
+      i = heroIds.length;
+      index.set(heroId, i);
+      heroIds.push(heroId);
+    }
+    return i;
+  };
+
+  const pairCounts = new Map<string, { a: number; b: number; meetings: number }>();
+  for (const comparison of comparisons) {
+    if (comparison.winnerId === comparison.loserId) continue;
+    const a = indexOf(comparison.winnerId);
+    const b = indexOf(comparison.loserId);
+    const key = a < b ? `${a}:${b}` : `${b}:${a}`;
+    const pair = pairCounts.get(key) ?? { a: Math.min(a, b), b: Math.max(a, b), meetings: 0 };
+    pair.meetings++;
+    pairCounts.set(key, pair);
+  }
+
+  const n = heroIds.length;
+  const wins = new Float64Array(n);
+  const games = new Float64Array(n);
+  for (const comparison of comparisons) {
+    if (comparison.winnerId === comparison.loserId) continue;
+    const a = index.get(comparison.winnerId) as number;
+    const b = index.get(comparison.loserId) as number;
+    const winnerScore = comparison.outcome === 'draw' ? 0.5 : 1;
+    wins[a] = (wins[a] as number) + winnerScore;
+    wins[b] = (wins[b] as number) + 1 - winnerScore;
+    games[a] = (games[a] as number) + 1;
+    games[b] = (games[b] as number) + 1;
+  }
+
+  const pairs = Array.from(pairCounts.values());
+  const prior = fullConfig.priorGames;
+
+  // MM iterations: p_i <- W_i / sum_j n_ij / (p_i + p_j), with the reference hero fixed at 1
+  let p = new Float64Array(n).fill(1);
+  let iterations = 0;
+  let converged = false;
+  while (iterations < fullConfig.maxIterations) {
+    iterations++;
+    const denominator = new Float64Array(n);
+    for (let i = 0; i < n; i++) denominator[i] = prior / ((p[i] as number) + 1);
+    for (const { a, b, meetings } of pairs) {
+      const share = meetings / ((p[a] as number) + (p[b] as number));
+      denominator[a] = (denominator[a] as number) + share;
+      denominator[b] = (denominator[b] as number) + share;
+    }
+
+    const next = new Float64Array(n);
+    let maxChange = 0;
+    for (let i = 0; i < n; i++) {
+      next[i] = ((wins[i] as number) + prior / 2) / (denominator[i] as number);
+      maxChange = Math.max(maxChange, Math.abs(Math.log(next[i] as number) - Math.log(p[i] as number)));
+    }
+    p = next;
+
+    if (maxChange < fullConfig.tolerance) {
+      converged = true;
+      break;
+    }
+  }
+
+  // Fisher information of the log-strengths (the reference hero's is fixed, so it's invertible)
+  const information = heroIds.map(() => new Float64Array(n));
+  for (let i = 0; i < n; i++) {
+    const pi = p[i] as number;
+    (information[i] as Float64Array)[i] = (prior * pi) / ((pi + 1) * (pi + 1));
+  }
+  for (const { a, b, meetings } of pairs) {
+    const pa = p[a] as number;
+    const pb = p[b] as number;
+    const weight = (meetings * pa * pb) / ((pa + pb) * (pa + pb));
+    const rowA = information[a] as Float64Array;
+    const rowB = information[b] as Float64Array;
+    rowA[a] = (rowA[a] as number) + weight;
+    rowB[b] = (rowB[b] as number) + weight;
+    rowA[b] = (rowA[b] as number) - weight;
+    rowB[a] = (rowB[a] as number) - weight;
+  }
+  const variances = n > 0 ? inverseDiagonal(information) : new Float64Array(0);
+
+  const strengths = heroIds.map((heroId, i) => {
+    const strength = Math.log(p[i] as number);
+    return {
+      heroId,
+      strength,
+      standardError: Math.sqrt(variances[i] as number),
+      rating: strengthToRating(strength),
+      games: games[i] as number,
+    };
+  });
+
+  return { strengths, iterations, converged };
+}
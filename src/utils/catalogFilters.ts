@@ -0,0 +1,90 @@
+import { POWERSTAT_KEYS, type HeroPowerstats } from "../types/heroCatalog";
+
+/**
+ * Catalog Filters
+ *
+ * Leaderboard filters on hero catalog data: publisher, alignment and power
+ * stat ranges. They live in the results page URL so a filtered view can be
+ * shared, e.g. `/results?publisher=Marvel+Comics&alignment=bad&strength=80-100`.
+ * A stat range is written as "min-max", with either side optional ("80-", "-20").
+ */
+
+export type HeroAlignment = "good" | "bad" | "neutral";
+
+export const HERO_ALIGNMENTS: HeroAlignment[] = ["good", "bad", "neutral"];
+
+export type PowerstatKey = keyof HeroPowerstats;
+
+/** Inclusive bounds on a 0-100 power stat; null leaves that side open */
+export interface StatRange {
+  min: number | null;
+  max: number | null;
+}
+
+export interface CatalogFilters {
+  publisher: string | null;
+  alignment: HeroAlignment | null;
+  powerstats: Partial<Record<PowerstatKey, StatRange>>;
+}
+
+export const EMPTY_CATALOG_FILTERS: CatalogFilters = { publisher: null, alignment: null, powerstats: {} };
+
+const parseStatBound = (value: string): number | null => {
+  if (!/^\d{1,3}$/.test(value)) return null;
+  const stat = Number(value);
+  return stat <= 100 ? stat : null;
+};
+
+/**
+ * Parses a stat range written as "min-max". Returns null if neither side is a valid stat.
+ */
+export const parseStatRange = (value: string): StatRange | null => {
+  const [min = "", max = "", ...rest] = value.split("-");
+  if (rest.length > 0) return null;
+  const range = { min: parseStatBound(min), max: parseStatBound(max) };
+  return range.min === null && range.max === null ? null : range;
+};
+
+const firstValue = (value: string | string[] | undefined): string | undefined =>
+  Array.isArray(value) ? value[0] : value;
+
+/**
+ * Reads catalog filters from URL query parameters, ignoring any that are invalid.
+ *
+ * @param query - Parsed query string (e.g. `router.query`)
+ */
+export function parseCatalogFilters(query: Record<string, string | string[] | undefined>): CatalogFilters {
+  const publisher = firstValue(query.publisher)?.trim() || null;
+  const alignment = HERO_ALIGNMENTS.find((option) => option === firstValue(query.alignment)) ?? null;
+
+  const powerstats: CatalogFilters["powerstats"] = {};
+  for (const key of POWERSTAT_KEYS) {
+    const value = firstValue(query[key]);
+    const range = value ? parseStatRange(value) : null;
+    if (range) powerstats[key] = range;
+  }
+
+  return { publisher, alignment, powerstats };
+}
+
+/**
+ * Writes catalog filters as URL query parameters, leaving out unset filters.
+ */
+export function catalogFiltersToQuery(filters: CatalogFilters): Record<string, string> {
+  const query: Record<string, string> = {};
+  if (filters.publisher) query.publisher = filters.publisher;
+  if (filters.alignment) query.alignment = filters.alignment;
+  for (const key of POWERSTAT_KEYS) {
+    const range = filters.powerstats[key];
+    if (range && (range.min !== null || range.max !== null)) {
+      query[key] = `${range.min ?? ""}-${range.max ?? ""}`;
+    }
+  }
+  return query;
+}
+
+/**
+ * Whether any catalog filter is set.
+ */
+export const hasCatalogFilters = (filters: CatalogFilters): boolean =>
+  Object.keys(catalogFiltersToQuery(filters)).length > 0;
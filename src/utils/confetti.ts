@@ -1,4 +1,5 @@
 import confetti from "canvas-confetti";
+import type { AchievementTier } from "../backend/achievements";
 
 /**
  * Check if user has reduced motion preference enabled
@@ -21,8 +22,8 @@ interface ConfettiTierConfig {
   shapes?: confetti.Shape[];
 }
 
-const CONFETTI_TIERS: Record<number, ConfettiTierConfig> = {
-  // Tier 1: First vote (Origin Story) - Simple celebration
+const CONFETTI_TIERS: Record<AchievementTier, ConfettiTierConfig> = {
+  // Tier 1: e.g. first vote (Origin) - Simple celebration
   1: {
     particleCount: 50,
     spread: 60,
@@ -31,8 +32,8 @@ const CONFETTI_TIERS: Record<number, ConfettiTierConfig> = {
     scalar: 0.8,
     colors: ["#fbbf24", "#f59e0b", "#d97706"], // Yellow tones
   },
-  // Tier 2: 10 votes (Sidekick) - Moderate celebration
-  10: {
+  // Tier 2: e.g. 10 votes (Sidekick) - Moderate celebration
+  2: {
     particleCount: 80,
     spread: 70,
     startVelocity: 30,
@@ -40,8 +41,8 @@ const CONFETTI_TIERS: Record<number, ConfettiTierConfig> = {
     scalar: 1.0,
     colors: ["#60a5fa", "#3b82f6", "#2563eb"], // Blue tones
   },
-  // Tier 3: 100 votes (Hero) - Impressive celebration
-  100: {
+  // Tier 3: e.g. 100 votes (Hero) - Impressive celebration
+  3: {
     particleCount: 120,
     spread: 90,
     startVelocity: 35,
@@ -50,8 +51,8 @@ const CONFETTI_TIERS: Record<number, ConfettiTierConfig> = {
     colors: ["#a78bfa", "#8b5cf6", "#7c3aed"], // Purple tones
     shapes: ["star", "circle"],
   },
-  // Tier 4: 1000 votes (Legend) - Epic celebration
-  1000: {
+  // Tier 4: e.g. 1000 votes (Legend) - Epic celebration
+  4: {
     particleCount: 150,
     spread: 120,
     startVelocity: 45,
@@ -85,27 +86,18 @@ const fireConfetti = (
 
 /**
  * Trigger confetti celebration for achievement unlock
- * @param requiredVotes - The vote threshold for the unlocked badge
+ * @param tier - The unlocked achievement's tier
  */
-export const celebrateAchievement = (requiredVotes: number): void => {
+export const celebrateAchievement = (tier: AchievementTier): void => {
   // Respect accessibility preferences
   if (prefersReducedMotion()) {
     return;
   }
 
-  // Get the appropriate tier configuration
-  const config = CONFETTI_TIERS[requiredVotes];
-  if (!config) {
-    // Fallback to tier 1 config for unknown tiers
-    const fallbackConfig = CONFETTI_TIERS[1];
-    if (fallbackConfig) {
-      fireConfetti(fallbackConfig, { x: 0.5, y: 0.6 });
-    }
-    return;
-  }
+  const config = CONFETTI_TIERS[tier];
 
-  // For legendary achievement (1000 votes), create a spectacular multi-burst effect
-  if (requiredVotes === 1000) {
+  // For legendary achievements (tier 4), create a spectacular multi-burst effect
+  if (tier === 4) {
     // Center burst
     fireConfetti(config, { x: 0.5, y: 0.5 });
 
@@ -122,8 +114,8 @@ export const celebrateAchievement = (requiredVotes: number): void => {
     return;
   }
 
-  // For hero achievement (100 votes), create a double burst
-  if (requiredVotes === 100) {
+  // For tier 3 achievements, create a double burst
+  if (tier === 3) {
     fireConfetti(config, { x: 0.4, y: 0.6 });
     setTimeout(() => {
       fireConfetti(config, { x: 0.6, y: 0.6 });
@@ -144,5 +136,5 @@ export const testConfetti = (): void => {
     return;
   }
 
-  fireConfetti(CONFETTI_TIERS[1]!, { x: 0.5, y: 0.5 });
+  fireConfetti(CONFETTI_TIERS[1], { x: 0.5, y: 0.5 });
 };
@@ -0,0 +1,70 @@
+/**
+ * Consensus Metrics
+ *
+ * Measures how closely a voter's picks follow the global ratings. Each pick
+ * is the probability the ratings gave the chosen hero just before the vote,
+ * so a pick of 0.8 backed a clear favorite and a pick of 0.2 an underdog.
+ */
+
+/**
+ * How mainstream a set of picks is.
+ */
+export interface ConsensusScore {
+  count: number;
+  /** Share of picks that backed the favorite; a 50/50 matchup counts half (null with no picks) */
+  agreement: number | null;
+  /**
+   * 0-100: how much of the picks' lopsidedness went to underdogs. 0 always backs the
+   * favorite, 100 always the underdog, and picking at random lands near 50. Upsets
+   * count for more the bigger the underdog (null with no picks, or only 50/50 matchups).
+   */
+  contrarianIndex: number | null;
+  /** Mean probability the ratings gave the hero picked (null with no picks) */
+  averagePickProbability: number | null;
+}
+
+/**
+ * Scores a set of picks.
+ *
+ * @param pickProbabilities - Pre-vote win probability of each hero picked (0-1)
+ * @returns Agreement, contrarian index and mean pick probability
+ *
+ * @example
+ * scoreConsensus([0.8, 0.3]) // { count: 2, agreement: 0.5, contrarianIndex: 40, averagePickProbability: 0.55 }
+ */
+export function scoreConsensus(pickProbabilities: number[]): ConsensusScore {
+  let agreed = 0;
+  let probabilitySum = 0;
+  let underdogWeight = 0;
+  let totalWeight = 0;
+
+  for (const p of pickProbabilities) {
+    probabilitySum += p;
+    if (p === 0.5) agreed += 0.5;
+    else if (p > 0.5) agreed++;
+
+    const weight = Math.abs(p - 0.5);
+    totalWeight += weight;
+    if (p < 0.5) underdogWeight += weight;
+  }
+
+  const count = pickProbabilities.length;
+  return {
+    count,
+    agreement: count > 0 ? agreed / count : null,
+    contrarianIndex: totalWeight > 0 ? (underdogWeight / totalWeight) * 100 : null,
+    averagePickProbability: count > 0 ? probabilitySum / count : null,
+  };
+}
+
+/**
+ * Short description of a contrarian index for display.
+ *
+ * @param contrarianIndex - 0-100, or null with no scored picks
+ */
+export function describeTaste(contrarianIndex: number | null): string {
+  if (contrarianIndex === null) return "UNKNOWN";
+  if (contrarianIndex < 35) return "MAINSTREAM";
+  if (contrarianIndex > 65) return "CONTRARIAN";
+  return "INDEPENDENT";
+}
@@ -66,6 +66,20 @@ export function expectedScore(ratingA: number, ratingB: number): number {
   return 1 / (1 + Math.pow(10, exponent));
 }
 
+/**
+ * How a match ended, from the first hero's ("winner") point of view.
+ * - 'win': the first hero won (actual scores 1 and 0)
+ * - 'draw': neither hero won (actual score 0.5 each)
+ */
+export type MatchOutcome = 'win' | 'draw';
+
+/**
+ * Actual score of the first hero in a match with the given outcome.
+ */
+export function actualScore(outcome: MatchOutcome): number {
+  return outcome === 'draw' ? 0.5 : 1;
+}
+
 /**
  * Result of an Elo rating calculation
  */
@@ -74,10 +88,18 @@ export interface EloResult {
   newWinnerRating: number;
   /** New rating for the loser */
   newLoserRating: number;
-  /** Rating change for the winner (always positive) */
+  /** Rating change for the winner (positive unless the match was a draw) */
   winnerChange: number;
-  /** Rating change for the loser (always negative) */
+  /** Rating change for the loser (negative unless the match was a draw) */
   loserChange: number;
+  /** K-factor applied to the winner */
+  winnerKFactor: number;
+  /** K-factor applied to the loser */
+  loserKFactor: number;
+  /** Winner's expected score before the match */
+  winnerExpected: number;
+  /** Loser's expected score before the match */
+  loserExpected: number;
 }
 
 /**
@@ -87,7 +109,7 @@ export interface EloResult {
  * Where:
  * - R_A is the current rating
  * - K is the K-factor
- * - S_A is the actual score (1 for win, 0 for loss)
+ * - S_A is the actual score (1 for win, 0.5 for draw, 0 for loss)
  * - E_A is the expected score
  *
  * The K-factor determines rating volatility:
@@ -100,6 +122,7 @@ export interface EloResult {
  * @param winnerGames - Number of games the winner has played (for K-factor selection)
  * @param loserGames - Number of games the loser has played (for K-factor selection)
  * @param config - Optional Elo configuration overrides
+ * @param outcome - 'win' if the winner won, 'draw' if neither did (default: 'win')
  * @returns Object containing new ratings and rating changes
  *
  * @example
@@ -110,13 +133,17 @@ export interface EloResult {
  * // Upset: lower-rated hero beats higher-rated
  * calculateNewRatings(1400, 1600, 10, 10)
  * // Winner gains more points due to the upset
+ *
+ * // Draw: the lower-rated hero gains, the higher-rated hero loses
+ * calculateNewRatings(1400, 1600, 10, 10, {}, 'draw')
  */
 export function calculateNewRatings(
   winnerRating: number,
   loserRating: number,
   winnerGames: number,
   loserGames: number,
-  config: Partial<EloConfig> = {}
+  config: Partial<EloConfig> = {},
+  outcome: MatchOutcome = 'win'
 ): EloResult {
   const fullConfig: EloConfig = { ...DEFAULT_ELO_CONFIG, ...config };
 
@@ -135,16 +162,21 @@ export function calculateNewRatings(
   const loserExpected = expectedScore(loserRating, winnerRating);
 
   // Calculate rating changes
-  // Winner: actual score is 1, so change = K * (1 - expected)
-  // Loser: actual score is 0, so change = K * (0 - expected)
-  const winnerChange = Math.round(winnerK * (1 - winnerExpected));
-  const loserChange = Math.round(loserK * (0 - loserExpected));
+  // Winner: actual score is 1 (0.5 for a draw), so change = K * (score - expected)
+  // Loser: actual score is 0 (0.5 for a draw), so change = K * (score - expected)
+  const winnerScore = actualScore(outcome);
+  const winnerChange = Math.round(winnerK * (winnerScore - winnerExpected));
+  const loserChange = Math.round(loserK * (1 - winnerScore - loserExpected));
 
   return {
     newWinnerRating: winnerRating + winnerChange,
     newLoserRating: loserRating + loserChange,
     winnerChange,
     loserChange,
+    winnerKFactor: winnerK,
+    loserKFactor: loserK,
+    winnerExpected,
+    loserExpected,
   };
 }
 
@@ -0,0 +1,302 @@
+/**
+ * Glicko-2 Rating System Utilities for Hero Rank
+ *
+ * Glicko-2 (Glickman, 2012) tracks three numbers per hero instead of one:
+ *
+ * - Rating (r): skill estimate on the familiar Elo-like scale (starts at 1500)
+ * - Rating deviation (RD): how uncertain the rating is. A new hero starts at 350;
+ *   every game shrinks it and time without games grows it again.
+ * - Volatility (σ): how erratic the hero's results are. Surprising results raise
+ *   it, which lets the rating move faster.
+ *
+ * Elo approximates uncertainty with a provisional K-factor; here the size of a
+ * rating change follows directly from both heroes' deviations.
+ *
+ * Glicko-2 is defined over rating periods in which all games are applied at once.
+ * Votes arrive one at a time, so each vote is applied immediately as its own
+ * rating period, and the time since the hero's previous game (measured in rating
+ * periods, possibly fractional) decides how much the deviation grows first.
+ */
+
+import type { MatchOutcome } from './elo';
+import { actualScore } from './elo';
+import type { ConfidenceLevel } from './wilsonScore';
+
+/**
+ * Configuration for Glicko-2 calculations
+ */
+export interface Glicko2Config {
+  /** Rating for new heroes (default: 1500) */
+  initialRating: number;
+  /** Rating deviation for new heroes, also the upper bound for any deviation (default: 350) */
+  initialDeviation: number;
+  /** Volatility for new heroes (default: 0.06) */
+  initialVolatility: number;
+  /** System constant limiting how fast volatility can change, usually 0.3-1.2 (default: 0.5) */
+  tau: number;
+  /** Length of one rating period in days (default: 1) */
+  ratingPeriodDays: number;
+}
+
+/**
+ * Default Glicko-2 configuration
+ */
+export const DEFAULT_GLICKO2_CONFIG: Glicko2Config = {
+  initialRating: 1500,
+  initialDeviation: 350,
+  initialVolatility: 0.06,
+  tau: 0.5,
+  ratingPeriodDays: 1,
+};
+
+/**
+ * A hero's Glicko-2 state on the display scale.
+ */
+export interface Glicko2Rating {
+  rating: number;
+  deviation: number;
+  volatility: number;
+}
+
+/**
+ * One game inside a rating period, from the rated hero's point of view.
+ */
+export interface Glicko2Game {
+  /** The opponent's state before the period */
+  opponent: Glicko2Rating;
+  /** 1 for a win, 0.5 for a draw, 0 for a loss */
+  score: number;
+}
+
+/**
+ * Result of a Glicko-2 match calculation
+ */
+export interface Glicko2MatchResult {
+  /** New state for the winner (first hero for a draw) */
+  winner: Glicko2Rating;
+  /** New state for the loser (second hero for a draw) */
+  loser: Glicko2Rating;
+  /** Winner's expected score before the match */
+  winnerExpected: number;
+  /** Loser's expected score before the match */
+  loserExpected: number;
+}
+
+/** Converts between the display scale and the internal Glicko-2 scale */
+const SCALE = 173.7178;
+
+/** Convergence tolerance for the volatility iteration */
+const EPSILON = 0.000001;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Creates the starting state for a hero that has never played.
+ */
+export function createDefaultGlicko2Rating(config: Partial<Glicko2Config> = {}): Glicko2Rating {
+  const fullConfig: Glicko2Config = { ...DEFAULT_GLICKO2_CONFIG, ...config };
+  return {
+    rating: fullConfig.initialRating,
+    deviation: fullConfig.initialDeviation,
+    volatility: fullConfig.initialVolatility,
+  };
+}
+
+/**
+ * Reduces the impact of a game according to the opponent's deviation.
+ */
+const g = (phi: number): number => 1 / Math.sqrt(1 + (3 * phi * phi) / (Math.PI * Math.PI));
+
+/**
+ * Expected score on the internal scale.
+ */
+const expectation = (mu: number, opponentMu: number, opponentPhi: number): number =>
+  1 / (1 + Math.exp(-g(opponentPhi) * (mu - opponentMu)));
+
+/**
+ * Calculates the expected score of hero A against hero B.
+ *
+ * Unlike Elo, the opponent's deviation pulls the expectation towards 0.5:
+ * beating a hero whose rating is uncertain says less.
+ *
+ * @param a - Hero A's state
+ * @param b - Hero B's state
+ * @param config - Optional Glicko-2 configuration overrides
+ * @returns Expected score for hero A (between 0 and 1)
+ *
+ * @example
+ * glicko2ExpectedScore({ rating: 1700, deviation: 50, volatility: 0.06 },
+ *                      { rating: 1500, deviation: 50, volatility: 0.06 }) // ~0.75
+ */
+export function glicko2ExpectedScore(
+  a: Glicko2Rating,
+  b: Glicko2Rating,
+  config: Partial<Glicko2Config> = {}
+): number {
+  const fullConfig: Glicko2Config = { ...DEFAULT_GLICKO2_CONFIG, ...config };
+  return expectation(
+    (a.rating - fullConfig.initialRating) / SCALE,
+    (b.rating - fullConfig.initialRating) / SCALE,
+    b.deviation / SCALE
+  );
+}
+
+/**
+ * Number of rating periods between two timestamps (fractional, never negative).
+ *
+ * @param fromMs - Time of the hero's previous game, in epoch milliseconds
+ * @param toMs - Time of the current game, in epoch milliseconds
+ * @param config - Optional Glicko-2 configuration overrides
+ */
+export function ratingPeriodsBetween(
+  fromMs: number,
+  toMs: number,
+  config: Partial<Glicko2Config> = {}
+): number {
+  const fullConfig: Glicko2Config = { ...DEFAULT_GLICKO2_CONFIG, ...config };
+  return Math.max(0, (toMs - fromMs) / (fullConfig.ratingPeriodDays * MS_PER_DAY));
+}
+
+/**
+ * Finds the new volatility (step 5 of Glickman's paper, Illinois algorithm).
+ */
+function updateVolatility(phi: number, sigma: number, delta: number, v: number, tau: number): number {
+  const a = Math.log(sigma * sigma);
+  const f = (x: number): number => {
+    const ex = Math.exp(x);
+    const denominator = phi * phi + v + ex;
+    return (ex * (delta * delta - phi * phi - v - ex)) / (2 * denominator * denominator) - (x - a) / (tau * tau);
+  };
+
+  let A = a;
+  let B: number;
+  if (delta * delta > phi * phi + v) {
+    B = Math.log(delta * delta - phi * phi - v);
+  } else {
+    let k = 1;
+    while (f(a - k * tau) < 0) k++;
+    B = a - k * tau;
+  }
+
+  let fA = f(A);
+  let fB = f(B);
+  while (Math.abs(B - A) > EPSILON) {
+    const C = A + ((A - B) * fA) / (fB - fA);
+    const fC = f(C);
+    if (fC * fB <= 0) {
+      A = B;
+      fA = fB;
+    } else {
+      fA = fA / 2;
+    }
+    B = C;
+    fB = fC;
+  }
+
+  return Math.exp(A / 2);
+}
+
+/**
+ * Applies one rating period of games to a hero.
+ *
+ * With no games, only the deviation grows (the hero's rating gets less certain).
+ * The deviation never grows past the initial deviation.
+ *
+ * @param player - The hero's state before the period
+ * @param games - Games the hero played during the period
+ * @param elapsedPeriods - Rating periods since the hero's previous update (default: 1)
+ * @param config - Optional Glicko-2 configuration overrides
+ * @returns The hero's new state
+ */
+export function updateGlicko2(
+  player: Glicko2Rating,
+  games: Glicko2Game[],
+  elapsedPeriods = 1,
+  config: Partial<Glicko2Config> = {}
+): Glicko2Rating {
+  const fullConfig: Glicko2Config = { ...DEFAULT_GLICKO2_CONFIG, ...config };
+  const maxPhi = fullConfig.initialDeviation / SCALE;
+
+  // Step 2: convert to the internal scale
+  const mu = (player.rating - fullConfig.initialRating) / SCALE;
+  const phi = player.deviation / SCALE;
+  const sigma = player.volatility;
+
+  if (games.length === 0) {
+    const grown = Math.min(maxPhi, Math.sqrt(phi * phi + elapsedPeriods * sigma * sigma));
+    return { ...player, deviation: grown * SCALE };
+  }
+
+  // Steps 3-4: estimated variance and improvement from this period's games
+  let varianceInverse = 0;
+  let improvement = 0;
+  for (const game of games) {
+    const opponentMu = (game.opponent.rating - fullConfig.initialRating) / SCALE;
+    const opponentPhi = game.opponent.deviation / SCALE;
+    const gPhi = g(opponentPhi);
+    const expected = expectation(mu, opponentMu, opponentPhi);
+    varianceInverse += gPhi * gPhi * expected * (1 - expected);
+    improvement += gPhi * (game.score - expected);
+  }
+  const v = 1 / varianceInverse;
+  const delta = v * improvement;
+
+  // Step 5: new volatility
+  const newSigma = updateVolatility(phi, sigma, delta, v, fullConfig.tau);
+
+  // Steps 6-7: grow the deviation for the elapsed time, then shrink it with the new information
+  const phiStar = Math.min(maxPhi, Math.sqrt(phi * phi + elapsedPeriods * newSigma * newSigma));
+  const newPhi = 1 / Math.sqrt(1 / (phiStar * phiStar) + 1 / v);
+  const newMu = mu + newPhi * newPhi * improvement;
+
+  // Step 8: back to the display scale
+  return {
+    rating: newMu * SCALE + fullConfig.initialRating,
+    deviation: newPhi * SCALE,
+    volatility: newSigma,
+  };
+}
+
+/**
+ * Calculates new Glicko-2 states after a single match.
+ *
+ * Both heroes are updated against the other's state from before the match.
+ *
+ * @param winner - Winner's state before the match (first hero for a draw)
+ * @param loser - Loser's state before the match (second hero for a draw)
+ * @param elapsed - Rating periods since each hero's previous game
+ * @param config - Optional Glicko-2 configuration overrides
+ * @param outcome - 'win' if the winner won, 'draw' if neither did (default: 'win')
+ * @returns New states and pre-match expected scores for both heroes
+ */
+export function calculateGlicko2Match(
+  winner: Glicko2Rating,
+  loser: Glicko2Rating,
+  elapsed: { winner: number; loser: number } = { winner: 1, loser: 1 },
+  config: Partial<Glicko2Config> = {},
+  outcome: MatchOutcome = 'win'
+): Glicko2MatchResult {
+  const winnerScore = actualScore(outcome);
+
+  return {
+    winner: updateGlicko2(winner, [{ opponent: loser, score: winnerScore }], elapsed.winner, config),
+    loser: updateGlicko2(loser, [{ opponent: winner, score: 1 - winnerScore }], elapsed.loser, config),
+    winnerExpected: glicko2ExpectedScore(winner, loser, config),
+    loserExpected: glicko2ExpectedScore(loser, winner, config),
+  };
+}
+
+/**
+ * Maps a rating deviation to a confidence level.
+ *
+ * - High: RD below 100 (95% interval narrower than about ±200)
+ * - Medium: RD below 200
+ * - Low: anything else, including new heroes at 350
+ *
+ * @param deviation - Rating deviation on the display scale
+ */
+export function getDeviationConfidence(deviation: number): ConfidenceLevel {
+  if (deviation < 100) return 'High';
+  if (deviation < 200) return 'Medium';
+  return 'Low';
+}
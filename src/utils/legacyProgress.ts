@@ -0,0 +1,61 @@
+import type { LegacyProgress } from "../backend/voters";
+
+/**
+ * Legacy localStorage Progress
+ *
+ * Before voter sessions, the voting page kept the vote count, streak and
+ * discovered heroes in localStorage under these keys. They are read once so
+ * the server can merge them into a new session, then cleared.
+ */
+
+const VOTE_COUNT_KEY = "heroRankVoteCount";
+const STREAK_KEY = "heroRankStreak";
+const DISCOVERY_KEY = "heroRankDiscoveredHeroes";
+
+const readJson = (key: string): unknown => {
+  const stored = localStorage.getItem(key);
+  if (!stored) return null;
+  try {
+    return JSON.parse(stored);
+  } catch {
+    return null;
+  }
+};
+
+const toCount = (value: unknown): number =>
+  typeof value === "number" && Number.isFinite(value) ? Math.max(0, Math.floor(value)) : 0;
+
+/**
+ * Reads progress saved in localStorage before voter sessions.
+ *
+ * @returns The saved progress, or null if there is none
+ */
+export const readLegacyProgress = (): LegacyProgress | null => {
+  if (typeof window === "undefined") return null;
+
+  const voteCount = toCount(Number(localStorage.getItem(VOTE_COUNT_KEY)));
+  const streak = readJson(STREAK_KEY) as Record<string, unknown> | null;
+  const discovered = readJson(DISCOVERY_KEY);
+  const discoveredHeroIds = Array.isArray(discovered)
+    ? discovered.filter((id): id is number => Number.isInteger(id))
+    : [];
+
+  if (voteCount === 0 && !streak && discoveredHeroIds.length === 0) return null;
+
+  return {
+    voteCount,
+    currentStreak: toCount(streak?.currentStreak),
+    longestStreak: toCount(streak?.longestStreak),
+    lastVoteDate: typeof streak?.lastVoteDate === "string" ? streak.lastVoteDate : null,
+    discoveredHeroIds,
+  };
+};
+
+/**
+ * Removes the legacy progress keys once the server has merged them.
+ */
+export const clearLegacyProgress = (): void => {
+  localStorage.removeItem(VOTE_COUNT_KEY);
+  localStorage.removeItem(STREAK_KEY);
+  localStorage.removeItem(DISCOVERY_KEY);
+};
@@ -0,0 +1,126 @@
+/**
+ * Prediction Metrics
+ *
+ * Scores how well a rating system's pre-vote win probabilities matched the
+ * votes that followed. Lower log-loss and Brier score are better; always
+ * predicting 50/50 scores ln 2 ≈ 0.693 and 0.25 respectively.
+ */
+
+/**
+ * One prediction and what actually happened.
+ */
+export interface Prediction {
+  /** Predicted probability that the first hero wins (0-1) */
+  expected: number;
+  /** Actual score of the first hero: 1 win, 0.5 draw, 0 loss */
+  actual: number;
+}
+
+/**
+ * Log-loss and Brier score of a set of predictions.
+ */
+export interface PredictionScore {
+  count: number;
+  /** Mean negative log-likelihood (null with no predictions) */
+  logLoss: number | null;
+  /** Mean squared error (null with no predictions) */
+  brierScore: number | null;
+  /** Share of decisive votes where the favorite won; a 50/50 call counts half (null with none) */
+  accuracy: number | null;
+}
+
+/** Log-loss of always predicting 50/50 */
+export const BASELINE_LOG_LOSS = Math.LN2;
+
+/** Brier score of always predicting 50/50 */
+export const BASELINE_BRIER_SCORE = 0.25;
+
+/** Keeps log-loss finite when a prediction is exactly 0 or 1 */
+const EPSILON = 1e-15;
+
+/**
+ * Scores a set of predictions.
+ *
+ * Draws count as half a win in both metrics, so their log-loss is
+ * -(ln p + ln(1 - p)) / 2, which is lowest when p = 0.5.
+ *
+ * @param predictions - Predictions with their outcomes
+ * @returns Log-loss, Brier score and accuracy
+ *
+ * @example
+ * scorePredictions([{ expected: 0.5, actual: 1 }]) // { count: 1, logLoss: 0.693, brierScore: 0.25, accuracy: 0.5 }
+ */
+export function scorePredictions(predictions: Prediction[]): PredictionScore {
+  let logLossSum = 0;
+  let brierSum = 0;
+  let decisive = 0;
+  let correct = 0;
+
+  for (const { expected, actual } of predictions) {
+    const p = Math.min(Math.max(expected, EPSILON), 1 - EPSILON);
+    logLossSum -= actual * Math.log(p) + (1 - actual) * Math.log(1 - p);
+    brierSum += (expected - actual) ** 2;
+
+    if (actual !== 0.5) {
+      decisive++;
+      if (expected === 0.5) correct += 0.5;
+      else if ((expected > 0.5) === (actual === 1)) correct++;
+    }
+  }
+
+  const count = predictions.length;
+  return {
+    count,
+    logLoss: count > 0 ? logLossSum / count : null,
+    brierScore: count > 0 ? brierSum / count : null,
+    accuracy: decisive > 0 ? correct / decisive : null,
+  };
+}
+
+/**
+ * One bucket of a calibration curve.
+ */
+export interface CalibrationBin {
+  /** Lower and upper bound of predicted probability */
+  from: number;
+  to: number;
+  count: number;
+  /** Mean predicted probability in the bin (null when empty) */
+  meanExpected: number | null;
+  /** Mean actual score in the bin (null when empty) */
+  meanActual: number | null;
+}
+
+/**
+ * Groups predictions by predicted probability to compare predicted and observed win rates.
+ *
+ * Each prediction is counted from the favorite's side (p ≥ 0.5), so the curve
+ * covers 0.5-1. In a well-calibrated system meanActual ≈ meanExpected in every bin.
+ *
+ * @param predictions - Predictions with their outcomes
+ * @param bins - Number of equal-width bins between 0.5 and 1 (default: 5)
+ * @returns One entry per bin, lowest probability first
+ */
+export function calibrationCurve(predictions: Prediction[], bins = 5): CalibrationBin[] {
+  const width = 0.5 / bins;
+  const sums = Array.from({ length: bins }, () => ({ count: 0, expected: 0, actual: 0 }));
+
+  for (const prediction of predictions) {
+    const flipped = prediction.expected < 0.5;
+    const expected = flipped ? 1 - prediction.expected : prediction.expected;
+    // A 50/50 call has no favorite, so it counts as half a win either way
+    const actual = expected === 0.5 ? 0.5 : flipped ? 1 - prediction.actual : prediction.actual;
+    const bin = sums[Math.min(Math.floor((expected - 0.5) / width), bins - 1)] as (typeof sums)[number];
+    bin.count++;
+    bin.expected += expected;
+    bin.actual += actual;
+  }
+
+  return sums.map((bin, i) => ({
+    from: 0.5 + i * width,
+    to: 0.5 + (i + 1) * width,
+    count: bin.count,
+    meanExpected: bin.count > 0 ? bin.expected / bin.count : null,
+    meanActual: bin.count > 0 ? bin.actual / bin.count : null,
+  }));
+}
@@ -0,0 +1,64 @@
+/**
+ * Rank Correlation Utilities
+ *
+ * Measures how similarly two rating systems order the same heroes.
+ */
+
+/**
+ * Kendall's tau-b between two score lists over the same items.
+ *
+ * Counts item pairs that both lists order the same way (concordant) or
+ * opposite ways (discordant); tau-b corrects for ties in either list.
+ * 1 means identical order, -1 reversed order and 0 no relationship.
+ *
+ * O(n²), which is fine for a roster of a few thousand heroes.
+ *
+ * @param a - Scores from the first system
+ * @param b - Scores from the second system, same order and length as `a`
+ * @returns Kendall's tau-b, or null when fewer than two items can be compared
+ *
+ * @example
+ * kendallTau([1, 2, 3], [10, 20, 30]) // 1
+ * kendallTau([1, 2, 3], [30, 20, 10]) // -1
+ */
+export function kendallTau(a: number[], b: number[]): number | null {
+  if (a.length !== b.length) {
+    throw new Error("Score lists must have the same length");
+  }
+
+  let concordant = 0;
+  let discordant = 0;
+  let tiedA = 0;
+  let tiedB = 0;
+
+  for (let i = 0; i < a.length; i++) {
+    for (let j = i + 1; j < a.length; j++) {
+      const da = Math.sign((a[i] as number) - (a[j] as number));
+      const db = Math.sign((b[i] as number) - (b[j] as number));
+      if (da === 0 && db === 0) continue;
+      if (da === 0) tiedA++;
+      else if (db === 0) tiedB++;
+      else if (da === db) concordant++;
+      else discordant++;
+    }
+  }
+
+  const denominator = Math.sqrt((concordant + discordant + tiedA) * (concordant + discordant + tiedB));
+  return denominator > 0 ? (concordant - discordant) / denominator : null;
+}
+
+/**
+ * 1-based ranks by score, highest first. Ties share the better rank.
+ *
+ * @param scores - Score per item
+ * @returns Rank per item, in the same order as `scores`
+ */
+export function ranksByScore(scores: number[]): number[] {
+  const order = scores.map((score, i) => ({ score, i })).sort((x, y) => y.score - x.score);
+  const ranks = new Array<number>(scores.length);
+  order.forEach(({ score, i }, position) => {
+    const previous = order[position - 1];
+    ranks[i] = previous && previous.score === score ? (ranks[previous.i] as number) : position + 1;
+  });
+  return ranks;
+}
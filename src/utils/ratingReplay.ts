@@ -0,0 +1,259 @@
+/**
+ * Rating Replay Utilities
+ *
+ * Applies match results to in-memory hero rating state. The live vote path
+ * and every offline job that rebuilds ratings from the votes table go through
+ * applyMatchResult, so a replay produces exactly what live voting would have.
+ */
+
+import { calculateNewRatings, EloConfig, MatchOutcome } from './elo';
+import { calculateGlicko2Match, Glicko2Config, Glicko2Rating, ratingPeriodsBetween } from './glicko2';
+import { HeroRatingState, createDefaultHeroRating } from '../types/heroRating';
+
+/**
+ * How a single hero's rating moved in one match.
+ * Mirrors a row in the `rating_history` table.
+ */
+export interface RatingStep {
+  heroId: number;
+  opponentId: number;
+  result: 'win' | 'loss' | 'draw';
+  ratingBefore: number;
+  ratingAfter: number;
+  kFactor: number;
+  expectedScore: number;
+}
+
+/**
+ * Glicko-2 settings for applying a match.
+ */
+export interface GlickoMatchOptions {
+  /** When the match was played, in epoch milliseconds (default: now) */
+  playedAt?: number;
+  /** Optional Glicko-2 configuration overrides */
+  config?: Partial<Glicko2Config>;
+}
+
+/**
+ * New state for both heroes after a match, plus how each rating moved.
+ */
+export interface MatchApplication {
+  winner: HeroRatingState;
+  loser: HeroRatingState;
+  winnerStep: RatingStep;
+  loserStep: RatingStep;
+  /** Glicko-2's pre-match expected score for the winner (first hero for a draw) */
+  glickoExpectedScore: number;
+}
+
+/**
+ * Applies one match result to both heroes' rating state.
+ *
+ * Updates rating, games, wins/losses/draws, peak/lowest rating and streak.
+ * A draw ends any streak for both heroes. The Glicko-2 state is updated
+ * alongside Elo, so either engine can be switched on without a replay.
+ * The input states are not modified.
+ *
+ * @param winner - Winner's state before the match (first hero for a draw)
+ * @param loser - Loser's state before the match (second hero for a draw)
+ * @param config - Optional Elo configuration overrides
+ * @param outcome - 'win' or 'draw' (default: 'win')
+ * @param glicko - When the match was played and Glicko-2 overrides
+ * @returns Both heroes' new state and their rating steps
+ */
+export function applyMatchResult(
+  winner: HeroRatingState,
+  loser: HeroRatingState,
+  config: Partial<EloConfig> = {},
+  outcome: MatchOutcome = 'win',
+  glicko: GlickoMatchOptions = {}
+): MatchApplication {
+  const result = calculateNewRatings(
+    winner.rating,
+    loser.rating,
+    winner.games,
+    loser.games,
+    config,
+    outcome
+  );
+  const isDraw = outcome === 'draw';
+
+  const playedAt = glicko.playedAt ?? Date.now();
+  const glickoState = (hero: HeroRatingState): Glicko2Rating => ({
+    rating: hero.glickoRating,
+    deviation: hero.glickoDeviation,
+    volatility: hero.glickoVolatility,
+  });
+  // A hero's first game counts as one rating period
+  const elapsed = (hero: HeroRatingState): number =>
+    hero.glickoUpdatedAt === null ? 1 : ratingPeriodsBetween(hero.glickoUpdatedAt, playedAt, glicko.config);
+  const glickoResult = calculateGlicko2Match(
+    glickoState(winner),
+    glickoState(loser),
+    { winner: elapsed(winner), loser: elapsed(loser) },
+    glicko.config,
+    outcome
+  );
+
+  const newWinner: HeroRatingState = {
+    ...winner,
+    rating: result.newWinnerRating,
+    games: winner.games + 1,
+    wins: isDraw ? winner.wins : winner.wins + 1,
+    draws: isDraw ? winner.draws + 1 : winner.draws,
+    peakRating: Math.max(winner.peakRating, result.newWinnerRating),
+    lowestRating: Math.min(winner.lowestRating, result.newWinnerRating),
+    // Reset streak on win after losses
+    currentStreak: isDraw ? 0 : winner.currentStreak >= 0 ? winner.currentStreak + 1 : 1,
+    glickoRating: glickoResult.winner.rating,
+    glickoDeviation: glickoResult.winner.deviation,
+    glickoVolatility: glickoResult.winner.volatility,
+    glickoUpdatedAt: playedAt,
+  };
+
+  const newLoser: HeroRatingState = {
+    ...loser,
+    rating: result.newLoserRating,
+    games: loser.games + 1,
+    losses: isDraw ? loser.losses : loser.losses + 1,
+    draws: isDraw ? loser.draws + 1 : loser.draws,
+    peakRating: Math.max(loser.peakRating, result.newLoserRating),
+    lowestRating: Math.min(loser.lowestRating, result.newLoserRating),
+    // Reset streak on loss after wins
+    currentStreak: isDraw ? 0 : loser.currentStreak <= 0 ? loser.currentStreak - 1 : -1,
+    glickoRating: glickoResult.loser.rating,
+    glickoDeviation: glickoResult.loser.deviation,
+    glickoVolatility: glickoResult.loser.volatility,
+    glickoUpdatedAt: playedAt,
+  };
+
+  return {
+    winner: newWinner,
+    loser: newLoser,
+    winnerStep: {
+      heroId: winner.heroId,
+      opponentId: loser.heroId,
+      result: isDraw ? 'draw' : 'win',
+      ratingBefore: winner.rating,
+      ratingAfter: result.newWinnerRating,
+      kFactor: result.winnerKFactor,
+      expectedScore: result.winnerExpected,
+    },
+    loserStep: {
+      heroId: loser.heroId,
+      opponentId: winner.heroId,
+      result: isDraw ? 'draw' : 'loss',
+      ratingBefore: loser.rating,
+      ratingAfter: result.newLoserRating,
+      kFactor: result.loserKFactor,
+      expectedScore: result.loserExpected,
+    },
+    glickoExpectedScore: glickoResult.winnerExpected,
+  };
+}
+
+/**
+ * In-memory map of hero ratings during a replay.
+ * Key: heroId
+ * Value: HeroRatingState
+ */
+export type RatingsMap = Map<number, HeroRatingState>;
+
+/**
+ * Gets a hero's rating from the map, or the default rating if the hero hasn't played yet.
+ *
+ * @param ratings - The ratings map
+ * @param heroId - The hero ID to look up
+ * @returns The hero's rating state
+ */
+export function getOrCreateRating(ratings: RatingsMap, heroId: number): HeroRatingState {
+  return ratings.get(heroId) ?? createDefaultHeroRating(heroId);
+}
+
+/**
+ * Applies a match result to a ratings map and stores both heroes' new state.
+ *
+ * @param ratings - The ratings map to update
+ * @param winnerId - The hero ID that won (first hero for a draw)
+ * @param loserId - The hero ID that lost (second hero for a draw)
+ * @param config - Optional Elo configuration overrides
+ * @param outcome - 'win' or 'draw' (default: 'win')
+ * @param glicko - When the match was played and Glicko-2 overrides
+ * @returns The match application (new states and rating steps)
+ */
+export function replayMatch(
+  ratings: RatingsMap,
+  winnerId: number,
+  loserId: number,
+  config: Partial<EloConfig> = {},
+  outcome: MatchOutcome = 'win',
+  glicko: GlickoMatchOptions = {}
+): MatchApplication {
+  const application = applyMatchResult(
+    getOrCreateRating(ratings, winnerId),
+    getOrCreateRating(ratings, loserId),
+    config,
+    outcome,
+    glicko
+  );
+  ratings.set(winnerId, application.winner);
+  ratings.set(loserId, application.loser);
+  return application;
+}
+
+/**
+ * One vote to replay, as stored in the votes table.
+ */
+export interface ReplayVote {
+  voteId: number;
+  winnerId: number;
+  loserId: number;
+  outcome: MatchOutcome;
+  /** When the vote was cast, in epoch milliseconds */
+  playedAt: number;
+}
+
+/**
+ * Result of replaying a list of votes from scratch.
+ */
+export interface ReplayResult {
+  /** Every hero's final state */
+  ratings: RatingsMap;
+  /** Rating steps per replayed vote, in replay order */
+  steps: Array<{ voteId: number; steps: [RatingStep, RatingStep] }>;
+  /** Votes skipped because a hero was voted against itself */
+  skipped: number;
+}
+
+/**
+ * Replays votes in the given order, starting every hero from the default rating.
+ *
+ * @param votes - Votes in chronological order
+ * @param config - Optional Elo configuration overrides
+ * @param glickoConfig - Optional Glicko-2 configuration overrides
+ * @returns Final ratings and the rating steps of every vote
+ */
+export function replayVotes(
+  votes: ReplayVote[],
+  config: Partial<EloConfig> = {},
+  glickoConfig: Partial<Glicko2Config> = {}
+): ReplayResult {
+  const ratings: RatingsMap = new Map();
+  const steps: ReplayResult['steps'] = [];
+  let skipped = 0;
+
+  for (const vote of votes) {
+    if (vote.winnerId === vote.loserId) {
+      skipped++;
+      continue;
+    }
+
+    const { winnerStep, loserStep } = replayMatch(ratings, vote.winnerId, vote.loserId, config, vote.outcome, {
+      playedAt: vote.playedAt,
+      config: glickoConfig,
+    });
+    steps.push({ voteId: vote.voteId, steps: [winnerStep, loserStep] });
+  }
+
+  return { ratings, steps, skipped };
+}
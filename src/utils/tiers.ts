@@ -0,0 +1,52 @@
+/**
+ * Rating Tiers
+ *
+ * Heroes are grouped into display tiers by Elo rating.
+ * Used for tier badges, tier filters and tier-tinted backgrounds.
+ */
+
+export type TierName = "DIAMOND" | "PLATINUM" | "GOLD" | "SILVER" | "BRONZE";
+
+/** Tiers from highest to lowest, with the minimum rating of each */
+export const TIERS: Array<{ name: TierName; min: number }> = [
+  { name: "DIAMOND", min: 1850 },
+  { name: "PLATINUM", min: 1700 },
+  { name: "GOLD", min: 1550 },
+  { name: "SILVER", min: 1400 },
+  { name: "BRONZE", min: 0 },
+];
+
+export const getTier = (rating: number): { name: TierName; min: number } =>
+  TIERS.find((tier) => rating >= tier.min) ?? { name: "BRONZE", min: 0 };
+
+/**
+ * Rating range of a tier: min inclusive, max exclusive.
+ * The lowest tier has no lower bound and the highest no upper bound (null).
+ */
+export const getTierRange = (tier: TierName): { min: number | null; max: number | null } => {
+  const index = TIERS.findIndex((candidate) => candidate.name === tier);
+  return {
+    min: index === TIERS.length - 1 ? null : (TIERS[index] as { min: number }).min,
+    max: index === 0 ? null : (TIERS[index - 1] as { min: number }).min,
+  };
+};
+
+export const getTierClass = (tier: TierName): string => {
+  switch (tier) {
+    case "DIAMOND": return "tier-diamond";
+    case "PLATINUM": return "tier-platinum";
+    case "GOLD": return "tier-gold";
+    case "SILVER": return "tier-silver";
+    case "BRONZE": return "tier-bronze";
+  }
+};
+
+export const getTierExpandedBg = (tier: TierName): string => {
+  switch (tier) {
+    case "DIAMOND": return "tier-expanded-diamond";
+    case "PLATINUM": return "tier-expanded-platinum";
+    case "GOLD": return "tier-expanded-gold";
+    case "SILVER": return "tier-expanded-silver";
+    case "BRONZE": return "tier-expanded-bronze";
+  }
+};
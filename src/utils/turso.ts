@@ -1,4 +1,4 @@
-import { createClient } from '@libsql/client';
+import { createClient, LibsqlError, type Transaction } from '@libsql/client';
 import path from 'path';
 
 // Check if we have the required environment variables
@@ -21,4 +21,68 @@ if (!tursoDbUrl || tursoDbUrl === 'your_turso_db_url' || !tursoAuthToken || turs
   });
 }
 
+/**
+ * Anything that can run a statement: the client itself or an open transaction.
+ */
+export type SqlExecutor = Pick<Transaction, 'execute'>;
+
+/**
+ * An executor that can also run a batch of statements, e.g. an open transaction.
+ */
+export type SqlBatchExecutor = Pick<Transaction, 'execute' | 'batch'>;
+
+const MAX_TRANSACTION_ATTEMPTS = 8;
+const RETRY_BASE_DELAY_MS = 25;
+
+/**
+ * Checks whether an error means another writer currently holds the lock.
+ */
+function isBusyError(error: unknown): boolean {
+  if (error instanceof LibsqlError) {
+    return error.code.startsWith('SQLITE_BUSY') || error.code.startsWith('SQLITE_LOCKED');
+  }
+  return error instanceof Error && /database is locked/i.test(error.message);
+}
+
+/**
+ * Runs `fn` inside a write transaction and commits it.
+ *
+ * Write transactions start with BEGIN IMMEDIATE, so reads made inside `fn`
+ * can't be invalidated by a concurrent writer before the commit. If the
+ * database is busy, the whole transaction is retried with a short backoff.
+ * Any other error rolls the transaction back and is rethrown.
+ *
+ * @param fn - Work to run; receives the open transaction
+ * @returns Whatever `fn` returns
+ */
+export async function withWriteTransaction<T>(
+  fn: (tx: Transaction) => Promise<T>
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    let tx: Transaction | null = null;
+    try {
+      tx = await client.transaction('write');
+      const result = await fn(tx);
+      await tx.commit();
+      return result;
+    } catch (error) {
+      if (tx && !tx.closed) {
+        await tx.rollback().catch(() => undefined);
+      }
+      if (!isBusyError(error) || attempt >= MAX_TRANSACTION_ATTEMPTS) {
+        throw error;
+      }
+      // A local file connection whose BEGIN failed keeps that statement open,
+      // which would block every later commit; start over on a fresh connection
+      if (!tx && client.protocol === 'file') {
+        await client.reconnect();
+      }
+      const delay = RETRY_BASE_DELAY_MS * 2 ** (attempt - 1) * (1 + Math.random());
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    } finally {
+      tx?.close();
+    }
+  }
+}
+
 export { client as turso };
\ No newline at end of file
@@ -100,6 +100,9 @@ export type ConfidenceLevel = 'High' | 'Medium' | 'Low';
  * getConfidenceLevel(50, 30, 20) // Returns 'High' (large sample)
  * getConfidenceLevel(15, 10, 5) // Returns 'Medium' (moderate sample)
  * getConfidenceLevel(5, 4, 1) // Returns 'Low' (small sample)
+ *
+ * @deprecated Game counts are a rough proxy; use getDeviationConfidence from ./glicko2,
+ * which is based on the hero's Glicko-2 rating deviation.
  */
 export function getConfidenceLevel(
   games: number,